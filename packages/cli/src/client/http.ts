@@ -0,0 +1,67 @@
+/**
+ * HTTP client for CodePlanner CLI
+ *
+ * This module provides a small client for the gateway's REST endpoints,
+ * used for requests that don't need a streaming WebSocket connection.
+ */
+
+import type { JobRecord } from '@codeplanner/shared';
+
+/**
+ * HTTP client for the CodePlanner gateway
+ * Derives the HTTP base URL from the configured WebSocket URL
+ */
+export class GatewayHttpClient {
+  private baseUrl: string;
+  private token?: string;
+
+  /**
+   * @param gatewayUrl - Gateway WebSocket URL (ws:// or wss://)
+   * @param token - API token sent as a Bearer credential (if configured)
+   */
+  constructor(gatewayUrl: string, token?: string) {
+    this.baseUrl = gatewayUrl.replace(/^ws(s?):\/\//, 'http$1://').replace(/\/+$/, '');
+    this.token = token;
+  }
+
+  /**
+   * Fetches a single job record
+   * @param jobId - Job ID
+   * @returns Job record including streamed output
+   */
+  async getJob(jobId: string): Promise<JobRecord> {
+    return this.request<JobRecord>(`/jobs/${encodeURIComponent(jobId)}`);
+  }
+
+  /**
+   * Lists recent jobs
+   * @param projectId - Project to filter by (all projects if omitted)
+   * @param limit - Maximum number of jobs to return
+   * @returns Job records, newest first
+   */
+  async listJobs(projectId?: string, limit: number = 20): Promise<JobRecord[]> {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (projectId) {
+      params.set('project', projectId);
+    }
+    const response = await this.request<{ jobs: JobRecord[] }>(`/jobs?${params}`);
+    return response.jobs;
+  }
+
+  /**
+   * Performs an authenticated GET request and parses the JSON body
+   * @param path - Request path including query string
+   * @returns Parsed response body
+   */
+  private async request<T>(path: string): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      headers: this.token ? { Authorization: `Bearer ${this.token}` } : {}
+    });
+    const body: any = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(body.error || `Gateway responded with HTTP ${response.status}`);
+    }
+    return body as T;
+  }
+}
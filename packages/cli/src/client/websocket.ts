@@ -3,10 +3,23 @@
  * 
  * This module provides a WebSocket client that connects to the CodePlanner gateway
  * and handles real-time communication for streaming responses and status updates.
+ * Dropped connections are re-established with backoff and the active job is
+ * resumed from the last result received.
  */
 
 import type { WSMessage } from '@codeplanner/shared';
 
+/** Delay before the first reconnect attempt, doubled on every further attempt */
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 10000;
+const MAX_RECONNECT_ATTEMPTS = 10;
+
+/**
+ * WebSocket constructor as implemented by Bun, which also takes connection options
+ * (the DOM typings, which win when both are loaded, only know about subprotocols)
+ */
+type BunWebSocketConstructor = new (url: string | URL, options?: Bun.WebSocketOptions) => WebSocket;
+
 /**
  * WebSocket client for communicating with CodePlanner gateway
  * Handles connection management, message routing, and event handling
@@ -14,48 +27,180 @@ import type { WSMessage } from '@codeplanner/shared';
 export class CodePlannerClient {
   private ws: WebSocket | null = null;
   private handlers: Map<string, Function> = new Map();
+  private jobId: string | null = null;
+  private url: string = 'ws://localhost:3000';
+  private token?: string;
+  private lastSeq: number = 0;
+  private jobFinished: boolean = false;
+  private closing: boolean = false;
+  private reconnectAttempts: number = 0;
+  private quiet: boolean;
+
+  /**
+   * @param options - Client options; `quiet` suppresses connection status messages
+   *                  (used when stdout carries machine-readable output)
+   */
+  constructor(options: { quiet?: boolean } = {}) {
+    this.quiet = options.quiet ?? false;
+  }
 
   /**
    * Establishes WebSocket connection to the CodePlanner gateway
    * @param url - WebSocket server URL (defaults to localhost:3000)
+   * @param token - API token sent as a Bearer credential (if configured)
    * @returns Promise that resolves when connection is established
    */
-  async connect(url: string = 'ws://localhost:3000'): Promise<void> {
+  async connect(url: string = 'ws://localhost:3000', token?: string): Promise<void> {
+    this.url = url;
+    this.token = token;
+    this.closing = false;
+    
+    try {
+      await this.open();
+      this.info('🔗 Connected to CodePlanner gateway');
+    } catch (error) {
+      console.error('❌ WebSocket connection error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Opens a WebSocket to the gateway and wires up its event handlers
+   * @returns Promise that resolves when the socket is open
+   */
+  private open(): Promise<void> {
     return new Promise((resolve, reject) => {
-      this.ws = new WebSocket(url);
+      const options: Bun.WebSocketOptions = this.token
+        ? { headers: { Authorization: `Bearer ${this.token}` } }
+        : {};
+      const ws = new (WebSocket as BunWebSocketConstructor)(this.url, options);
+      this.ws = ws;
+      let opened = false;
       
-      // Handle successful connection
-      this.ws.onopen = () => {
-        console.log('🔗 Connected to CodePlanner gateway');
+      ws.onopen = () => {
+        opened = true;
         resolve();
       };
       
-      // Handle connection errors
-      this.ws.onerror = (err) => {
-        console.error('❌ WebSocket connection error:', err);
-        reject(err);
+      ws.onerror = (err) => {
+        if (!opened) {
+          reject(err);
+        }
       };
       
-      // Handle incoming messages
-      this.ws.onmessage = (event) => {
-        try {
-          const msg: WSMessage = JSON.parse(event.data);
-          const handler = this.handlers.get(msg.type);
-          if (handler) {
-            handler(msg);
-          } else {
-            console.warn(`⚠️  No handler registered for message type: ${msg.type}`);
-          }
-        } catch (error) {
-          console.error('❌ Error parsing WebSocket message:', error);
+      // Reconnect unless the connection was closed on purpose
+      ws.onclose = () => {
+        if (opened && !this.closing && this.ws === ws) {
+          this.scheduleReconnect();
         }
       };
+      
+      ws.onmessage = (event) => {
+        this.handleMessage(event.data);
+      };
     });
   }
 
+  /**
+   * Routes an incoming message to its handler
+   * Results already received before a reconnect are skipped by sequence number
+   * @param data - Raw message data
+   */
+  private handleMessage(data: string): void {
+    try {
+      const msg: WSMessage = JSON.parse(data);
+      if (msg.type === 'accepted') {
+        this.jobId = msg.jobId;
+        this.lastSeq = 0;
+        this.jobFinished = false;
+      }
+      
+      if (msg.jobId === this.jobId) {
+        if (msg.seq !== undefined) {
+          if (msg.seq <= this.lastSeq) {
+            return;
+          }
+          this.lastSeq = msg.seq;
+        }
+        if (msg.type === 'response' || msg.type === 'error') {
+          this.jobFinished = true;
+        }
+      }
+      
+      this.dispatch(msg);
+    } catch (error) {
+      console.error('❌ Error parsing WebSocket message:', error);
+    }
+  }
+
+  /**
+   * Calls the handler registered for a message's type
+   * @param msg - Message to dispatch
+   */
+  private dispatch(msg: WSMessage): void {
+    const handler = this.handlers.get(msg.type);
+    if (handler) {
+      handler(msg);
+    } else if (msg.type === 'cancel') {
+      // Acknowledgement of cancel(); the job itself reports back once it has stopped
+      console.log(msg.data?.status === 'cancelled' ? '🚫 Job cancelled' : '🚫 Cancellation requested');
+    } else if (msg.type !== 'accepted') {
+      console.warn(`⚠️  No handler registered for message type: ${msg.type}`);
+    }
+  }
+
+  /**
+   * Schedules the next reconnect attempt with exponential backoff
+   * Gives up after MAX_RECONNECT_ATTEMPTS and reports an error to the command
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      this.ws = null;
+      this.dispatch({
+        type: 'error',
+        jobId: this.jobId || 'unknown',
+        data: { message: `Lost connection to the gateway after ${MAX_RECONNECT_ATTEMPTS} reconnect attempts` }
+      });
+      return;
+    }
+    
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * Math.pow(2, this.reconnectAttempts));
+    this.reconnectAttempts++;
+    console.warn(`\n⚠️  Connection to gateway lost, reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${MAX_RECONNECT_ATTEMPTS})...`);
+    setTimeout(() => this.reconnect(), delay);
+  }
+
+  /**
+   * Re-opens the connection and resumes the active job, if it hasn't finished
+   */
+  private async reconnect(): Promise<void> {
+    if (this.closing) {
+      return;
+    }
+    
+    try {
+      await this.open();
+    } catch {
+      this.scheduleReconnect();
+      return;
+    }
+    
+    this.reconnectAttempts = 0;
+    if (this.jobId && !this.jobFinished) {
+      this.info(`🔗 Reconnected, resuming job ${this.jobId} after result #${this.lastSeq}`);
+      const resume: WSMessage = { type: 'resume', jobId: this.jobId, data: { afterSeq: this.lastSeq } };
+      this.send(resume);
+    } else {
+      this.info('🔗 Reconnected to CodePlanner gateway');
+    }
+    
+    // Lets commands re-send what couldn't be sent while disconnected
+    this.handlers.get('reconnected')?.();
+  }
+
   /**
    * Registers an event handler for specific message types
-   * @param event - Message type to listen for
+   * @param event - Message type to listen for, or 'reconnected' (called after a dropped connection is re-opened)
    * @param handler - Function to call when message is received
    */
   on(event: string, handler: Function): void {
@@ -65,26 +210,74 @@ export class CodePlannerClient {
   /**
    * Sends data to the WebSocket server
    * @param data - Data to send (will be JSON stringified)
+   * @returns true if the data was sent, false if the connection is down (e.g. while reconnecting)
    */
-  send(data: any): void {
+  send(data: any): boolean {
     if (this.ws?.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(data));
-    } else {
-      console.error('❌ WebSocket is not connected');
+      return true;
     }
+    console.error('❌ WebSocket is not connected');
+    return false;
+  }
+
+  /**
+   * Asks the gateway to cancel a job
+   * @param jobId - Job to cancel
+   */
+  cancel(jobId: string): void {
+    const message: WSMessage = { type: 'cancel', jobId, data: {} };
+    this.send(message);
+  }
+
+  /**
+   * Cancels the accepted job when the user presses Ctrl+C
+   * Otherwise the worker would keep spending tokens on a job nobody is waiting for
+   */
+  cancelOnInterrupt(): void {
+    process.once('SIGINT', () => {
+      if (this.jobId && this.isConnected()) {
+        console.log(`\n🚫 Cancelling job ${this.jobId}...`);
+        this.cancel(this.jobId);
+      }
+      // Give the cancel message a moment to reach the gateway
+      setTimeout(() => {
+        this.close();
+        process.exit(130);
+      }, 200);
+    });
   }
 
   /**
    * Closes the WebSocket connection
    */
   close(): void {
+    this.closing = true;
     if (this.ws) {
       this.ws.close();
       this.ws = null;
-      console.log('🔌 Disconnected from CodePlanner gateway');
+      this.info('🔌 Disconnected from CodePlanner gateway');
+    }
+  }
+
+  /**
+   * Prints a connection status message unless the client is quiet
+   * @param message - Message to print
+   */
+  private info(message: string): void {
+    if (!this.quiet) {
+      console.log(message);
     }
   }
 
+  /**
+   * Gets the ID of the most recently accepted job
+   * @returns Job ID, or null if no job has been accepted yet
+   */
+  getJobId(): string | null {
+    return this.jobId;
+  }
+
   /**
    * Checks if the WebSocket connection is active
    * @returns true if connected, false otherwise
@@ -5,8 +5,11 @@
  * errors and generates debugging plans with step-by-step fixes.
  */
 
+import * as path from 'path';
 import { CodePlannerClient } from '../client/websocket';
-import type { PlanRequest } from '@codeplanner/shared';
+import { loadConfig } from '../utils/config';
+import { savePlanArtifact } from '../utils/history';
+import type { DebuggingPlan, ErrorDetection, ErrorReference, PlanRequest } from '@codeplanner/shared';
 
 /**
  * Handles the analyze-error command execution
@@ -14,18 +17,28 @@ import type { PlanRequest } from '@codeplanner/shared';
  * @param options - Command line options
  */
 export async function analyzeErrorCommand(options: any) {
-  console.log('🐛 Analyzing error and generating debugging plan...\n');
+  const config = loadConfig(options.project, {
+    gatewayUrl: options.gateway,
+    errorType: options.type,
+    format: options.format
+  });
+  const { projectId, errorType, format } = config.values;
+  const json = format === 'json';
+  
+  // In JSON mode stdout carries only the debugging plan, so status messages go to stderr
+  const status = json ? console.error : console.log;
+  status('🐛 Analyzing error and generating debugging plan...\n');
   
   let errorInput: string;
   
   // Get error input from command line option or stdin
   if (options.error) {
     errorInput = options.error;
-    console.log(`📝 Error input: ${errorInput}`);
+    status(`📝 Error input: ${errorInput}`);
   } else {
     // Read error from stdin if not provided as option
-    console.log('📝 Paste your error below (press Ctrl+D when done):');
-    console.log('   (You can paste compiler errors, runtime errors, or linter warnings)\n');
+    status('📝 Paste your error below (press Ctrl+D when done):');
+    status('   (You can paste compiler errors, runtime errors, or linter warnings)\n');
     
     try {
       errorInput = await Bun.stdin.text();
@@ -40,35 +53,83 @@ export async function analyzeErrorCommand(options: any) {
     process.exit(1);
   }
 
-  console.log(`📁 Project: ${options.project}`);
-  console.log(`🔍 Error type: ${options.type}\n`);
+  status(`📁 Project: ${options.project} (${projectId})`);
+  status(`🔍 Error type: ${errorType}\n`);
   
-  const client = new CodePlannerClient();
+  const client = new CodePlannerClient({ quiet: json });
+  // Streamed debugging plan text, saved once the plan is complete
+  let output = '';
   
   try {
     // Connect to the WebSocket gateway
-    await client.connect();
+    await client.connect(config.values.gatewayUrl, config.values.token);
+    client.cancelOnInterrupt();
     
     // Prepare the error analysis request
     const request: PlanRequest = {
       command: 'analyze-error',
-      userId: 'user1', // TODO: Get from config file
-      projectId: 'project1', // TODO: Get from config file
+      projectId,
       projectPath: options.project,
       errorInput: errorInput.trim(),
-      errorType: options.type
+      errorType,
+      format
     };
 
+    client.on('accepted', (msg: any) => {
+      status(`🆔 Job ID: ${msg.jobId}\n`);
+    });
+
     // Set up event handlers for streaming responses
     client.on('stream', (msg: any) => {
+      // The worker first reports how it parsed the input
+      if (msg.data.detection) {
+        printDetection(msg.data.detection, status);
+        return;
+      }
+      
       // Stream the debugging plan content as it's generated
-      process.stdout.write(
-        typeof msg.data.chunk === 'string' ? msg.data.chunk : JSON.stringify(msg.data.chunk)
-      );
+      const chunk = typeof msg.data.chunk === 'string' ? msg.data.chunk : JSON.stringify(msg.data.chunk);
+      output += chunk;
+      process.stdout.write(chunk);
     });
 
     client.on('response', (msg: any) => {
+      const save = () => {
+        if (options.save === false) {
+          return;
+        }
+        try {
+          const filePath = savePlanArtifact(options.project, {
+            command: 'analyze-error',
+            query: errorInput.trim(),
+            jobId: msg.jobId,
+            projectId,
+            model: msg.data.model,
+            context: msg.data.context,
+            content: output,
+            plan: msg.data.plan
+          });
+          status(`💾 Saved to ${path.relative(process.cwd(), filePath)}`);
+        } catch (error) {
+          console.error('⚠️  Failed to save debugging plan:', (error as Error).message);
+        }
+      };
+
+      if (json) {
+        console.log(JSON.stringify(msg.data.plan, null, 2));
+        status('\n✅ Debugging plan generated successfully!');
+        printResolvedErrors(msg.data.plan, status);
+        save();
+        client.close();
+        return;
+      }
+      
       console.log('\n\n✅ Debugging plan generated successfully!');
+      if (msg.data.errors?.length) {
+        const related = msg.data.errors.reduce((sum: number, error: ErrorReference) => sum + error.related.length, 0);
+        console.log(`📋 Analyzed ${msg.data.errors.length} errors${related > 0 ? ` (${related} related errors merged)` : ''}`);
+      }
+      save();
       console.log('\n🔧 Follow the steps above to resolve the error.');
       client.close();
     });
@@ -76,6 +137,7 @@ export async function analyzeErrorCommand(options: any) {
     client.on('error', (msg: any) => {
       console.error('\n❌ Error analyzing error:', msg.data.message);
       client.close();
+      process.exitCode = 1;
     });
 
     // Send the error analysis request
@@ -85,6 +147,51 @@ export async function analyzeErrorCommand(options: any) {
     console.error('❌ Failed to connect to CodePlanner gateway:', error);
     console.log('\n🔧 Make sure the gateway is running:');
     console.log('   bun packages/gateway/src/server.ts');
+    console.log('   and that your API token is set (codeplanner config set token <token>)');
     process.exit(1);
   }
 }
+
+/**
+ * Prints the error type and parser the worker chose for the input
+ * @param detection - Detected format
+ * @param print - Output function (stderr in JSON mode)
+ */
+function printDetection(detection: ErrorDetection, print: (...args: any[]) => void): void {
+  print(`🔎 Parsed as ${detection.type} errors (${detection.parser} format, ${Math.round(detection.confidence * 100)}% confidence)\n`);
+  if (detection.confidence < 0.5) {
+    print('⚠️  Low confidence; pass --type compiler, runtime or linter if the error type is wrong\n');
+  }
+}
+
+/**
+ * Prints which analyzed errors each step of a structured debugging plan resolves
+ * Errors merged into an analyzed error are listed under its ID
+ * @param plan - Structured debugging plan
+ * @param print - Output function (stderr in JSON mode)
+ */
+function printResolvedErrors(plan: DebuggingPlan, print: (...args: any[]) => void): void {
+  if (!plan.errors?.length) {
+    return;
+  }
+
+  const errors = new Map(plan.errors.map(error => [error.id, error]));
+  print('\n📋 Errors resolved by each step:');
+  for (const step of plan.steps) {
+    const resolved = (step.resolves || []).map(id => {
+      const error = errors.get(id);
+      return error ? `${id} ${error.filePath ? `${error.filePath}:${error.lineNumber || '?'} ` : ''}${error.code || ''}`.trim() : id;
+    });
+    print(`   ${step.stepNumber}. ${step.action} → ${resolved.length > 0 ? resolved.join(', ') : '-'}`);
+    for (const id of step.resolves || []) {
+      for (const other of errors.get(id)?.related || []) {
+        print(`        ${id} also: ${other}`);
+      }
+    }
+  }
+
+  const unresolved = plan.errors.filter(error => !plan.steps.some(step => step.resolves?.includes(error.id)));
+  if (unresolved.length > 0) {
+    print(`⚠️  Not addressed by any step: ${unresolved.map(error => error.id).join(', ')}`);
+  }
+}
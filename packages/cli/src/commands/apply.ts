@@ -0,0 +1,117 @@
+/**
+ * Apply command implementation for CodePlanner CLI
+ *
+ * This module handles the 'apply' command which turns the code changes
+ * of a saved structured plan or debugging plan into file edits, showing
+ * a unified diff and asking for confirmation first.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import { createInterface } from 'readline/promises';
+import type { PlanStep } from '@codeplanner/shared';
+import { applyCodeChanges } from '../utils/patch';
+import { createUnifiedDiff } from '../utils/diff';
+import { formatDiff } from '../utils/formatter';
+import { extractStructuredPlan } from '../utils/history';
+
+/**
+ * Handles the apply command execution
+ * @param planFile - Path to a JSON plan, or a plan saved under .codeplanner/plans
+ * @param options - Command line options
+ */
+export async function applyCommand(planFile: string, options: any) {
+  const steps = readPlanSteps(planFile);
+  const { files, skipped } = applyCodeChanges(steps, options.project);
+
+  const changeCount = steps.filter(step => step.codeChange).length;
+  console.log(`📄 Plan: ${planFile} (${steps.length} steps, ${changeCount} with code changes)\n`);
+
+  const patch = files
+    .map(file => createUnifiedDiff(file.original, file.updated, file.relativePath))
+    .join('');
+
+  if (patch) {
+    console.log(formatDiff(patch));
+  }
+
+  // Report every change that could not be applied, so nothing is dropped silently
+  if (skipped.length > 0) {
+    console.warn(`⚠️  ${skipped.length} code changes could not be applied:`);
+    for (const change of skipped) {
+      console.warn(`   Step ${change.stepNumber}${change.filePath ? ` (${change.filePath})` : ''}: ${change.reason}`);
+    }
+    console.warn('');
+  }
+
+  if (files.length === 0) {
+    console.log('📭 No changes to apply');
+    process.exitCode = skipped.length > 0 ? 1 : 0;
+    return;
+  }
+
+  if (options.dryRun) {
+    const patchFile = options.output || defaultPatchPath(planFile);
+    writeFileSync(patchFile, patch);
+    console.log(`💾 Wrote patch for ${files.length} files to ${patchFile}`);
+    console.log(`💡 Apply it later with: git apply ${patchFile}`);
+    return;
+  }
+
+  if (!options.yes && !(await confirm(`Apply changes to ${files.length} files? [y/N] `))) {
+    console.log('🚫 Nothing was changed');
+    return;
+  }
+
+  for (const file of files) {
+    mkdirSync(path.dirname(file.filePath), { recursive: true });
+    writeFileSync(file.filePath, file.updated);
+    console.log(`${file.isNew ? '🆕 Created' : '✏️  Updated'} ${file.relativePath} (steps ${file.steps.join(', ')})`);
+  }
+  console.log(`\n✅ Applied ${files.reduce((count, file) => count + file.steps.length, 0)} code changes`);
+}
+
+/**
+ * Reads the steps of a saved plan or debugging plan
+ * @param planFile - Path to the JSON plan or saved Markdown plan
+ * @returns Plan steps
+ */
+function readPlanSteps(planFile: string): PlanStep[] {
+  let plan: any;
+  try {
+    const content = readFileSync(planFile, 'utf-8');
+    plan = planFile.endsWith('.md') ? extractStructuredPlan(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Could not read plan ${planFile}: ${(error as Error).message}`);
+  }
+
+  if (!plan || !Array.isArray(plan.steps)) {
+    throw new Error(`${planFile} is not a structured plan (expected output of --format json)`);
+  }
+  return plan.steps;
+}
+
+/**
+ * Derives the default patch file path from the plan file
+ * @param planFile - Path to the plan
+ * @returns Path of the .patch file next to the plan
+ */
+function defaultPatchPath(planFile: string): string {
+  const parsed = path.parse(planFile);
+  return path.join(parsed.dir, `${parsed.name}.patch`);
+}
+
+/**
+ * Asks a yes/no question on the terminal
+ * @param question - Question to ask
+ * @returns true if the user answered yes
+ */
+async function confirm(question: string): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question(question);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
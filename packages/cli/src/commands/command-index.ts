@@ -7,4 +7,9 @@
 
 export { planCommand } from './plan';
 export { analyzeErrorCommand } from './analyze-error';
-export { indexCommand } from './index';
\ No newline at end of file
+export { indexCommand } from './index';
+export { watchCommand } from './watch';
+export { configGetCommand, configSetCommand, configListCommand } from './config';
+export { jobsListCommand, jobsShowCommand, jobsCancelCommand } from './jobs';
+export { applyCommand } from './apply';
+export { historyListCommand, historyShowCommand, historyRmCommand } from './history';
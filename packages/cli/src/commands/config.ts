@@ -0,0 +1,99 @@
+/**
+ * Config command implementation for CodePlanner CLI
+ *
+ * This module handles the 'config get/set/list' subcommands which read
+ * and write the layered CLI configuration.
+ */
+
+import {
+  CONFIG_KEYS,
+  getGlobalConfigPath,
+  getProjectConfigPath,
+  GLOBAL_ONLY_KEYS,
+  isConfigKey,
+  loadConfig,
+  PROJECT_CONFIG_FILE,
+  PROJECT_ONLY_KEYS,
+  setConfigValue
+} from '../utils/config';
+import type { ConfigKey } from '../utils/config';
+
+/**
+ * Handles `config get <key>`
+ * Prints the effective value of a single setting
+ * @param key - Setting to read
+ * @param options - Command line options
+ */
+export function configGetCommand(key: string, options: any) {
+  const configKey = requireConfigKey(key);
+  const config = loadConfig(options.project);
+  const value = config.values[configKey];
+
+  if (value === undefined) {
+    process.exit(1);
+  }
+  console.log(value);
+}
+
+/**
+ * Handles `config set <key> <value>`
+ * Writes to the global config file, or the project file with --local (always for projectId)
+ * @param key - Setting to write
+ * @param value - New value
+ * @param options - Command line options
+ */
+export function configSetCommand(key: string, value: string, options: any) {
+  const configKey = requireConfigKey(key);
+  // A global project ID would make every project share one index
+  const local = options.local || PROJECT_ONLY_KEYS.includes(configKey);
+  const filePath = local ? getProjectConfigPath(options.project) : getGlobalConfigPath();
+
+  if (local && GLOBAL_ONLY_KEYS.includes(configKey)) {
+    console.error(`❌ ${configKey} cannot be set in ${PROJECT_CONFIG_FILE}, since a checked-in project file must not decide where your token is sent.`);
+    console.log(`   Set it globally instead: codeplanner config set ${configKey} <value>`);
+    process.exit(1);
+  }
+
+  setConfigValue(configKey, value, filePath);
+  console.log(`✅ Set ${configKey} in ${filePath}`);
+}
+
+/**
+ * Handles `config list`
+ * Prints every setting with its effective value and the layer it came from
+ * @param options - Command line options
+ */
+export function configListCommand(options: any) {
+  const config = loadConfig(options.project);
+
+  console.log(`🌐 Global config:  ${getGlobalConfigPath()}`);
+  console.log(`📁 Project config: ${getProjectConfigPath(options.project)}\n`);
+
+  for (const key of CONFIG_KEYS) {
+    const value = config.values[key];
+    const display = value === undefined ? '(unset)' : key === 'token' ? maskToken(String(value)) : value;
+    console.log(`${key.padEnd(12)} ${String(display).padEnd(40)} [${config.sources[key]}]`);
+  }
+}
+
+/**
+ * Validates a key given on the command line
+ * @param key - Key to check
+ * @returns The key as a ConfigKey
+ */
+function requireConfigKey(key: string): ConfigKey {
+  if (!isConfigKey(key)) {
+    console.error(`❌ Unknown config key "${key}". Valid keys: ${CONFIG_KEYS.join(', ')}`);
+    process.exit(1);
+  }
+  return key;
+}
+
+/**
+ * Masks all but the last characters of a token for display
+ * @param token - Raw token
+ * @returns Masked token
+ */
+function maskToken(token: string): string {
+  return token.length <= 4 ? '****' : `****${token.slice(-4)}`;
+}
@@ -0,0 +1,55 @@
+/**
+ * History command implementation for CodePlanner CLI
+ *
+ * This module handles the 'history list/show/rm' subcommands which browse
+ * the plans saved under .codeplanner/plans/ in the project.
+ */
+
+import { readFileSync } from 'fs';
+import { listPlanArtifacts, removePlanArtifact, resolvePlanArtifact } from '../utils/history';
+
+/**
+ * Handles `history list`
+ * Lists saved plans, newest first
+ * @param options - Command line options
+ */
+export function historyListCommand(options: any) {
+  const plans = listPlanArtifacts(options.project).slice(0, Number(options.limit));
+
+  if (plans.length === 0) {
+    console.log('📭 No saved plans yet. Plans are saved when `plan` or `analyze-error` completes.');
+    return;
+  }
+
+  console.log(`🗂️  Saved plans in ${options.project}:\n`);
+  for (const plan of plans) {
+    const icon = plan.command === 'analyze-error' ? '🐛' : '🧠';
+    const query = plan.query.split('\n')[0];
+    const createdAt = plan.createdAt ? new Date(plan.createdAt).toLocaleString() : '';
+    console.log(`${icon} ${plan.id}`);
+    console.log(`   ${query.length > 80 ? `${query.slice(0, 77)}...` : query}`);
+    console.log(`   ${createdAt}${plan.model ? ` · ${plan.model}` : ''}\n`);
+  }
+}
+
+/**
+ * Handles `history show <id>`
+ * Prints a saved plan
+ * @param id - Plan ID or unique ID prefix
+ * @param options - Command line options
+ */
+export function historyShowCommand(id: string, options: any) {
+  const filePath = resolvePlanArtifact(options.project, id);
+  process.stdout.write(readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Handles `history rm <id>`
+ * Deletes a saved plan
+ * @param id - Plan ID or unique ID prefix
+ * @param options - Command line options
+ */
+export function historyRmCommand(id: string, options: any) {
+  const filePath = removePlanArtifact(options.project, id);
+  console.log(`🗑️  Deleted ${filePath}`);
+}
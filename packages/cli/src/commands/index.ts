@@ -7,6 +7,7 @@
  */
 
 import { CodePlannerClient } from '../client/websocket';
+import { loadConfig } from '../utils/config';
 import type { PlanRequest } from '@codeplanner/shared';
 
 /**
@@ -16,22 +17,28 @@ import type { PlanRequest } from '@codeplanner/shared';
  */
 export async function indexCommand(options: any) {
   console.log('📚 Indexing codebase for semantic search...\n');
-  console.log(`📁 Project: ${options.project}\n`);
+  const config = loadConfig(options.project, { gatewayUrl: options.gateway });
+  const { projectId } = config.values;
+  console.log(`📁 Project: ${options.project} (${projectId})\n`);
   
   const client = new CodePlannerClient();
   
   try {
     // Connect to the WebSocket gateway
-    await client.connect();
+    await client.connect(config.values.gatewayUrl, config.values.token);
+    client.cancelOnInterrupt();
     
     // Prepare the indexing request
     const request: PlanRequest = {
       command: 'index',
-      userId: 'user1', // TODO: Get from config file
-      projectId: 'project1', // TODO: Get from config file
+      projectId,
       projectPath: options.project
     };
 
+    client.on('accepted', (msg: any) => {
+      console.log(`🆔 Job ID: ${msg.jobId}\n`);
+    });
+
     // Set up event handlers for progress updates
     client.on('stream', (msg: any) => {
       // Display progress updates during indexing
@@ -64,6 +71,7 @@ export async function indexCommand(options: any) {
     console.error('❌ Failed to connect to CodePlanner gateway:', error);
     console.log('\n🔧 Make sure the gateway is running:');
     console.log('   bun packages/gateway/src/server.ts');
+    console.log('   and that your API token is set (codeplanner config set token <token>)');
     process.exit(1);
   }
 }
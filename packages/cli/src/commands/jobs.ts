@@ -0,0 +1,119 @@
+/**
+ * Jobs command implementation for CodePlanner CLI
+ *
+ * This module handles the 'jobs list/show/cancel' subcommands which read
+ * job records from the gateway, so long-running jobs can be checked on
+ * (and stopped) from another terminal.
+ */
+
+import { GatewayHttpClient } from '../client/http';
+import { CodePlannerClient } from '../client/websocket';
+import { loadConfig } from '../utils/config';
+import { formatJobSummary, formatProgress } from '../utils/formatter';
+
+/**
+ * Handles `jobs list`
+ * Lists recent jobs of the current project (or all projects with --all)
+ * @param options - Command line options
+ */
+export async function jobsListCommand(options: any) {
+  const config = loadConfig(options.project, { gatewayUrl: options.gateway });
+  const client = new GatewayHttpClient(config.values.gatewayUrl, config.values.token);
+  const projectId = options.all ? undefined : config.values.projectId;
+
+  try {
+    const jobs = await client.listJobs(projectId, Number(options.limit));
+
+    console.log(`📋 Recent jobs${projectId ? ` for ${projectId}` : ''}:\n`);
+    if (jobs.length === 0) {
+      console.log('📭 No jobs found');
+      return;
+    }
+
+    for (const job of jobs) {
+      console.log(formatJobSummary(job, !projectId));
+    }
+  } catch (error) {
+    console.error('❌ Failed to list jobs:', (error as Error).message);
+    process.exit(1);
+  }
+}
+
+/**
+ * Handles `jobs show <id>`
+ * Prints a job's status, progress and result or error
+ * @param jobId - Job ID
+ * @param options - Command line options
+ */
+export async function jobsShowCommand(jobId: string, options: any) {
+  const config = loadConfig(options.project, { gatewayUrl: options.gateway });
+  const client = new GatewayHttpClient(config.values.gatewayUrl, config.values.token);
+
+  try {
+    const job = await client.getJob(jobId);
+
+    console.log(`🆔 Job:      ${job.jobId}`);
+    console.log(`⚙️  Command:  ${job.command}`);
+    console.log(`📁 Project:  ${job.projectId}`);
+    console.log(`📌 Status:   ${job.status}`);
+    console.log(`🕐 Queued:   ${new Date(job.createdAt).toLocaleString()}`);
+    if (job.startedAt) {
+      console.log(`▶️  Started:  ${new Date(job.startedAt).toLocaleString()}${job.workerId ? ` on ${job.workerId}` : ''}`);
+    }
+    if (job.finishedAt) {
+      console.log(`🏁 Finished: ${new Date(job.finishedAt).toLocaleString()}`);
+    }
+    if (job.progress && job.progress.total > 0 && job.status === 'running') {
+      const { current, total, message } = job.progress;
+      console.log(formatProgress(current, total, `📊 ${message}`).replace('\r', ''));
+    }
+    if (job.error) {
+      console.log(`\n❌ ${job.error}`);
+    }
+    if (job.result?.message) {
+      console.log(`\n📈 ${job.result.message}`);
+    }
+    if (job.output) {
+      console.log(`\n${job.output}`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to load job:', (error as Error).message);
+    process.exit(1);
+  }
+}
+
+/**
+ * Handles `jobs cancel <id>`
+ * Asks the gateway to stop a queued or running job
+ * @param jobId - Job ID
+ * @param options - Command line options
+ */
+export async function jobsCancelCommand(jobId: string, options: any) {
+  const config = loadConfig(options.project, { gatewayUrl: options.gateway });
+  const client = new CodePlannerClient();
+
+  try {
+    await client.connect(config.values.gatewayUrl, config.values.token);
+  } catch (error) {
+    console.error('❌ Failed to connect to CodePlanner gateway:', error);
+    process.exit(1);
+  }
+
+  client.on('cancel', (msg: any) => {
+    if (msg.data.status === 'cancelled') {
+      console.log(`✅ Job ${jobId} cancelled before it started`);
+    } else {
+      console.log(`🚫 Cancellation requested, job ${jobId} stops at its next checkpoint`);
+    }
+    client.close();
+    process.exit(0);
+  });
+
+  client.on('error', (msg: any) => {
+    console.error('❌ Failed to cancel job:', msg.data.message);
+    client.close();
+    process.exit(1);
+  });
+
+  client.cancel(jobId);
+}
@@ -0,0 +1,184 @@
+/**
+ * Interactive plan command implementation for CodePlanner CLI
+ *
+ * This module handles 'plan --interactive', a REPL that refines a plan
+ * through follow-ups. The conversation is kept by the worker under a
+ * session ID, so a session can be resumed later with --session.
+ */
+
+import { createInterface } from 'readline';
+import * as path from 'path';
+import { CodePlannerClient } from '../client/websocket';
+import { loadConfig } from '../utils/config';
+import { savePlanArtifact } from '../utils/history';
+import type { PlanRequest } from '@codeplanner/shared';
+
+/** Inputs that end the session */
+const EXIT_COMMANDS = ['/exit', '/quit', 'exit', 'quit'];
+
+/**
+ * Handles the plan command in interactive mode
+ * Generates a plan, then revises it with each follow-up until the user exits
+ * @param query - Initial query, or the first follow-up when resuming (optional)
+ * @param options - Command line options
+ */
+export async function planSessionCommand(query: string | undefined, options: any) {
+  const config = loadConfig(options.project, { gatewayUrl: options.gateway, format: options.format });
+  const { projectId, format } = config.values;
+
+  if (format === 'json') {
+    console.error('❌ Interactive sessions stream Markdown plans, --format json is not supported');
+    process.exit(1);
+  }
+
+  const resuming = Boolean(options.session);
+  const sessionId: string = options.session || crypto.randomUUID();
+
+  console.log(`💬 ${resuming ? 'Resuming' : 'Starting'} planning session ${sessionId}`);
+  console.log(`📁 Project: ${options.project} (${projectId})`);
+  console.log('   Ask for changes to refine the plan, /exit to finish (Ctrl+C stops a plan being generated)\n');
+
+  const client = new CodePlannerClient();
+  try {
+    await client.connect(config.values.gatewayUrl, config.values.token);
+  } catch (error) {
+    console.error('❌ Failed to connect to CodePlanner gateway:', error);
+    console.log('\n🔧 Make sure the gateway is running:');
+    console.log('   bun packages/gateway/src/server.ts');
+    console.log('   and that your API token is set (codeplanner config set token <token>)');
+    process.exit(1);
+  }
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const lines = rl[Symbol.asyncIterator]();
+  let generating = false;
+
+  // Ctrl+C stops the plan being generated, or ends the session at the prompt
+  rl.on('SIGINT', () => {
+    const jobId = client.getJobId();
+    if (generating && jobId) {
+      console.log(`\n🚫 Cancelling job ${jobId}...`);
+      client.cancel(jobId);
+    } else {
+      rl.close();
+    }
+  });
+
+  /**
+   * Prompts for the next input
+   * @param prompt - Prompt text
+   * @returns The entered line, or null when input ends
+   */
+  const ask = async (prompt: string): Promise<string | null> => {
+    process.stdout.write(prompt);
+    const next = await lines.next();
+    return next.done ? null : next.value.trim();
+  };
+
+  let input: string | null = query?.trim() || await ask(resuming ? '❓ Follow-up › ' : '❓ What do you want to plan? › ');
+  let first = true;
+
+  while (input !== null) {
+    if (EXIT_COMMANDS.includes(input.toLowerCase())) {
+      break;
+    }
+    if (input) {
+      generating = true;
+      const turn = await runTurn(client, {
+        command: 'plan',
+        projectId,
+        projectPath: options.project,
+        query: input,
+        format: 'text',
+        sessionId
+      });
+      generating = false;
+
+      if (turn && first && resuming && turn.turn === 1) {
+        console.log(`⚠️  Session ${sessionId} was not found (it may have expired), started a new session`);
+      }
+      if (turn) {
+        first = false;
+        if (options.save !== false) {
+          saveTurn(options.project, sessionId, input, projectId, turn);
+        }
+      }
+    }
+    input = await ask('\n❓ Follow-up › ');
+  }
+
+  rl.close();
+  client.close();
+  if (!first || resuming) {
+    console.log(`\n👋 Resume this session with: codeplanner plan --interactive --session ${sessionId}`);
+  }
+  process.exit(0);
+}
+
+/**
+ * Sends one session turn and streams the plan
+ * @param client - Connected gateway client
+ * @param request - Plan request for this turn
+ * @returns The completion data (with the streamed plan), or null if the turn failed
+ */
+function runTurn(client: CodePlannerClient, request: PlanRequest): Promise<any | null> {
+  return new Promise((resolve) => {
+    let output = '';
+
+    client.on('accepted', (msg: any) => {
+      console.log(`🆔 Job ID: ${msg.jobId}\n`);
+    });
+
+    client.on('stream', (msg: any) => {
+      const chunk = typeof msg.data.chunk === 'string' ? msg.data.chunk : JSON.stringify(msg.data.chunk);
+      output += chunk;
+      process.stdout.write(chunk);
+    });
+
+    client.on('cancel', () => {
+      // The job reports back with an error once it has stopped
+    });
+
+    client.on('response', (msg: any) => {
+      console.log(`\n\n✅ Plan revision ${msg.data.turn} generated`);
+      resolve({ ...msg.data, jobId: msg.jobId, content: output });
+    });
+
+    client.on('error', (msg: any) => {
+      if (msg.data.cancelled) {
+        console.log('\n🚫 Plan generation cancelled, the session keeps the previous plan');
+      } else {
+        console.error('\n❌ Error generating plan:', msg.data.message);
+      }
+      resolve(null);
+    });
+
+    client.send(request);
+  });
+}
+
+/**
+ * Saves a session turn to the plan history
+ * @param projectPath - Path to the project directory
+ * @param sessionId - Session ID
+ * @param query - Query or follow-up of the turn
+ * @param projectId - Project ID
+ * @param turn - Completion data with the streamed plan
+ */
+function saveTurn(projectPath: string, sessionId: string, query: string, projectId: string, turn: any): void {
+  try {
+    const filePath = savePlanArtifact(projectPath, {
+      command: 'plan',
+      query,
+      jobId: turn.jobId,
+      projectId,
+      sessionId,
+      model: turn.model,
+      context: turn.context,
+      content: turn.content
+    });
+    console.log(`💾 Saved to ${path.relative(process.cwd(), filePath)}`);
+  } catch (error) {
+    console.error('⚠️  Failed to save plan:', (error as Error).message);
+  }
+}
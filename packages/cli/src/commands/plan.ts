@@ -5,7 +5,11 @@
  * plans based on user queries and the indexed codebase.
  */
 
+import * as path from 'path';
 import { CodePlannerClient } from '../client/websocket';
+import { loadConfig } from '../utils/config';
+import { savePlanArtifact } from '../utils/history';
+import { planSessionCommand } from './plan-session';
 import type { PlanRequest } from '@codeplanner/shared';
 
 /**
@@ -14,36 +18,87 @@ import type { PlanRequest } from '@codeplanner/shared';
  * @param query - User's planning query
  * @param options - Command line options
  */
-export async function planCommand(query: string, options: any) {
-  console.log('🧠 Generating implementation plan...\n');
-  console.log(`📝 Query: ${query}`);
-  console.log(`📁 Project: ${options.project}\n`);
+export async function planCommand(query: string | undefined, options: any) {
+  if (options.interactive || options.session) {
+    return planSessionCommand(query, options);
+  }
+  if (!query) {
+    console.error('❌ A query is required (or use --interactive)');
+    process.exit(1);
+  }
+  
+  const config = loadConfig(options.project, { gatewayUrl: options.gateway, format: options.format });
+  const { projectId, format } = config.values;
+  const json = format === 'json';
   
-  const client = new CodePlannerClient();
+  // In JSON mode stdout carries only the plan, so status messages go to stderr
+  const status = json ? console.error : console.log;
+  status('🧠 Generating implementation plan...\n');
+  status(`📝 Query: ${query}`);
+  status(`📁 Project: ${options.project} (${projectId})\n`);
+  
+  const client = new CodePlannerClient({ quiet: json });
+  // Streamed plan text, saved once the plan is complete
+  let output = '';
   
   try {
     // Connect to the WebSocket gateway
-    await client.connect();
+    await client.connect(config.values.gatewayUrl, config.values.token);
+    client.cancelOnInterrupt();
     
     // Prepare the plan request
     const request: PlanRequest = {
       command: 'plan',
-      userId: 'user1', // TODO: Get from config file
-      projectId: 'project1', // TODO: Get from config file
+      projectId,
       projectPath: options.project,
-      query
+      query,
+      format
     };
 
+    client.on('accepted', (msg: any) => {
+      status(`🆔 Job ID: ${msg.jobId}\n`);
+    });
+
     // Set up event handlers for streaming responses
     client.on('stream', (msg: any) => {
       // Stream the plan content as it's generated
-      process.stdout.write(
-        typeof msg.data.chunk === 'string' ? msg.data.chunk : JSON.stringify(msg.data.chunk)
-      );
+      const chunk = typeof msg.data.chunk === 'string' ? msg.data.chunk : JSON.stringify(msg.data.chunk);
+      output += chunk;
+      process.stdout.write(chunk);
     });
 
     client.on('response', (msg: any) => {
+      const save = () => {
+        if (options.save === false) {
+          return;
+        }
+        try {
+          const filePath = savePlanArtifact(options.project, {
+            command: 'plan',
+            query,
+            jobId: msg.jobId,
+            projectId,
+            model: msg.data.model,
+            context: msg.data.context,
+            content: output,
+            plan: msg.data.plan
+          });
+          status(`💾 Saved to ${path.relative(process.cwd(), filePath)}`);
+        } catch (error) {
+          console.error('⚠️  Failed to save plan:', (error as Error).message);
+        }
+      };
+
+      if (json) {
+        console.log(JSON.stringify(msg.data.plan, null, 2));
+        status('\n✅ Implementation plan generated successfully!');
+        save();
+        client.close();
+        return;
+      }
+      
       console.log('\n\n✅ Implementation plan generated successfully!');
+      save();
       console.log('\n💡 You can now use this plan to implement your feature.');
       client.close();
     });
@@ -51,6 +106,7 @@ export async function planCommand(query: string, options: any) {
     client.on('error', (msg: any) => {
       console.error('\n❌ Error generating plan:', msg.data.message);
       client.close();
+      process.exitCode = 1;
     });
 
     // Send the plan request
@@ -60,6 +116,7 @@ export async function planCommand(query: string, options: any) {
     console.error('❌ Failed to connect to CodePlanner gateway:', error);
     console.log('\n🔧 Make sure the gateway is running:');
     console.log('   bun packages/gateway/src/server.ts');
+    console.log('   and that your API token is set (codeplanner config set token <token>)');
     process.exit(1);
   }
 }
@@ -0,0 +1,159 @@
+/**
+ * Watch command implementation for CodePlanner CLI
+ *
+ * This module handles the 'watch' command which watches the project
+ * directory and streams debounced batches of changed files to the
+ * engine, keeping the semantic index up to date as files are saved.
+ */
+
+import { existsSync, statSync, watch } from 'fs';
+import * as path from 'path';
+import { CodePlannerClient } from '../client/websocket';
+import { loadConfig } from '../utils/config';
+import type { PlanRequest } from '@codeplanner/shared';
+
+/** File extensions the engine indexes */
+const WATCHED_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+
+/** Directories whose changes never affect the index */
+const IGNORED_DIRECTORIES = ['node_modules', '.git', 'dist', 'build', '.codeplanner'];
+
+/**
+ * Handles the watch command execution
+ * Connects to the gateway and sends an update request for every batch of file changes
+ * @param options - Command line options
+ */
+export async function watchCommand(options: any) {
+  const projectRoot = path.resolve(options.project);
+  const debounceMs = Number(options.debounce);
+
+  console.log('👀 Watching codebase for changes...\n');
+  const config = loadConfig(options.project, { gatewayUrl: options.gateway });
+  const { projectId } = config.values;
+  console.log(`📁 Project: ${options.project} (${projectId})`);
+  console.log(`⏱️  Debounce: ${debounceMs}ms\n`);
+
+  const client = new CodePlannerClient();
+  const pendingFiles = new Set<string>();
+  let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  let updateInFlight = false;
+
+  /**
+   * Sends the pending batch of changed files, unless an update is already running
+   * While disconnected the files stay pending until the client has reconnected
+   */
+  const flush = () => {
+    debounceTimer = null;
+    if (updateInFlight || pendingFiles.size === 0) {
+      return;
+    }
+
+    const files = [...pendingFiles];
+    pendingFiles.clear();
+    updateInFlight = true;
+
+    console.log(`🔄 Sending ${files.length} changed file${files.length === 1 ? '' : 's'}:`);
+    for (const file of files) {
+      console.log(`   • ${file}`);
+    }
+
+    const request: PlanRequest = {
+      command: 'update',
+      projectId,
+      projectPath: options.project,
+      files
+    };
+    if (!client.send(request)) {
+      for (const file of files) {
+        pendingFiles.add(file);
+      }
+      updateInFlight = false;
+      console.log('⏳ Keeping the changes until the gateway is reachable again\n');
+    }
+  };
+
+  try {
+    // Connect to the WebSocket gateway
+    await client.connect(config.values.gatewayUrl, config.values.token);
+
+    // Set up event handlers for progress and completion
+    client.on('stream', (msg: any) => {
+      if (msg.data.progress) {
+        const { current, total, message } = msg.data.progress;
+        process.stdout.write(`\r📊 ${message}: ${current}/${total} chunks processed`);
+      }
+    });
+
+    client.on('response', (msg: any) => {
+      console.log(`\n✅ ${msg.data?.message || 'Index updated'}\n`);
+      updateInFlight = false;
+      flush();
+    });
+
+    client.on('error', (msg: any) => {
+      console.error('\n❌ Error updating index:', msg.data.message);
+      updateInFlight = false;
+      flush();
+    });
+
+    client.on('reconnected', flush);
+
+    // Watch the project directory recursively
+    const watcher = watch(projectRoot, { recursive: true }, (_event, filename) => {
+      if (!filename) {
+        return;
+      }
+
+      const relativePath = filename.toString();
+      const segments = relativePath.split(path.sep);
+      if (segments.some(segment => IGNORED_DIRECTORIES.includes(segment))) {
+        return;
+      }
+      if (!WATCHED_EXTENSIONS.some(ext => relativePath.endsWith(ext)) && !isDirectoryEvent(projectRoot, relativePath)) {
+        return;
+      }
+
+      pendingFiles.add(relativePath);
+      if (debounceTimer) {
+        clearTimeout(debounceTimer);
+      }
+      debounceTimer = setTimeout(flush, debounceMs);
+    });
+
+    console.log('💡 Press Ctrl+C to stop watching.\n');
+
+    process.on('SIGINT', () => {
+      watcher.close();
+      client.close();
+      process.exit(0);
+    });
+
+  } catch (error) {
+    console.error('❌ Failed to connect to CodePlanner gateway:', error);
+    console.log('\n🔧 Make sure the gateway is running:');
+    console.log('   bun packages/gateway/src/server.ts');
+    console.log('   and that your API token is set (codeplanner config set token <token>)');
+    process.exit(1);
+  }
+}
+
+/**
+ * Checks whether a watch event is about a directory
+ * Removing or renaming a directory produces one event for the directory, not for the
+ * files in it, so the engine needs the directory path to update those files
+ * @param projectRoot - Absolute project path
+ * @param relativePath - Path reported by the watcher
+ * @returns true for existing directories and removed paths without a file extension
+ */
+function isDirectoryEvent(projectRoot: string, relativePath: string): boolean {
+  const absolutePath = path.join(projectRoot, relativePath);
+  if (!existsSync(absolutePath)) {
+    return path.extname(relativePath) === '';
+  }
+
+  try {
+    return statSync(absolutePath).isDirectory();
+  } catch {
+    return false;
+  }
+}
@@ -9,7 +9,23 @@
  */
 
 import { Command } from 'commander';
-import { planCommand, analyzeErrorCommand, indexCommand } from './commands/command-index';
+import {
+  planCommand,
+  analyzeErrorCommand,
+  indexCommand,
+  watchCommand,
+  configGetCommand,
+  configSetCommand,
+  configListCommand,
+  jobsListCommand,
+  jobsShowCommand,
+  jobsCancelCommand,
+  applyCommand,
+  historyListCommand,
+  historyShowCommand,
+  historyRmCommand
+} from './commands/command-index';
+import { formatError } from './utils/formatter';
 
 // Create the main CLI program
 const program = new Command();
@@ -24,8 +40,13 @@ program
 program
   .command('plan')
   .description('Generate a detailed implementation plan for your query')
-  .argument('<query>', 'Your planning query (e.g., "Add user authentication")')
+  .argument('[query]', 'Your planning query (e.g., "Add user authentication")')
+  .option('-i, --interactive', 'Refine the plan with follow-ups in an interactive session')
+  .option('-s, --session <id>', 'Resume an interactive session (implies --interactive)')
+  .option('-f, --format <format>', 'Output format: text or json (default from config)')
   .option('-p, --project <path>', 'Path to your project directory', './')
+  .option('-g, --gateway <url>', 'Gateway WebSocket URL (overrides config)')
+  .option('--no-save', 'Do not save the plan to .codeplanner/plans')
   .action(planCommand);
 
 // Analyze error command - analyzes errors and provides debugging steps
@@ -33,8 +54,11 @@ program
   .command('analyze-error')
   .description('Analyze an error and generate debugging steps')
   .option('-e, --error <input>', 'Error input text (if not provided, will read from stdin)')
-  .option('-t, --type <type>', 'Type of error (compiler, runtime, linter)', 'runtime')
+  .option('-t, --type <type>', 'Type of error (auto, compiler, runtime, linter; default from config, auto detects it)')
+  .option('-f, --format <format>', 'Output format: text or json (default from config)')
   .option('-p, --project <path>', 'Path to your project directory', './')
+  .option('-g, --gateway <url>', 'Gateway WebSocket URL (overrides config)')
+  .option('--no-save', 'Do not save the debugging plan to .codeplanner/plans')
   .action(analyzeErrorCommand);
 
 // Index command - indexes the codebase for semantic search
@@ -42,10 +66,117 @@ program
   .command('index')
   .description('Index your codebase for semantic search and planning')
   .option('-p, --project <path>', 'Path to your project directory', './')
+  .option('-g, --gateway <url>', 'Gateway WebSocket URL (overrides config)')
   .action(indexCommand);
 
+// Watch command - keeps the index up to date as files change
+program
+  .command('watch')
+  .description('Watch your codebase and re-index changed files continuously')
+  .option('-p, --project <path>', 'Path to your project directory', './')
+  .option('-d, --debounce <ms>', 'Milliseconds to wait for more changes before sending a batch', '500')
+  .option('-g, --gateway <url>', 'Gateway WebSocket URL (overrides config)')
+  .action(watchCommand);
+
+// Apply command - applies the code changes of a structured plan
+program
+  .command('apply')
+  .description('Apply the code changes of a plan generated with --format json')
+  .argument('<plan>', 'Path to a JSON plan or a saved plan (.md)')
+  .option('-p, --project <path>', 'Path to your project directory', './')
+  .option('--dry-run', 'Write a .patch file instead of changing files')
+  .option('-o, --output <file>', 'Patch file for --dry-run (default: next to the plan)')
+  .option('-y, --yes', 'Apply without asking for confirmation')
+  .action(applyCommand);
+
+// Config command - reads and writes layered CLI settings
+const config = program
+  .command('config')
+  .description('Read and write CLI settings (gatewayUrl, token, projectId, errorType, format)');
+
+config
+  .command('get')
+  .description('Print the effective value of a setting')
+  .argument('<key>', 'Setting name')
+  .option('-p, --project <path>', 'Path to your project directory', './')
+  .action(configGetCommand);
+
+config
+  .command('set')
+  .description('Write a setting to the global config (or the project config with --local)')
+  .argument('<key>', 'Setting name')
+  .argument('<value>', 'New value')
+  .option('-l, --local', 'Write to the project .codeplanner.json instead of the global config')
+  .option('-p, --project <path>', 'Path to your project directory', './')
+  .action(configSetCommand);
+
+config
+  .command('list')
+  .description('List all settings with their effective values and sources')
+  .option('-p, --project <path>', 'Path to your project directory', './')
+  .action(configListCommand);
+
+// Jobs command - inspects queued, running and finished jobs
+const jobs = program
+  .command('jobs')
+  .description('Check on queued, running and finished jobs');
+
+jobs
+  .command('list')
+  .description('List recent jobs for the current project')
+  .option('-a, --all', 'List jobs of all your projects')
+  .option('-n, --limit <count>', 'Maximum number of jobs to show', '20')
+  .option('-p, --project <path>', 'Path to your project directory', './')
+  .option('-g, --gateway <url>', 'Gateway WebSocket URL (overrides config)')
+  .action(jobsListCommand);
+
+jobs
+  .command('show')
+  .description('Show status, progress and result of a job')
+  .argument('<id>', 'Job ID')
+  .option('-p, --project <path>', 'Path to your project directory', './')
+  .option('-g, --gateway <url>', 'Gateway WebSocket URL (overrides config)')
+  .action(jobsShowCommand);
+
+jobs
+  .command('cancel')
+  .description('Cancel a queued or running job')
+  .argument('<id>', 'Job ID')
+  .option('-p, --project <path>', 'Path to your project directory', './')
+  .option('-g, --gateway <url>', 'Gateway WebSocket URL (overrides config)')
+  .action(jobsCancelCommand);
+
+// History command - browses plans saved in the project
+const history = program
+  .command('history')
+  .description('Browse plans saved in .codeplanner/plans');
+
+history
+  .command('list')
+  .description('List saved plans, newest first')
+  .option('-n, --limit <count>', 'Maximum number of plans to show', '20')
+  .option('-p, --project <path>', 'Path to your project directory', './')
+  .action(historyListCommand);
+
+history
+  .command('show')
+  .description('Print a saved plan')
+  .argument('<id>', 'Plan ID (or a unique prefix)')
+  .option('-p, --project <path>', 'Path to your project directory', './')
+  .action(historyShowCommand);
+
+history
+  .command('rm')
+  .description('Delete a saved plan')
+  .argument('<id>', 'Plan ID (or a unique prefix)')
+  .option('-p, --project <path>', 'Path to your project directory', './')
+  .action(historyRmCommand);
+
 // Parse command line arguments and execute the appropriate command
-program.parse();
+program.parseAsync().catch((error) => {
+  console.error(formatError(error));
+  process.exit(1);
+});
 
 // Handle cases where no command is provided
 if (!process.argv.slice(2).length) {
@@ -0,0 +1,247 @@
+/**
+ * Configuration loading for CodePlanner CLI
+ *
+ * Settings are resolved from several layers, later layers winning:
+ * built-in defaults, the global ~/.config/codeplanner/config.json,
+ * the per-project .codeplanner.json, environment variables and
+ * finally command line flags.
+ *
+ * The project file is checked into repositories that may not be trusted, so it
+ * cannot choose where the user's token is sent: gatewayUrl and token are only
+ * read from the global file, the environment and flags. Conversely projectId is
+ * never read from the global file, where every project would share it.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { deriveProjectId } from './project';
+
+/** Name of the per-project configuration file */
+export const PROJECT_CONFIG_FILE = '.codeplanner.json';
+
+/**
+ * Settings understood by the CLI
+ */
+export interface CodePlannerConfig {
+  /** WebSocket URL of the CodePlanner gateway */
+  gatewayUrl: string;
+  /** API token sent to the gateway */
+  token?: string;
+  /** Project identifier used to namespace the index */
+  projectId?: string;
+  /** Default error type for analyze-error ('auto' detects it from the input) */
+  errorType: 'auto' | 'compiler' | 'runtime' | 'linter';
+  /** Output format for plans and debugging plans */
+  format: 'text' | 'json';
+}
+
+export type ConfigKey = keyof CodePlannerConfig;
+
+/** Settings as read from one layer, before validation narrows enumerated values */
+type ConfigLayer = Partial<Record<ConfigKey, string>>;
+
+/** Layer a resolved setting came from */
+export type ConfigSource = 'default' | 'global' | 'project' | 'env' | 'flag' | 'derived';
+
+/**
+ * Fully resolved configuration with the origin of every value
+ */
+export interface ResolvedConfig {
+  /** Effective settings */
+  values: CodePlannerConfig & { projectId: string };
+  /** Layer each setting was taken from */
+  sources: Record<ConfigKey, ConfigSource>;
+}
+
+/** All configuration keys, in display order */
+export const CONFIG_KEYS: ConfigKey[] = ['gatewayUrl', 'token', 'projectId', 'errorType', 'format'];
+
+/** Keys the project file may not set, since they decide where the token goes */
+export const GLOBAL_ONLY_KEYS: ConfigKey[] = ['gatewayUrl', 'token'];
+
+/** Keys the global file may not set, since each project needs its own value */
+export const PROJECT_ONLY_KEYS: ConfigKey[] = ['projectId'];
+
+const DEFAULTS: CodePlannerConfig = {
+  gatewayUrl: 'ws://localhost:3000',
+  errorType: 'auto',
+  format: 'text'
+};
+
+/** Environment variables for each key, in priority order */
+const ENV_VARS: Record<ConfigKey, string[]> = {
+  gatewayUrl: ['CODEPLANNER_GATEWAY_URL', 'WS_ENDPOINT'],
+  token: ['CODEPLANNER_TOKEN'],
+  projectId: ['CODEPLANNER_PROJECT_ID'],
+  errorType: ['CODEPLANNER_ERROR_TYPE'],
+  format: ['CODEPLANNER_FORMAT']
+};
+
+/** Allowed values for enumerated keys */
+const ALLOWED_VALUES: Partial<Record<ConfigKey, string[]>> = {
+  errorType: ['auto', 'compiler', 'runtime', 'linter'],
+  format: ['text', 'json']
+};
+
+/**
+ * Gets the path of the global configuration file
+ * @returns Absolute path honoring XDG_CONFIG_HOME
+ */
+export function getGlobalConfigPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'codeplanner', 'config.json');
+}
+
+/**
+ * Gets the path of the per-project configuration file
+ * @param projectPath - Path to the project directory
+ * @returns Absolute path of .codeplanner.json
+ */
+export function getProjectConfigPath(projectPath: string): string {
+  return path.join(path.resolve(projectPath), PROJECT_CONFIG_FILE);
+}
+
+/**
+ * Resolves the effective configuration for a project
+ * @param projectPath - Path to the project directory
+ * @param flags - Settings given as command line flags (undefined entries are ignored)
+ * @returns Resolved configuration with sources
+ */
+export function loadConfig(projectPath: string, flags: Partial<CodePlannerConfig> = {}): ResolvedConfig {
+  const values: ConfigLayer = { ...DEFAULTS };
+  const sources = {} as Record<ConfigKey, ConfigSource>;
+  for (const key of CONFIG_KEYS) {
+    sources[key] = 'default';
+  }
+
+  const layers: Array<[ConfigSource, ConfigLayer]> = [
+    ['global', readConfigFile(getGlobalConfigPath())],
+    ['project', readConfigFile(getProjectConfigPath(projectPath))],
+    ['env', readEnvConfig()],
+    ['flag', flags]
+  ];
+
+  for (const [source, layer] of layers) {
+    for (const key of CONFIG_KEYS) {
+      const value = layer[key];
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+      if (source === 'project' && GLOBAL_ONLY_KEYS.includes(key)) {
+        console.warn(`⚠️  Ignoring ${key} from ${PROJECT_CONFIG_FILE}; set it globally, in the environment or with a flag`);
+        continue;
+      }
+      if (source === 'global' && PROJECT_ONLY_KEYS.includes(key)) {
+        console.warn(`⚠️  Ignoring ${key} from ${getGlobalConfigPath()}; set it in ${PROJECT_CONFIG_FILE} or the environment`);
+        continue;
+      }
+      validateConfigValue(key, String(value), source);
+      values[key] = String(value);
+      sources[key] = source;
+    }
+  }
+
+  // Projects without an explicit ID get one derived from git or their path
+  if (!values.projectId) {
+    values.projectId = deriveProjectId(projectPath);
+    sources.projectId = 'derived';
+  }
+
+  return { values: values as ResolvedConfig['values'], sources };
+}
+
+/**
+ * Writes a single setting to the global or project configuration file
+ * @param key - Setting to write
+ * @param value - New value
+ * @param filePath - Configuration file to update
+ */
+export function setConfigValue(key: ConfigKey, value: string, filePath: string): void {
+  validateConfigValue(key, value, filePath);
+
+  const config = readConfigFile(filePath);
+  config[key] = value;
+
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileSync(filePath, JSON.stringify(config, null, 2) + '\n', {
+    // The global file may hold an API token
+    mode: 0o600
+  });
+}
+
+/**
+ * Checks whether a string is a known configuration key
+ * @param key - Key to check
+ * @returns true if the key is supported
+ */
+export function isConfigKey(key: string): key is ConfigKey {
+  return (CONFIG_KEYS as string[]).includes(key);
+}
+
+/**
+ * Validates a configuration value, throwing a descriptive error if invalid
+ * @param key - Setting being validated
+ * @param value - Value to validate
+ * @param origin - Where the value came from (used in the error message)
+ */
+function validateConfigValue(key: ConfigKey, value: string, origin: string): void {
+  const allowed = ALLOWED_VALUES[key];
+  if (allowed && !allowed.includes(value)) {
+    throw new Error(`Invalid ${key} "${value}" (from ${origin}). Expected one of: ${allowed.join(', ')}`);
+  }
+
+  if (key === 'gatewayUrl' && !/^wss?:\/\//.test(value)) {
+    throw new Error(`Invalid gatewayUrl "${value}" (from ${origin}). Expected a ws:// or wss:// URL`);
+  }
+}
+
+/**
+ * Reads a JSON configuration file
+ * @param filePath - File to read
+ * @returns Parsed configuration, or an empty object if missing
+ * @throws If the file is not valid JSON or does not hold an object
+ */
+function readConfigFile(filePath: string): ConfigLayer {
+  if (!existsSync(filePath)) {
+    return {};
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid config file ${filePath}: ${(error as Error).message}`);
+  }
+
+  if (!isPlainObject(config)) {
+    throw new Error(`Invalid config file ${filePath}: expected a JSON object of settings`);
+  }
+  return config;
+}
+
+/**
+ * Checks whether a parsed JSON value is an object (not null, an array or a primitive)
+ * @param value - Value to check
+ * @returns true for plain objects
+ */
+function isPlainObject(value: unknown): value is ConfigLayer {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads settings from environment variables
+ * @returns Settings that have an environment variable set
+ */
+function readEnvConfig(): ConfigLayer {
+  const config: ConfigLayer = {};
+
+  for (const key of CONFIG_KEYS) {
+    const envVar = ENV_VARS[key].find(name => process.env[name]);
+    if (envVar) {
+      config[key] = process.env[envVar];
+    }
+  }
+
+  return config;
+}
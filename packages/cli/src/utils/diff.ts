@@ -0,0 +1,204 @@
+/**
+ * Unified diff utilities for CodePlanner CLI
+ *
+ * This module produces git-style unified diffs between two versions of a
+ * file, used to preview and export the code changes of a plan.
+ */
+
+/** Appended to a final line without newline, so it differs from the same line with one */
+const NO_NEWLINE = '\n';
+
+/**
+ * A single line of a line-based edit script
+ */
+interface DiffLine {
+  /** ' ' for unchanged, '-' for removed, '+' for added lines */
+  op: ' ' | '-' | '+';
+  /** Line content without the trailing newline (ends with NO_NEWLINE for a final line without one) */
+  text: string;
+}
+
+/**
+ * Creates a unified diff between two versions of a file
+ * @param oldText - Original file content ('' for new files)
+ * @param newText - Updated file content
+ * @param filePath - Project-relative path used in the diff headers
+ * @param contextLines - Number of unchanged lines shown around each change
+ * @returns Unified diff, or an empty string if the contents are equal
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  filePath: string,
+  contextLines: number = 3
+): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const isNewFile = oldText === '';
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const header = [
+    `diff --git a/${filePath} b/${filePath}`,
+    ...(isNewFile ? ['new file mode 100644'] : []),
+    `--- ${isNewFile ? '/dev/null' : `a/${filePath}`}`,
+    `+++ b/${filePath}`
+  ];
+
+  return [...header, ...buildHunks(lines, contextLines)].join('\n') + '\n';
+}
+
+/**
+ * Splits file content into lines, ignoring the final newline
+ * A final line without newline is marked with NO_NEWLINE
+ * @param text - File content
+ * @returns Lines without newline characters
+ */
+function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += NO_NEWLINE;
+  }
+  return lines;
+}
+
+/**
+ * Computes a line-based edit script using the longest common subsequence
+ * The common prefix and suffix are stripped first to keep the table small
+ * @param oldLines - Original lines
+ * @param newLines - Updated lines
+ * @returns Edit script covering both inputs
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = oldLines.slice(0, prefix).map(text => ({ op: ' ', text }));
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ op: ' ', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ op: '-', text: a[i++] });
+    } else {
+      result.push({ op: '+', text: b[j++] });
+    }
+  }
+  while (i < a.length) {
+    result.push({ op: '-', text: a[i++] });
+  }
+  while (j < b.length) {
+    result.push({ op: '+', text: b[j++] });
+  }
+
+  return result.concat(oldLines.slice(oldLines.length - suffix).map(text => ({ op: ' ' as const, text })));
+}
+
+/**
+ * Groups an edit script into unified diff hunks
+ * @param lines - Edit script
+ * @param contextLines - Number of unchanged lines shown around each change
+ * @returns Hunk lines including @@ headers
+ */
+function buildHunks(lines: DiffLine[], contextLines: number): string[] {
+  const output: string[] = [];
+  let index = 0;
+
+  // Line numbers (1-based) of lines[index] in the old and new file
+  let oldLine = 1;
+  let newLine = 1;
+
+  while (index < lines.length) {
+    // Skip to the next change
+    const changeAt = lines.findIndex((line, i) => i >= index && line.op !== ' ');
+    if (changeAt === -1) {
+      break;
+    }
+    for (; index < changeAt; index++) {
+      oldLine++;
+      newLine++;
+    }
+
+    // Start the hunk with leading context
+    const leading = Math.min(contextLines, changeAt);
+    const start = changeAt - leading;
+    const hunkOldStart = oldLine - leading;
+    const hunkNewStart = newLine - leading;
+
+    // Extend the hunk while changes are closer than twice the context
+    let end = changeAt;
+    let unchangedRun = 0;
+    while (end < lines.length) {
+      if (lines[end].op === ' ') {
+        unchangedRun++;
+        if (unchangedRun > contextLines * 2) {
+          end++;
+          break;
+        }
+      } else {
+        unchangedRun = 0;
+      }
+      end++;
+    }
+    // Keep only the trailing context after the last change
+    const trailing = Math.min(unchangedRun, contextLines);
+    end = end - unchangedRun + trailing;
+
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter(line => line.op !== '+').length;
+    const newCount = hunk.filter(line => line.op !== '-').length;
+    output.push(
+      `@@ -${oldCount === 0 ? hunkOldStart - 1 : hunkOldStart},${oldCount} ` +
+      `+${newCount === 0 ? hunkNewStart - 1 : hunkNewStart},${newCount} @@`
+    );
+    for (const line of hunk) {
+      if (line.text.endsWith(NO_NEWLINE)) {
+        output.push(`${line.op}${line.text.slice(0, -NO_NEWLINE.length)}`, '\\ No newline at end of file');
+      } else {
+        output.push(`${line.op}${line.text}`);
+      }
+    }
+
+    // Advance line counters to the end of the hunk
+    for (; index < end; index++) {
+      if (lines[index].op !== '+') {
+        oldLine++;
+      }
+      if (lines[index].op !== '-') {
+        newLine++;
+      }
+    }
+  }
+
+  return output;
+}
@@ -5,6 +5,8 @@
  * plans, errors, and other output in a user-friendly format.
  */
 
+import type { JobRecord } from '@codeplanner/shared';
+
 /**
  * Formats a plan step for display in the terminal
  * @param step - The plan step to format
@@ -102,3 +104,67 @@ export function formatFilePath(filePath: string, maxLength: number = 50): string
   const end = filePath.substring(filePath.length - 27);
   return `${start}...${end}`;
 }
+
+/** Status icons used when listing jobs */
+const JOB_STATUS_ICONS: Record<string, string> = {
+  queued: '⏳',
+  running: '🔄',
+  completed: '✅',
+  failed: '❌',
+  cancelled: '🚫'
+};
+
+/**
+ * Formats a one-line job summary for job listings
+ * @param job - Job record to format
+ * @param includeProject - Whether to show the project ID
+ * @returns Formatted summary line
+ */
+export function formatJobSummary(job: JobRecord, includeProject: boolean = false): string {
+  const icon = JOB_STATUS_ICONS[job.status] || '•';
+  const progress = job.status === 'running' && job.progress ? ` ${job.progress.percentage}%` : '';
+  const project = includeProject ? `  ${job.projectId}` : '';
+  const queuedAt = new Date(job.createdAt).toLocaleString();
+
+  return `${icon} ${job.jobId}  ${job.command.padEnd(13)} ${(job.status + progress).padEnd(14)} ${queuedAt}${project}`;
+}
+
+/** ANSI escape codes used for diff output */
+const ANSI = {
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  cyan: '\x1b[36m',
+  bold: '\x1b[1m',
+  reset: '\x1b[0m'
+};
+
+/**
+ * Colors a unified diff for terminal display
+ * Colors are left out when stdout is not a terminal
+ * @param diff - Unified diff text
+ * @returns Colored diff
+ */
+export function formatDiff(diff: string): string {
+  if (!process.stdout.isTTY) {
+    return diff;
+  }
+
+  return diff
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('diff ') || line.startsWith('--- ') || line.startsWith('+++ ') || line.startsWith('new file')) {
+        return `${ANSI.bold}${line}${ANSI.reset}`;
+      }
+      if (line.startsWith('@@')) {
+        return `${ANSI.cyan}${line}${ANSI.reset}`;
+      }
+      if (line.startsWith('+')) {
+        return `${ANSI.green}${line}${ANSI.reset}`;
+      }
+      if (line.startsWith('-')) {
+        return `${ANSI.red}${line}${ANSI.reset}`;
+      }
+      return line;
+    })
+    .join('\n');
+}
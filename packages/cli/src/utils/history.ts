@@ -0,0 +1,305 @@
+/**
+ * Plan history for CodePlanner CLI
+ *
+ * Generated plans and debugging plans are saved as Markdown files under
+ * .codeplanner/plans/ in the project, with YAML front-matter recording
+ * the query, model, context chunks and job ID. Structured plans also
+ * embed their JSON, so saved plans can be fed to `apply`.
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import type { ContextReference } from '@codeplanner/shared';
+
+/** Directory (relative to the project) that holds saved plans */
+export const PLANS_DIRECTORY = path.join('.codeplanner', 'plans');
+
+/**
+ * A generated plan to be saved
+ */
+export interface PlanArtifact {
+  /** Command that produced the plan */
+  command: 'plan' | 'analyze-error';
+  /** Planning query, or the analyzed error */
+  query: string;
+  /** Job that generated the plan */
+  jobId: string;
+  /** Project the plan belongs to */
+  projectId: string;
+  /** Interactive session the plan was generated in */
+  sessionId?: string;
+  /** Model that generated the plan */
+  model?: string;
+  /** Code chunks given to the model as context */
+  context?: ContextReference[];
+  /** Streamed Markdown (text format) */
+  content?: string;
+  /** Structured plan (json format) */
+  plan?: any;
+}
+
+/**
+ * Front-matter of a saved plan, as shown by `history list`
+ */
+export interface PlanArtifactSummary {
+  /** File name without extension, used to refer to the plan */
+  id: string;
+  /** Absolute path of the saved file */
+  filePath: string;
+  /** Command that produced the plan */
+  command: string;
+  /** Planning query, or the analyzed error */
+  query: string;
+  /** When the plan was saved (ISO 8601) */
+  createdAt: string;
+  /** Model that generated the plan */
+  model?: string;
+  /** Job that generated the plan */
+  jobId?: string;
+}
+
+/**
+ * Saves a plan as a Markdown file with front-matter
+ * @param projectPath - Path to the project directory
+ * @param artifact - Plan to save
+ * @returns Absolute path of the saved file
+ */
+export function savePlanArtifact(projectPath: string, artifact: PlanArtifact): string {
+  const directory = getPlansDirectory(projectPath);
+  mkdirSync(directory, { recursive: true });
+
+  const createdAt = new Date();
+  // Milliseconds keep quick successive plans of the same query apart
+  const timestamp = createdAt.toISOString().replace(/Z$/, '').replace(/[:.]/g, '-');
+  const filePath = path.join(directory, `${timestamp}-${slugify(artifact.query)}.md`);
+
+  const frontMatter = [
+    '---',
+    `command: ${artifact.command}`,
+    `query: ${JSON.stringify(artifact.query)}`,
+    `createdAt: ${JSON.stringify(createdAt.toISOString())}`,
+    `jobId: ${JSON.stringify(artifact.jobId)}`,
+    `projectId: ${JSON.stringify(artifact.projectId)}`,
+    ...(artifact.sessionId ? [`sessionId: ${JSON.stringify(artifact.sessionId)}`] : []),
+    `model: ${JSON.stringify(artifact.model || 'unknown')}`,
+    `format: ${artifact.plan ? 'json' : 'text'}`,
+    ...formatContext(artifact.context || []),
+    '---'
+  ].join('\n');
+
+  const title = artifact.command === 'plan' ? 'Plan' : 'Debugging plan';
+  const heading = `# ${title}: ${firstLine(artifact.query)}`;
+  const body = artifact.plan ? renderStructuredPlan(artifact.plan) : (artifact.content || '').trim();
+
+  // Fail on a name collision rather than overwrite an earlier plan
+  writeFileSync(filePath, `${frontMatter}\n\n${heading}\n\n${body}\n`, { flag: 'wx' });
+  return filePath;
+}
+
+/**
+ * Lists saved plans, newest first
+ * @param projectPath - Path to the project directory
+ * @returns Summaries of the saved plans
+ */
+export function listPlanArtifacts(projectPath: string): PlanArtifactSummary[] {
+  const directory = getPlansDirectory(projectPath);
+  if (!existsSync(directory)) {
+    return [];
+  }
+
+  return readdirSync(directory)
+    .filter(name => name.endsWith('.md'))
+    .sort()
+    .reverse()
+    .map(name => {
+      const filePath = path.join(directory, name);
+      const fields = parseFrontMatter(readFileSync(filePath, 'utf-8'));
+      return {
+        id: name.slice(0, -'.md'.length),
+        filePath,
+        command: fields.command || 'plan',
+        query: fields.query || '',
+        createdAt: fields.createdAt || '',
+        model: fields.model,
+        jobId: fields.jobId
+      };
+    });
+}
+
+/**
+ * Resolves a saved plan from its ID, file name or a unique ID prefix
+ * @param projectPath - Path to the project directory
+ * @param id - Plan reference given by the user
+ * @returns Absolute path of the saved file
+ */
+export function resolvePlanArtifact(projectPath: string, id: string): string {
+  const reference = id.replace(/\.md$/, '');
+  const matches = listPlanArtifacts(projectPath).filter(plan => plan.id.startsWith(reference));
+
+  const exact = matches.find(plan => plan.id === reference);
+  if (exact) {
+    return exact.filePath;
+  }
+  if (matches.length === 0) {
+    throw new Error(`No saved plan matches "${id}"`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`"${id}" matches ${matches.length} saved plans, use a longer ID`);
+  }
+  return matches[0].filePath;
+}
+
+/**
+ * Deletes a saved plan
+ * @param projectPath - Path to the project directory
+ * @param id - Plan reference given by the user
+ * @returns Absolute path of the deleted file
+ */
+export function removePlanArtifact(projectPath: string, id: string): string {
+  const filePath = resolvePlanArtifact(projectPath, id);
+  unlinkSync(filePath);
+  return filePath;
+}
+
+/**
+ * Extracts the structured plan embedded in a saved plan
+ * @param markdown - Content of a saved plan file
+ * @returns Parsed plan, or null if the plan was saved as text
+ */
+export function extractStructuredPlan(markdown: string): any | null {
+  if (parseFrontMatter(markdown).format !== 'json') {
+    return null;
+  }
+
+  // The structured plan is the last section, code changes above it may contain fences too
+  const start = markdown.lastIndexOf('```json\n');
+  const end = markdown.lastIndexOf('\n```');
+  if (start === -1 || end <= start) {
+    return null;
+  }
+  return JSON.parse(markdown.slice(start + '```json\n'.length, end));
+}
+
+/**
+ * Gets the absolute path of the plans directory
+ * @param projectPath - Path to the project directory
+ * @returns Absolute directory path
+ */
+function getPlansDirectory(projectPath: string): string {
+  return path.join(path.resolve(projectPath), PLANS_DIRECTORY);
+}
+
+/**
+ * Formats context references as a YAML list
+ * @param context - Context chunk references
+ * @returns Front-matter lines
+ */
+function formatContext(context: ContextReference[]): string[] {
+  if (context.length === 0) {
+    return ['context: []'];
+  }
+
+  return [
+    'context:',
+    ...context.flatMap(chunk => [
+      `  - id: ${JSON.stringify(chunk.id)}`,
+      `    filePath: ${JSON.stringify(chunk.filePath)}`,
+      ...(chunk.name ? [`    name: ${JSON.stringify(chunk.name)}`] : []),
+      `    similarity: ${chunk.similarity}`,
+      ...(chunk.lexicalScore !== undefined ? [`    lexicalScore: ${chunk.lexicalScore}`] : [])
+    ])
+  ];
+}
+
+/**
+ * Reads the top-level scalar fields of a file's front-matter
+ * Values are written as JSON strings, so they are parsed as JSON where possible
+ * @param content - File content
+ * @returns Field values by key
+ */
+function parseFrontMatter(content: string): Record<string, string> {
+  const match = content.match(/^---\n([\s\S]*?)\n---/);
+  const fields: Record<string, string> = {};
+  if (!match) {
+    return fields;
+  }
+
+  for (const line of match[1].split('\n')) {
+    const field = line.match(/^(\w+):\s*(.*)$/);
+    if (!field || !field[2]) {
+      continue;
+    }
+    try {
+      fields[field[1]] = String(JSON.parse(field[2]));
+    } catch {
+      fields[field[1]] = field[2];
+    }
+  }
+  return fields;
+}
+
+/**
+ * Renders a structured plan or debugging plan as Markdown
+ * The JSON itself is appended so the plan can be applied later
+ * @param plan - Structured plan
+ * @returns Markdown body
+ */
+function renderStructuredPlan(plan: any): string {
+  const sections: string[] = [plan.summary];
+
+  if (plan.rootCause) {
+    sections.push(`## Root Cause\n\n${plan.rootCause}`);
+  }
+
+  if (plan.errors?.length) {
+    const errors = plan.errors.map((error: any) => {
+      const location = error.filePath ? ` \`${error.filePath}:${error.lineNumber || '?'}\`` : '';
+      const related = (error.related || []).map((other: string) => `\n  - Related: \`${other}\``).join('');
+      return `- **${error.id}**${location}${error.code ? ` ${error.code}` : ''}: ${error.message}${related}`;
+    });
+    sections.push(`## Errors\n\n${errors.join('\n')}`);
+  }
+
+  const steps = (plan.steps || []).map((step: any) => {
+    let text = `### ${step.stepNumber}. ${step.action}${step.filePath ? ` (\`${step.filePath}\`)` : ''}\n\n${step.description}`;
+    if (step.resolves?.length) {
+      text += `\n\nResolves: ${step.resolves.join(', ')}`;
+    }
+    if (step.codeChange) {
+      text += `\n\nBefore:\n\n\`\`\`\n${step.codeChange.before}\n\`\`\`\n\nAfter:\n\n\`\`\`\n${step.codeChange.after}\n\`\`\``;
+    }
+    return text;
+  });
+  sections.push(`## Steps\n\n${steps.join('\n\n')}`);
+
+  if (plan.affectedFiles?.length) {
+    sections.push(`## Affected Files\n\n${plan.affectedFiles.map((file: string) => `- \`${file}\``).join('\n')}`);
+  }
+
+  sections.push(`## Structured Plan\n\n\`\`\`json\n${JSON.stringify(plan, null, 2)}\n\`\`\``);
+  return sections.join('\n\n');
+}
+
+/**
+ * Builds a file-name friendly slug from a query
+ * @param text - Query text
+ * @returns Lowercase slug of at most 50 characters
+ */
+function slugify(text: string): string {
+  const slug = firstLine(text)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50)
+    .replace(/-+$/, '');
+  return slug || 'plan';
+}
+
+/**
+ * Gets the first non-empty line of a text
+ * @param text - Text to read
+ * @returns First line, trimmed
+ */
+function firstLine(text: string): string {
+  return text.split('\n').map(line => line.trim()).find(Boolean) || '';
+}
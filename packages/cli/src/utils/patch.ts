@@ -0,0 +1,232 @@
+/**
+ * Code change application for CodePlanner CLI
+ *
+ * This module turns the `codeChange: { before, after }` pairs of plan and
+ * debugging plan steps into updated file contents. Each `before` snippet is
+ * located in its file, first exactly and then ignoring differences in
+ * whitespace, since models rarely reproduce indentation faithfully.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import * as path from 'path';
+import type { PlanStep } from '@codeplanner/shared';
+
+/**
+ * Updated contents of one file, with the steps that changed it
+ */
+export interface FileChange {
+  /** Absolute path of the file */
+  filePath: string;
+  /** Path relative to the project root (used in diffs) */
+  relativePath: string;
+  /** Content before the changes ('' for new files) */
+  original: string;
+  /** Content after the changes */
+  updated: string;
+  /** Whether the file doesn't exist yet */
+  isNew: boolean;
+  /** Numbers of the steps applied to this file */
+  steps: number[];
+}
+
+/**
+ * A step whose code change could not be applied
+ */
+export interface SkippedChange {
+  /** Step number in the plan */
+  stepNumber: number;
+  /** File the step refers to (if any) */
+  filePath?: string;
+  /** Why the change could not be applied */
+  reason: string;
+}
+
+/**
+ * Location of a snippet within a file
+ */
+interface SnippetMatch {
+  /** Start offset of the match */
+  start: number;
+  /** End offset of the match (exclusive) */
+  end: number;
+  /** Whether the match needed whitespace-insensitive matching */
+  fuzzy: boolean;
+}
+
+/**
+ * Applies the code changes of plan steps to the files they refer to
+ * Changes are applied in step order; files are only read, never written
+ * @param steps - Plan or debugging plan steps
+ * @param projectRoot - Project directory that file paths are relative to
+ * @returns Updated file contents and the steps that could not be applied
+ */
+export function applyCodeChanges(
+  steps: PlanStep[],
+  projectRoot: string
+): { files: FileChange[]; skipped: SkippedChange[] } {
+  const root = path.resolve(projectRoot);
+  const files = new Map<string, FileChange>();
+  const skipped: SkippedChange[] = [];
+
+  for (const step of steps) {
+    if (!step.codeChange) {
+      continue;
+    }
+
+    const skip = (reason: string) => skipped.push({ stepNumber: step.stepNumber, filePath: step.filePath, reason });
+
+    if (!step.filePath) {
+      skip('step has a code change but no filePath');
+      continue;
+    }
+
+    const filePath = path.resolve(root, step.filePath);
+    if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+      skip('file is outside the project directory');
+      continue;
+    }
+
+    let file = files.get(filePath);
+    if (!file) {
+      const exists = existsSync(filePath);
+      const original = exists ? readFileSync(filePath, 'utf-8') : '';
+      file = {
+        filePath,
+        relativePath: path.relative(root, filePath).split(path.sep).join('/'),
+        original,
+        updated: original,
+        isNew: !exists,
+        steps: []
+      };
+    }
+
+    const { before, after } = step.codeChange;
+
+    // An empty `before` creates the file
+    if (before.trim() === '') {
+      if (!file.isNew || file.updated !== '') {
+        skip('"before" is empty but the file already exists');
+        continue;
+      }
+      file.updated = after.endsWith('\n') ? after : after + '\n';
+    } else {
+      if (file.isNew && file.updated === '') {
+        skip('file does not exist');
+        continue;
+      }
+
+      const located = locateSnippet(file.updated, before);
+      if (located.count === 0) {
+        skip('"before" snippet not found in file');
+        continue;
+      }
+      if (located.count > 1) {
+        skip(`"before" snippet matches ${located.count} places in file`);
+        continue;
+      }
+
+      const { start, end, fuzzy } = located.match!;
+      // A fuzzy match starts at the first token, so the file's own indentation is kept
+      const replacement = fuzzy ? reindent(after, before, lineIndent(file.updated, start)).trim() : after;
+      file.updated = file.updated.slice(0, start) + replacement + file.updated.slice(end);
+    }
+
+    file.steps.push(step.stepNumber);
+    files.set(filePath, file);
+  }
+
+  return {
+    files: Array.from(files.values()).filter(file => file.updated !== file.original),
+    skipped
+  };
+}
+
+/**
+ * Finds a snippet in file content
+ * Tries an exact match first, then a match that ignores whitespace differences
+ * @param content - File content to search
+ * @param snippet - Snippet to find
+ * @returns The match (if unique) and the number of matches found
+ */
+function locateSnippet(content: string, snippet: string): { match?: SnippetMatch; count: number } {
+  const exact = findAll(content, snippet);
+  if (exact.length > 0) {
+    return {
+      match: exact.length === 1 ? { start: exact[0], end: exact[0] + snippet.length, fuzzy: false } : undefined,
+      count: exact.length
+    };
+  }
+
+  // Compare whitespace-separated tokens, keeping their offsets in the file
+  const snippetTokens = snippet.split(/\s+/).filter(Boolean);
+  const fileTokens: Array<{ text: string; start: number; end: number }> = [];
+  for (const token of content.matchAll(/\S+/g)) {
+    fileTokens.push({ text: token[0], start: token.index!, end: token.index! + token[0].length });
+  }
+
+  const matches: SnippetMatch[] = [];
+  for (let i = 0; i + snippetTokens.length <= fileTokens.length; i++) {
+    if (snippetTokens.every((token, offset) => fileTokens[i + offset].text === token)) {
+      matches.push({
+        start: fileTokens[i].start,
+        end: fileTokens[i + snippetTokens.length - 1].end,
+        fuzzy: true
+      });
+    }
+  }
+
+  return { match: matches.length === 1 ? matches[0] : undefined, count: matches.length };
+}
+
+/**
+ * Moves the lines of a replacement to the indentation of the matched code
+ * The indentation of the snippet's first line is replaced by the file's, so the
+ * lines keep their indentation relative to each other
+ * @param text - Replacement text
+ * @param snippet - The `before` snippet the replacement was written against
+ * @param indent - Indentation of the matched line in the file
+ * @returns Replacement with every line re-indented
+ */
+function reindent(text: string, snippet: string, indent: string): string {
+  const firstLine = snippet.split('\n').find(line => line.trim() !== '') ?? '';
+  const snippetIndent = /^[ \t]*/.exec(firstLine)![0];
+
+  return text
+    .split('\n')
+    .map(line => {
+      if (line.trim() === '') {
+        return '';
+      }
+      return line.startsWith(snippetIndent)
+        ? indent + line.slice(snippetIndent.length)
+        : indent + line.trimStart();
+    })
+    .join('\n');
+}
+
+/**
+ * Gets the indentation of the line containing an offset
+ * @param content - File content
+ * @param offset - Offset within the line
+ * @returns Leading whitespace of the line
+ */
+function lineIndent(content: string, offset: number): string {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+  return /^[ \t]*/.exec(content.slice(lineStart))![0];
+}
+
+/**
+ * Finds all (non-overlapping) occurrences of a string
+ * @param content - Text to search
+ * @param needle - String to find
+ * @returns Start offsets of the occurrences
+ */
+function findAll(content: string, needle: string): number[] {
+  const offsets: number[] = [];
+  let index = content.indexOf(needle);
+  while (index !== -1) {
+    offsets.push(index);
+    index = content.indexOf(needle, index + needle.length);
+  }
+  return offsets;
+}
@@ -0,0 +1,81 @@
+/**
+ * Project identity utilities for CodePlanner CLI
+ *
+ * This module derives a stable project ID for a project directory so that
+ * several projects indexed against the same backend never share vectors.
+ */
+
+import { execFileSync } from 'child_process';
+import { createHash } from 'crypto';
+import * as path from 'path';
+
+/**
+ * Derives a project ID for a project directory that has none configured
+ * Uses the git remote when available, otherwise the absolute path
+ * @param projectPath - Path to the project directory
+ * @returns Stable project identifier
+ */
+export function deriveProjectId(projectPath: string): string {
+  const projectRoot = path.resolve(projectPath);
+
+  const gitId = getGitProjectId(projectRoot);
+  if (gitId) {
+    return gitId;
+  }
+
+  // Fall back to a path-derived ID, stable for this machine
+  const pathHash = createHash('sha1').update(projectRoot).digest('hex').slice(0, 8);
+  return `local/${path.basename(projectRoot)}-${pathHash}`;
+}
+
+/**
+ * Derives a project ID from the git remote of the repository containing the project
+ * Subdirectories of a repository get the relative path appended, so monorepo
+ * packages indexed separately stay apart
+ * @param projectRoot - Absolute project directory
+ * @returns Project ID such as `github.com/org/repo`, or null outside a git repository
+ */
+function getGitProjectId(projectRoot: string): string | null {
+  try {
+    const remoteUrl = git(projectRoot, ['config', '--get', 'remote.origin.url']);
+    const topLevel = git(projectRoot, ['rev-parse', '--show-toplevel']);
+    if (!remoteUrl || !topLevel) {
+      return null;
+    }
+
+    const repoId = normalizeGitRemote(remoteUrl);
+    const subPath = path.relative(topLevel, projectRoot).split(path.sep).join('/');
+    return subPath ? `${repoId}/${subPath}` : repoId;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Normalizes SSH and HTTPS git remotes to `host/owner/repo`
+ * @param remoteUrl - Raw remote URL
+ * @returns Normalized remote identifier
+ */
+function normalizeGitRemote(remoteUrl: string): string {
+  return remoteUrl
+    .trim()
+    .replace(/^[a-z+]+:\/\//i, '')   // Strip protocol (https://, ssh://, git+ssh://)
+    .replace(/^[^@/]+@/, '')         // Strip user info (git@)
+    .replace(/^([^/:]+):(?!\d+\/)/, '$1/') // scp-style host:path -> host/path
+    .replace(/\.git$/, '')
+    .replace(/\/+$/, '')
+    .toLowerCase();
+}
+
+/**
+ * Runs a git command in the given directory
+ * @param cwd - Working directory
+ * @param args - git arguments
+ * @returns Trimmed stdout
+ */
+function git(cwd: string, args: string[]): string {
+  return execFileSync('git', ['-C', cwd, ...args], {
+    encoding: 'utf-8',
+    stdio: ['ignore', 'pipe', 'ignore']
+  }).trim();
+}
@@ -0,0 +1,119 @@
+/**
+ * Embedding Cache for CodePlanner Engine
+ *
+ * This module keeps generated embeddings in Redis, keyed by the embedding
+ * model and a hash of the prepared text, so identical chunks are embedded
+ * once no matter how often they are re-indexed, or in which branch or
+ * project they appear.
+ */
+
+import type { RedisClientType } from 'redis';
+import type { EmbeddingCacheStats } from '../types';
+import { hashContent } from '../utils/hash';
+
+/** Key prefix for cached embeddings */
+const CACHE_KEY_PREFIX = 'codeplanner:embeddings';
+
+/**
+ * Redis-backed cache of embeddings
+ * Cache failures never fail a job: lookups then count as misses and writes are skipped
+ */
+export class EmbeddingCache {
+  private redis: RedisClientType;
+  private ttlSeconds?: number;
+
+  /**
+   * @param redis - Connected Redis client
+   * @param ttlSeconds - Expiry of cached embeddings (kept forever if omitted)
+   */
+  constructor(redis: RedisClientType, ttlSeconds?: number) {
+    this.redis = redis;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  /**
+   * Looks up the embeddings of several texts
+   * @param model - Embedding model
+   * @param texts - Prepared texts
+   * @returns Cached embedding per text, or null where there is none
+   */
+  async getMany(model: string, texts: string[]): Promise<Array<number[] | null>> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    try {
+      const values = await this.redis.mGet(texts.map(text => this.getEntryKey(model, text)));
+      const embeddings = values.map(value => (value ? JSON.parse(value) as number[] : null));
+
+      const hits = embeddings.filter(Boolean).length;
+      await this.redis
+        .multi()
+        .hIncrBy(this.getStatsKey(), 'hits', hits)
+        .hIncrBy(this.getStatsKey(), 'misses', texts.length - hits)
+        .exec();
+      return embeddings;
+    } catch (error) {
+      console.error('❌ Failed to read embedding cache:', error);
+      return texts.map(() => null);
+    }
+  }
+
+  /**
+   * Stores the embeddings of several texts
+   * @param model - Embedding model
+   * @param texts - Prepared texts
+   * @param embeddings - Embedding per text
+   */
+  async setMany(model: string, texts: string[], embeddings: number[][]): Promise<void> {
+    if (texts.length === 0) {
+      return;
+    }
+
+    try {
+      const pipeline = this.redis.multi();
+      texts.forEach((text, index) => {
+        pipeline.set(
+          this.getEntryKey(model, text),
+          JSON.stringify(embeddings[index]),
+          this.ttlSeconds ? { EX: this.ttlSeconds } : {}
+        );
+      });
+      await pipeline.exec();
+    } catch (error) {
+      console.error('❌ Failed to write embedding cache:', error);
+    }
+  }
+
+  /**
+   * Gets the hit and miss counts since the cache was created
+   * @returns Lifetime cache statistics
+   */
+  async getStats(): Promise<EmbeddingCacheStats> {
+    try {
+      const stats = await this.redis.hGetAll(this.getStatsKey());
+      return { hits: Number(stats.hits || 0), misses: Number(stats.misses || 0) };
+    } catch (error) {
+      console.error('❌ Failed to read embedding cache stats:', error);
+      return { hits: 0, misses: 0 };
+    }
+  }
+
+  /**
+   * Gets the Redis key of a cached embedding
+   * @param model - Embedding model
+   * @param text - Prepared text
+   * @returns Redis key
+   */
+  private getEntryKey(model: string, text: string): string {
+    return `${CACHE_KEY_PREFIX}:${model}:${hashContent(text)}`;
+  }
+
+  /**
+   * Gets the Redis key of the hit/miss counters
+   * @returns Redis key
+   */
+  private getStatsKey(): string {
+    return `${CACHE_KEY_PREFIX}:stats`;
+  }
+}
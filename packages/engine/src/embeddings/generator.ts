@@ -2,57 +2,53 @@
  * Embeddings Generator for CodePlanner Engine
  * 
  * This module provides functionality to generate vector embeddings
- * for code chunks using OpenAI's embedding models. These embeddings
- * enable semantic search and similarity matching for planning operations.
+ * for code chunks through an embedding provider (OpenAI-compatible API or
+ * the offline local provider). These embeddings enable semantic search and
+ * similarity matching for planning operations.
  */
 
-import OpenAI from 'openai';
-import type { EmbeddingConfig } from '../types';
-import { getRateLimiter } from '../utils/rate-limiter';
+import type { EmbeddingCacheStats, EmbeddingConfig } from '../types';
+import type { EmbeddingCache } from './cache';
+import { createEmbeddingProvider, type EmbeddingProvider } from './provider';
 
 /**
- * Embeddings generator using OpenAI's embedding models
+ * Embeddings generator
  * Converts text (code) into vector representations for semantic search
  */
 export class EmbeddingGenerator {
-  private openai: OpenAI;
+  private provider: EmbeddingProvider;
   private config: EmbeddingConfig;
+  private cache?: EmbeddingCache;
 
-  constructor(config: EmbeddingConfig) {
+  /**
+   * @param config - Embedding configuration
+   * @param cache - Cache for chunk embeddings (every chunk is embedded if omitted)
+   * @param provider - Embedding provider (created from the configuration if omitted)
+   */
+  constructor(config: EmbeddingConfig, cache?: EmbeddingCache, provider?: EmbeddingProvider) {
     this.config = {
-      model: 'text-embedding-3-small',
+      provider: 'openai',
       batchSize: 20,
       ...config
     };
     
-    this.openai = new OpenAI({
-      apiKey: config.apiKey,
-      // Allow overriding the base URL for providers like OpenRouter
-      baseURL: config.baseUrl
-    });
+    this.provider = provider || createEmbeddingProvider(this.config);
+    this.cache = cache;
   }
 
   /**
    * Generates a single embedding for the given text
    * @param text - Text to generate embedding for
+   * @param signal - Aborts the in-flight request when the job is cancelled
    * @returns Vector embedding as array of numbers
    */
-  async generateEmbedding(text: string): Promise<number[]> {
+  async generateEmbedding(text: string, signal?: AbortSignal): Promise<number[]> {
     try {
       // Truncate text if it's too long (OpenAI has limits)
       const truncatedText = this.truncateText(text);
       
-      const response = await this.withRateLimitRetry(async () => {
-        const limiter = getRateLimiter({ name: 'embeddings' });
-        return await limiter.schedule(async () => {
-          return await this.openai.embeddings.create({
-            model: this.config.model!,
-            input: truncatedText
-          });
-        }, 'embeddings.create(single)');
-      });
-      
-      return response.data[0].embedding;
+      const [embedding] = await this.provider.embed([truncatedText], signal);
+      return embedding;
     } catch (error) {
       console.error('❌ Failed to generate embedding:', error);
       throw new Error(`Embedding generation failed: ${error}`);
@@ -63,35 +59,27 @@ export class EmbeddingGenerator {
    * Generates embeddings for multiple texts in a single batch
    * More efficient than individual calls for large datasets
    * @param texts - Array of texts to generate embeddings for
+   * @param signal - Aborts the in-flight request when the job is cancelled
    * @returns Array of vector embeddings
    */
-  async generateBatch(texts: string[]): Promise<number[][]> {
+  async generateBatch(texts: string[], signal?: AbortSignal): Promise<number[][]> {
     try {
       // Process in batches to avoid API limits
       const batchSize = this.config.batchSize!;
       const results: number[][] = [];
       
       for (let i = 0; i < texts.length; i += batchSize) {
+        signal?.throwIfAborted();
         const batch = texts.slice(i, i + batchSize);
         const truncatedBatch = batch.map(text => this.truncateText(text));
         
         console.log(`📊 Generating embeddings for batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(texts.length / batchSize)}`);
         
-        const response = await this.withRateLimitRetry(async () => {
-          const limiter = getRateLimiter({ name: 'embeddings' });
-          return await limiter.schedule(async () => {
-            return await this.openai.embeddings.create({
-              model: this.config.model!,
-              input: truncatedBatch
-            });
-          }, 'embeddings.create(batch)');
-        });
-        
-        const batchEmbeddings = response.data.map(d => d.embedding);
+        const batchEmbeddings = await this.provider.embed(truncatedBatch, signal);
         results.push(...batchEmbeddings);
         
         // Add small delay to respect rate limits
-        if (i + batchSize < texts.length) {
+        if (!this.provider.isLocal && i + batchSize < texts.length) {
           await this.delay(100);
         }
       }
@@ -105,12 +93,40 @@ export class EmbeddingGenerator {
 
   /**
    * Generates embeddings for code chunks
+   * Cached embeddings are reused; only chunks missing from the cache hit the API
    * @param chunks - Array of code chunks to process
+   * @param signal - Aborts the in-flight request when the job is cancelled
+   * @param cacheStats - Accumulates cache hits and misses (optional)
    * @returns Array of embeddings corresponding to the chunks
    */
-  async generateEmbeddingsForChunks(chunks: { content: string }[]): Promise<number[][]> {
+  async generateEmbeddingsForChunks(
+    chunks: { content: string }[],
+    signal?: AbortSignal,
+    cacheStats?: EmbeddingCacheStats
+  ): Promise<number[][]> {
     const texts = chunks.map(chunk => this.prepareCodeForEmbedding(chunk.content));
-    return this.generateBatch(texts);
+    if (!this.cache) {
+      return this.generateBatch(texts, signal);
+    }
+    
+    const model = this.provider.model;
+    const embeddings = await this.cache.getMany(model, texts);
+    const missing = embeddings.flatMap((embedding, index) => (embedding ? [] : [index]));
+    
+    if (missing.length > 0) {
+      const missingTexts = missing.map(index => texts[index]);
+      const generated = await this.generateBatch(missingTexts, signal);
+      missing.forEach((index, i) => {
+        embeddings[index] = generated[i];
+      });
+      await this.cache.setMany(model, missingTexts, generated);
+    }
+    
+    if (cacheStats) {
+      cacheStats.hits += texts.length - missing.length;
+      cacheStats.misses += missing.length;
+    }
+    return embeddings as number[][];
   }
 
   /**
@@ -208,12 +224,14 @@ export class EmbeddingGenerator {
    * @returns Configuration and usage statistics
    */
   getStats(): {
+    provider: string;
     model: string;
     batchSize: number;
     maxTextLength: number;
   } {
     return {
-      model: this.config.model!,
+      provider: this.config.provider!,
+      model: this.provider.model,
       batchSize: this.config.batchSize!,
       maxTextLength: 30000
     };
@@ -226,43 +244,4 @@ export class EmbeddingGenerator {
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
-
-  /**
-   * Generic retry with exponential backoff and jitter for rate limiting (429)
-   */
-  private async withRateLimitRetry<T>(fn: () => Promise<T>, options?: {
-    retries?: number;
-    baseDelayMs?: number;
-    maxDelayMs?: number;
-  }): Promise<T> {
-    const retries = options?.retries ?? 5;
-    const baseDelayMs = options?.baseDelayMs ?? 500;
-    const maxDelayMs = options?.maxDelayMs ?? 8000;
-
-    let attempt = 0;
-    let lastErr: any;
-
-    while (attempt <= retries) {
-      try {
-        return await fn();
-      } catch (err: any) {
-        lastErr = err;
-        const status = err?.status || err?.code;
-        const isRateLimit = status === 429 || /429/.test(String(err?.message ?? ''));
-        if (!isRateLimit || attempt === retries) {
-          throw err;
-        }
-
-        const retryAfterHeader = err?.headers?.get?.('retry-after') || err?.response?.headers?.get?.('retry-after');
-        let delay = retryAfterHeader ? Number(retryAfterHeader) * 1000 : Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
-        delay = Math.min(maxDelayMs, delay + Math.floor(Math.random() * 250));
-        const label = retryAfterHeader ? `Retry-After ${retryAfterHeader}s` : `${delay}ms`;
-        console.warn(`⏳ Rate limited (429). Retrying in ${label}... (attempt ${attempt + 1}/${retries})`);
-        await this.delay(delay);
-        attempt++;
-      }
-    }
-
-    throw lastErr;
-  }
 }
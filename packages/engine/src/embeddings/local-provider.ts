@@ -0,0 +1,111 @@
+/**
+ * Local Embedding Provider for CodePlanner Engine
+ *
+ * This module embeds text on the CPU without any network access, so
+ * projects can be indexed and searched without an API key (air-gapped
+ * machines, CI). Word and character n-grams are hashed into a fixed number
+ * of dimensions (the "hashing trick") with sublinear term weighting, which
+ * captures shared identifiers and spelling rather than meaning.
+ */
+
+import { tokenize } from '../vector-store/lexical-index';
+import type { EmbeddingProvider } from './provider';
+
+/** Weight of a character trigram relative to a whole term */
+const TRIGRAM_WEIGHT = 0.5;
+
+/**
+ * Configuration for the local embedding provider
+ */
+export interface LocalEmbeddingConfig {
+  /** Number of dimensions of the produced embeddings */
+  dimensions?: number;
+}
+
+/**
+ * Offline embedding provider projecting hashed n-grams into a fixed dimension
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly isLocal = true;
+  private dimensions: number;
+
+  constructor(config: LocalEmbeddingConfig = {}) {
+    this.dimensions = config.dimensions || 384;
+    if (!Number.isInteger(this.dimensions) || this.dimensions < 16) {
+      throw new Error(`Invalid local embedding dimensions: ${config.dimensions}`);
+    }
+
+    // The dimension is part of the model id so cached and indexed vectors never mix sizes
+    this.model = `hashed-ngrams-${this.dimensions}`;
+  }
+
+  /**
+   * Embeds texts
+   * @param texts - Texts to embed
+   * @param signal - Stops between texts when the job is cancelled
+   * @returns One L2-normalized embedding per text, in order
+   */
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    return texts.map(text => {
+      signal?.throwIfAborted();
+      return this.embedText(text);
+    });
+  }
+
+  /**
+   * Embeds a single text
+   * @param text - Text to embed
+   * @returns L2-normalized embedding
+   */
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const [feature, count] of this.extractFeatures(text)) {
+      const hash = fnv1a(feature);
+      // One hash bit picks the sign so colliding features tend to cancel out
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[(hash & 0x7fffffff) % this.dimensions] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+    return norm > 0 ? vector.map(val => val / norm) : vector;
+  }
+
+  /**
+   * Counts the weighted features of a text: identifier-aware terms and their character trigrams
+   * @param text - Text to analyze
+   * @returns Map of feature to weighted count
+   */
+  private extractFeatures(text: string): Map<string, number> {
+    const features = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+      features.set(feature, (features.get(feature) || 0) + weight);
+    };
+
+    for (const term of tokenize(text)) {
+      add(`w:${term}`, 1);
+
+      const padded = `^${term}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    return features;
+  }
+}
+
+/**
+ * Hashes a string with 32-bit FNV-1a
+ * @param value - String to hash
+ * @returns Unsigned 32-bit hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,89 @@
+/**
+ * Embedding Providers for CodePlanner Engine
+ *
+ * This module defines the provider abstraction behind EmbeddingGenerator
+ * and its OpenAI-compatible implementation. Providers only turn texts into
+ * vectors; preparation, batching and caching stay in the generator.
+ */
+
+import OpenAI from 'openai';
+import type { EmbeddingConfig } from '../types';
+import { getRateLimiter } from '../utils/rate-limiter';
+import { withRateLimitRetry } from '../utils/retry';
+import { LocalEmbeddingProvider } from './local-provider';
+
+/**
+ * A source of text embeddings
+ */
+export interface EmbeddingProvider {
+  /** Model identifier, used to key cached embeddings */
+  readonly model: string;
+  /** Whether embeddings are computed in-process (no network, no rate limits) */
+  readonly isLocal: boolean;
+
+  /**
+   * Embeds texts
+   * @param texts - Texts to embed (already prepared and truncated)
+   * @param signal - Aborts the in-flight request when the job is cancelled
+   * @returns One embedding per text, in order
+   */
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+/**
+ * Embedding provider for OpenAI and OpenAI-compatible APIs (e.g. OpenRouter)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly isLocal = false;
+  private openai: OpenAI;
+
+  constructor(config: EmbeddingConfig) {
+    if (!config.apiKey) {
+      throw new Error('Missing embedding API key. Set EMBEDDING_API_KEY or OPENAI_API_KEY or OPENROUTER_API_KEY');
+    }
+
+    this.model = config.model || 'text-embedding-3-small';
+    this.openai = new OpenAI({
+      apiKey: config.apiKey,
+      // Allow overriding the base URL for providers like OpenRouter
+      baseURL: config.baseUrl
+    });
+  }
+
+  /**
+   * Embeds texts with one API request
+   * @param texts - Texts to embed
+   * @param signal - Aborts the in-flight request when the job is cancelled
+   * @returns One embedding per text, in order
+   */
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await withRateLimitRetry(async () => {
+      const limiter = getRateLimiter({ name: 'embeddings' });
+      return await limiter.schedule(async () => {
+        return await this.openai.embeddings.create({
+          model: this.model,
+          input: texts
+        }, { signal });
+      }, `embeddings.create(${texts.length})`);
+    });
+
+    return response.data.map(d => d.embedding);
+  }
+}
+
+/**
+ * Creates the embedding provider selected in the configuration
+ * @param config - Embedding configuration
+ * @returns Embedding provider
+ */
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.provider || 'openai') {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(config);
+    case 'local':
+      return new LocalEmbeddingProvider({ dimensions: config.dimensions });
+    default:
+      throw new Error(`Unknown embedding provider "${config.provider}". Use openai or local`);
+  }
+}
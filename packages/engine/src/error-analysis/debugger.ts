@@ -5,79 +5,98 @@
  * errors and generate step-by-step debugging plans with specific fixes.
  */
 
-import OpenAI from 'openai';
+import * as path from 'path';
 import { ASTParser } from '../parser/ast-parser';
-import type { ParsedError, CodeChunk, DebuggingPlan, DebuggingStep } from '@codeplanner/shared';
-import type { PlanGeneratorConfig } from '../types';
-import { getRateLimiter } from '../utils/rate-limiter';
+import type { ParsedError, CodeChunk, DebuggingPlan, DebuggingStep, StackFrame } from '@codeplanner/shared';
+import type { PlanGeneratorConfig, RootCauseGroup } from '../types';
+import { createChatProvider } from '../llm/chat-provider';
+import type { ChatMessage, ChatProvider } from '../llm/chat-provider';
+import { parseModelJson, validateDebuggingPlan } from '../utils/validation';
+import type { ValidationResult } from '../utils/validation';
+
+/** Root causes whose surrounding code is included in the prompt */
+const MAX_FILE_CONTEXTS = 5;
+
+/** Other locations listed per root cause */
+const MAX_RELATED_LOCATIONS = 5;
+
+/** Project-owned stack frames shown in a runtime error's call chain */
+const MAX_CALL_CHAIN_FRAMES = 4;
+
+/** Enclosing functions up to this many lines are shown whole in the call chain */
+const MAX_FUNCTION_LINES = 40;
+
+/** Lines shown before and after a call chain frame inside longer functions */
+const CALL_CHAIN_CONTEXT_LINES = 6;
+
+/** Frames of dependencies and runtime internals, which are left out of the call chain */
+const LIBRARY_FRAME = /node_modules|^(node|bun|internal)[:/]|^native$|<anonymous>/;
 
 /**
  * AI-powered debugger that analyzes errors and generates debugging plans
  * Uses LLM to understand error context and provide actionable solutions
  */
 export class Debugger {
-  private openai: OpenAI;
+  private provider: ChatProvider;
   private parser: ASTParser;
   private config: PlanGeneratorConfig;
 
+  /**
+   * @param config - Debugger configuration
+   * @param parser - AST parser of the project, used to read code around the error
+   * @param provider - Chat provider (created from the configuration if omitted)
+   */
   constructor(
     config: PlanGeneratorConfig,
-    parser: ASTParser
+    parser: ASTParser,
+    provider?: ChatProvider
   ) {
     this.config = {
-      model: 'gpt-4-turbo-preview',
       temperature: 0.2,
       ...config
     };
     
-    this.openai = new OpenAI({
-      apiKey: config.apiKey,
-      // Allow overriding the base URL for providers like OpenRouter
-      baseURL: config.baseUrl
-    });
+    this.provider = provider || createChatProvider(this.config);
     this.parser = parser;
   }
 
   /**
-   * Analyzes an error and generates a debugging plan
-   * @param error - Parsed error object
+   * Analyzes errors and generates one debugging plan that fixes them in order
+   * @param errors - Root causes of the reported errors, in fix order
    * @param relevantCode - Array of relevant code chunks from semantic search
+   * @param signal - Aborts the in-flight request when the job is cancelled
    * @returns Async generator that yields debugging plan content
    */
   async analyzeError(
-    error: ParsedError,
-    relevantCode: CodeChunk[]
+    errors: RootCauseGroup[],
+    relevantCode: CodeChunk[],
+    signal?: AbortSignal
   ): Promise<AsyncGenerator<string>> {
     try {
-      // Get file context around the error location
-      const fileContext = await this.getFileContext(error);
+      // Get file context around the error locations
+      const fileContexts = await this.getFileContexts(errors);
       
       // Build the debugging prompt
-      const prompt = this.buildDebugPrompt(error, fileContext, relevantCode);
+      const prompt = this.buildDebugPrompt(errors, fileContexts, relevantCode);
       
-      console.log(`🐛 Analyzing ${error.type} error: ${error.message}`);
+      this.logAnalysis(errors, false);
       console.log(`📊 Using ${relevantCode.length} relevant code chunks as context`);
       
-      // Create the streaming completion with retry/backoff
-      const stream = await this.withRateLimitRetry(async () => {
-        const limiter = getRateLimiter({ name: 'debugger' });
-        return await limiter.schedule(async () => {
-          return await this.openai.chat.completions.create({
-            model: this.config.model!,
-            messages: [
-              {
-                role: 'system',
-                content: this.getSystemPrompt()
-              },
-              {
-                role: 'user',
-                content: prompt
-              }
-            ],
-            stream: true,
-            ...(this.getTokenParam(4000) as any)
-          });
-        }, 'chat.completions(stream)');
+      // Create the streaming completion (the provider retries rate limited requests)
+      const stream = await this.provider.stream({
+        messages: [
+          {
+            role: 'system',
+            content: this.getSystemPrompt()
+          },
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+        maxTokens: 4000,
+        label: 'stream',
+        signal
       });
 
       // Return the streaming response
@@ -89,12 +108,119 @@ export class Debugger {
     }
   }
 
+  /**
+   * Analyzes errors and generates a structured debugging plan matching DebuggingPlan
+   * The model is asked for JSON, which is validated; invalid output gets one repair attempt
+   * @param errors - Root causes of the reported errors, in fix order
+   * @param relevantCode - Array of relevant code chunks from semantic search
+   * @param signal - Aborts the in-flight request when the job is cancelled
+   * @returns Validated debugging plan
+   */
+  async analyzeErrorStructured(
+    errors: RootCauseGroup[],
+    relevantCode: CodeChunk[],
+    signal?: AbortSignal
+  ): Promise<DebuggingPlan> {
+    const fileContexts = await this.getFileContexts(errors);
+    
+    this.logAnalysis(errors, true);
+    console.log(`📊 Using ${relevantCode.length} relevant code chunks as context`);
+    
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `${this.getSystemPrompt()}\n\n${this.getStructuredOutputInstructions(errors.length > 1)}`
+      },
+      {
+        role: 'user',
+        content: this.buildStructuredDebugPrompt(errors, fileContexts, relevantCode)
+      }
+    ];
+    
+    const errorIds = errors.map(group => group.id);
+    const output = await this.completeJson(messages, signal);
+    let result = this.parseDebuggingPlan(output, errorIds);
+    
+    if (result.errors.length > 0) {
+      console.warn(`⚠️  Debugging plan failed validation (${result.errors.length} issues), requesting a repair`);
+      const repaired = await this.completeJson([
+        ...messages,
+        { role: 'assistant', content: output },
+        {
+          role: 'user',
+          content: `Your JSON does not match the required schema:\n${result.errors.map(e => `- ${e}`).join('\n')}\n\n` +
+            'Return the corrected debugging plan as a single JSON object that follows the schema exactly.'
+        }
+      ], signal);
+      result = this.parseDebuggingPlan(repaired, errorIds);
+    }
+    
+    if (!result.value) {
+      throw new Error(`Error analysis returned invalid JSON after one repair attempt: ${result.errors.slice(0, 5).join('; ')}`);
+    }
+    
+    console.log(`✅ Debugging plan generated with ${result.value.steps.length} steps`);
+    return result.value;
+  }
+
+  /**
+   * Requests a JSON completion from the model
+   * @param messages - Chat messages to send
+   * @param signal - Aborts the in-flight request when the job is cancelled
+   * @returns Raw completion text
+   */
+  private async completeJson(messages: ChatMessage[], signal?: AbortSignal): Promise<string> {
+    return this.provider.complete({ messages, maxTokens: 4000, json: true, label: 'json', signal });
+  }
+
+  /**
+   * Parses and validates structured debugging plan output
+   * @param output - Raw model output
+   * @param errorIds - IDs of the analyzed errors that steps may resolve
+   * @returns Validation result with the debugging plan if valid
+   */
+  private parseDebuggingPlan(output: string, errorIds: string[]): ValidationResult<DebuggingPlan> {
+    const parsed = parseModelJson(output);
+    return parsed.errors.length > 0 ? { errors: parsed.errors } : validateDebuggingPlan(parsed.value, errorIds);
+  }
+
+  /**
+   * Logs which errors are being analyzed
+   * @param errors - Root causes of the reported errors
+   * @param structured - Whether a structured plan is requested
+   */
+  private logAnalysis(errors: RootCauseGroup[], structured: boolean): void {
+    const mode = structured ? ' (structured)' : '';
+    if (errors.length === 1) {
+      console.log(`🐛 Analyzing ${errors[0].error.type} error${mode}: ${errors[0].error.message}`);
+      return;
+    }
+    const related = errors.reduce((sum, group) => sum + group.related.length, 0);
+    console.log(`🐛 Analyzing ${errors.length} errors${mode} (${related} related errors merged)`);
+  }
+
+  /**
+   * Gets file context around the locations of the first root causes
+   * @param errors - Root causes of the reported errors
+   * @returns File context per root cause (empty past MAX_FILE_CONTEXTS)
+   */
+  private async getFileContexts(errors: RootCauseGroup[]): Promise<string[]> {
+    return Promise.all(errors.slice(0, MAX_FILE_CONTEXTS).map(group => this.getFileContext(group.error)));
+  }
+
   /**
    * Gets file context around the error location
+   * Runtime errors get the call chain through their project-owned stack frames instead,
+   * since the top frame is often inside a library
    * @param error - Parsed error object
-   * @returns File context string
+   * @returns File context as Markdown
    */
   private async getFileContext(error: ParsedError): Promise<string> {
+    const callChain = error.stackTrace && this.getCallChain(error.stackTrace);
+    if (callChain) {
+      return callChain;
+    }
+
     if (!error.filePath || !error.lineNumber) {
       return 'No file context available.';
     }
@@ -111,11 +237,12 @@ export class Debugger {
         return index === Math.floor(lines.length / 2); // Approximate error line position
       });
 
-      return lines.map((line, index) => {
+      const numbered = lines.map((line, index) => {
         const lineNum = error.lineNumber! - Math.floor(lines.length / 2) + index + 1;
         const marker = index === errorLineIndex ? '→ ' : '  ';
         return `${marker}${lineNum}: ${line}`;
       }).join('\n');
+      return `\`\`\`typescript\n${numbered}\n\`\`\``;
       
     } catch (error) {
       console.warn('⚠️  Failed to get file context:', error);
@@ -123,16 +250,185 @@ export class Debugger {
     }
   }
 
+  /**
+   * Describes the call chain of a runtime error through the project's own code
+   * Library and runtime frames and files outside the project are skipped; each project
+   * frame shows its enclosing function (whole if short, otherwise the lines around the call)
+   * @param frames - Stack frames, innermost first
+   * @returns Call chain as Markdown, or undefined if no frame is in a readable project file
+   */
+  private getCallChain(frames: StackFrame[]): string | undefined {
+    const entries: string[] = [];
+    let skipped = 0;
+
+    for (const frame of frames) {
+      if (entries.length === MAX_CALL_CHAIN_FRAMES) break;
+
+      const filePath = LIBRARY_FRAME.test(frame.filePath) ? undefined : this.resolveProjectFile(frame.filePath);
+      const entry = filePath && this.describeFrame(frame, filePath, entries.length + 1);
+      if (entry) {
+        entries.push(entry);
+      } else {
+        skipped++;
+      }
+    }
+
+    if (entries.length === 0) {
+      return undefined;
+    }
+
+    const note = skipped > 0 ? ` (${skipped} library and runtime frames skipped)` : '';
+    return `Call chain from where the error was thrown outwards${note}:\n\n${entries.join('\n\n')}`;
+  }
+
+  /**
+   * Resolves a frame's file against the project directory
+   * @param filePath - File path of a stack frame (absolute or project-relative)
+   * @returns Absolute path, or undefined if the file is outside the project
+   */
+  private resolveProjectFile(filePath: string): string | undefined {
+    const projectPath = this.parser.getProjectPath();
+    const resolved = path.resolve(projectPath, filePath);
+    const relative = path.relative(projectPath, resolved);
+    if (relative === '' || relative === '..' || relative.startsWith('..' + path.sep) || path.isAbsolute(relative)) {
+      return undefined;
+    }
+    return resolved;
+  }
+
+  /**
+   * Describes one project frame of a call chain with the code around it
+   * @param frame - Stack frame
+   * @param filePath - Absolute path of the frame's file inside the project
+   * @param position - Position in the call chain (1 is where the error was thrown)
+   * @returns Frame heading and numbered code, or undefined if the file cannot be read
+   */
+  private describeFrame(frame: StackFrame, filePath: string, position: number): string | undefined {
+    const content = this.parser.getFileContent(filePath);
+    if (!content) {
+      return undefined;
+    }
+
+    const lines = content.split('\n');
+    const func = this.parser.getEnclosingFunction(filePath, frame.lineNumber, frame.columnNumber);
+    let start = Math.max(1, frame.lineNumber - CALL_CHAIN_CONTEXT_LINES);
+    let end = Math.min(lines.length, frame.lineNumber + CALL_CHAIN_CONTEXT_LINES);
+    if (func && func.endLine - func.startLine < MAX_FUNCTION_LINES) {
+      start = func.startLine;
+      end = func.endLine;
+    } else if (func) {
+      start = Math.max(start, func.startLine);
+      end = Math.min(end, func.endLine);
+    }
+
+    const numbered = lines.slice(start - 1, end).map((line, index) => {
+      const lineNum = start + index;
+      return `${lineNum === frame.lineNumber ? '→ ' : '  '}${lineNum}: ${line}`;
+    }).join('\n');
+    const name = func?.name || frame.functionName || '<anonymous>';
+    const compiled = frame.generated
+      ? ` (compiled: ${frame.generated.filePath}:${frame.generated.lineNumber}:${frame.generated.columnNumber})`
+      : '';
+
+    return `**${position}. \`${name}\`** at ${frame.filePath}:${frame.lineNumber}:${frame.columnNumber}${compiled}
+\`\`\`typescript
+${numbered}
+\`\`\``;
+  }
+
   /**
    * Builds the debugging prompt for the LLM
-   * @param error - Parsed error object
-   * @param fileContext - File context around error location
+   * @param errors - Root causes of the reported errors, in fix order
+   * @param fileContexts - File context around the first root causes' locations
    * @param relevantCode - Relevant code chunks
    * @returns Complete debugging prompt
    */
   private buildDebugPrompt(
-    error: ParsedError,
-    fileContext: string,
+    errors: RootCauseGroup[],
+    fileContexts: string[],
+    relevantCode: CodeChunk[]
+  ): string {
+    const task = errors.length > 1
+      ? `Analyze these errors and provide one debugging plan that fixes all of them, including:
+
+1. **Root Cause Analysis**: What is causing each error, and which errors are consequences of others?
+2. **Fixes in Order**: Step-by-step instructions, fixing upstream errors (listed first) before the errors that may depend on them
+3. **Code Changes**: Specific before/after code examples
+4. **Prevention**: How to avoid similar errors in the future
+5. **Testing**: How to verify the fixes work`
+      : `Analyze this error and provide a comprehensive debugging plan that includes:
+
+1. **Root Cause Analysis**: What is causing this error?
+2. **Immediate Fix**: Step-by-step instructions to resolve the error
+3. **Code Changes**: Specific before/after code examples
+4. **Prevention**: How to avoid similar errors in the future
+5. **Testing**: How to verify the fix works`;
+    const resolves = errors.length > 1
+      ? '\n- End every step with a line `Resolves: E1, E2` naming the IDs of the errors it fixes'
+      : '';
+
+    return `${this.buildErrorDetails(errors, fileContexts, relevantCode)}
+
+## Task
+${task}
+
+## Format Requirements
+- Use clear Markdown formatting with headers and code blocks
+- Number all debugging steps
+- Include specific file paths and line numbers
+- Provide concrete code examples with before/after comparisons
+- Explain the reasoning behind each fix
+- Consider edge cases and potential side effects${resolves}
+
+## Context Notes
+- The file context shows the code around the error location; for runtime errors it follows the call chain through the project's code, from where the error was thrown outwards
+- The related code shows similar patterns in the codebase
+- Use existing code patterns and conventions when suggesting fixes
+- Consider the overall architecture and design principles
+
+Generate a debugging plan that a developer can follow to quickly identify and fix the issue.`;
+  }
+
+  /**
+   * Builds the prompt for structured debugging plan generation
+   * @param errors - Root causes of the reported errors, in fix order
+   * @param fileContexts - File context around the first root causes' locations
+   * @param relevantCode - Relevant code chunks
+   * @returns Complete debugging prompt
+   */
+  private buildStructuredDebugPrompt(
+    errors: RootCauseGroup[],
+    fileContexts: string[],
+    relevantCode: CodeChunk[]
+  ): string {
+    const task = errors.length > 1
+      ? `Analyze these errors and return one debugging plan that fixes all of them as JSON.
+- Identify the root causes, not just the symptoms
+- Fix upstream errors (listed first) before the errors that may depend on them
+- Set resolves on every step to the IDs of the errors it fixes`
+      : `Analyze this error and return a debugging plan as JSON.
+- Identify the root cause, not just the symptom
+- Order steps so they can be followed one after another, starting with the fix`;
+
+    return `${this.buildErrorDetails(errors, fileContexts, relevantCode)}
+
+## Task
+${task}
+- Include a codeChange for every step that edits code, quoting the current code exactly in "before"
+- Use real file paths from the error and the related code
+- List every file to examine or modify in affectedFiles`;
+  }
+
+  /**
+   * Builds the error details, stack trace and code context shared by all debugging prompts
+   * @param errors - Root causes of the reported errors, in fix order
+   * @param fileContexts - File context around the first root causes' locations
+   * @param relevantCode - Relevant code chunks
+   * @returns Markdown describing the errors and their context
+   */
+  private buildErrorDetails(
+    errors: RootCauseGroup[],
+    fileContexts: string[],
     relevantCode: CodeChunk[]
   ): string {
     const context = relevantCode.map((chunk, index) => `
@@ -147,52 +443,61 @@ ${chunk.content}
 \`\`\`
 `).join('\n');
 
-    return `# Error Analysis and Debugging Request
+    if (errors.length === 1) {
+      return `# Error Analysis and Debugging Request
 
 ## Error Details
-- **Type:** ${error.type}
-- **Message:** ${error.message}
-- **Location:** ${error.filePath || 'Unknown'}:${error.lineNumber || 'Unknown'}
-${error.columnNumber ? `- **Column:** ${error.columnNumber}` : ''}
-${error.errorCode ? `- **Error Code:** ${error.errorCode}` : ''}
-
-${error.stackTrace ? `## Stack Trace
-${error.stackTrace.map(frame => 
-  `  at ${frame.functionName || '<anonymous>'} (${frame.filePath}:${frame.lineNumber}:${frame.columnNumber})`
-).join('\n')}` : ''}
+${this.describeError(errors[0], '##')}
 
 ## File Context
-\`\`\`typescript
-${fileContext}
-\`\`\`
+${fileContexts[0]}
 
 ## Related Code
-${context}
+${context}`;
+    }
 
-## Task
-Analyze this error and provide a comprehensive debugging plan that includes:
+    const related = errors.reduce((sum, group) => sum + group.related.length, 0);
+    const details = errors.map((group, index) => {
+      const fileContext = index < fileContexts.length ? `\n\n${fileContexts[index]}` : '';
+      return `### ${group.id}\n${this.describeError(group, '####')}${fileContext}`;
+    }).join('\n\n');
 
-1. **Root Cause Analysis**: What is causing this error?
-2. **Immediate Fix**: Step-by-step instructions to resolve the error
-3. **Code Changes**: Specific before/after code examples
-4. **Prevention**: How to avoid similar errors in the future
-5. **Testing**: How to verify the fix works
+    return `# Error Analysis and Debugging Request
 
-## Format Requirements
-- Use clear Markdown formatting with headers and code blocks
-- Number all debugging steps
-- Include specific file paths and line numbers
-- Provide concrete code examples with before/after comparisons
-- Explain the reasoning behind each fix
-- Consider edge cases and potential side effects
+## Errors
+${errors.length} distinct errors${related > 0 ? ` (${related} repeated or cascading errors merged into them)` : ''}, listed in suggested fix order: syntax errors, then unresolved imports, missing declarations, other errors and warnings.
 
-## Context Notes
-- The file context shows the code around the error location
-- The related code shows similar patterns in the codebase
-- Use existing code patterns and conventions when suggesting fixes
-- Consider the overall architecture and design principles
+${details}
 
-Generate a debugging plan that a developer can follow to quickly identify and fix the issue.`;
+## Related Code
+${context}`;
+  }
+
+  /**
+   * Describes a root cause error as a Markdown list
+   * @param group - Root cause with its related errors
+   * @param heading - Markdown heading level of the stack trace section
+   * @returns Error details, stack trace and other occurrences
+   */
+  private describeError(group: RootCauseGroup, heading: string): string {
+    const { error, related } = group;
+    const locations = related
+      .slice(0, MAX_RELATED_LOCATIONS)
+      .map(other => `${other.filePath || 'Unknown'}:${other.lineNumber || 'Unknown'}`);
+    const more = related.length > MAX_RELATED_LOCATIONS ? ` and ${related.length - MAX_RELATED_LOCATIONS} more` : '';
+
+    return `- **Type:** ${error.type}
+- **Message:** ${error.message}
+- **Location:** ${error.filePath || 'Unknown'}:${error.lineNumber || 'Unknown'}
+${error.columnNumber ? `- **Column:** ${error.columnNumber}` : ''}
+${error.errorCode ? `- **Error Code:** ${error.errorCode}` : ''}
+${related.length > 0 ? `- **Related Errors:** ${related.length} (${locations.join(', ')}${more})` : ''}
+
+${error.stackTrace ? `${heading} Stack Trace
+${error.stackTrace.map(frame => 
+  `  at ${frame.functionName || '<anonymous>'} (${frame.filePath}:${frame.lineNumber}:${frame.columnNumber})` +
+  (frame.generated ? ` [compiled: ${frame.generated.filePath}:${frame.generated.lineNumber}:${frame.generated.columnNumber}]` : '')
+).join('\n')}` : ''}`.trim();
   }
 
   /**
@@ -222,18 +527,45 @@ Focus on practical solutions that can be implemented immediately while also help
   }
 
   /**
-   * Processes the streaming response from OpenAI
-   * @param stream - OpenAI streaming response
+   * Gets the output format instructions for structured debugging plans
+   * @param multipleErrors - Whether steps must name the errors they resolve
+   * @returns Instructions describing the DebuggingPlan JSON schema
+   */
+  private getStructuredOutputInstructions(multipleErrors: boolean): string {
+    const resolves = multipleErrors
+      ? `,
+      "resolves": string[]          // IDs of the errors this step fixes, e.g. ["E1", "E3"]`
+      : '';
+
+    return `Respond with a single JSON object and nothing else, using exactly this shape:
+
+{
+  "summary": string,                // 1-2 sentence overview of the fix
+  "rootCause": string,              // what actually causes the error
+  "steps": [
+    {
+      "stepNumber": number,         // 1-based, sequential
+      "action": string,             // e.g. "Inspect function", "Fix null check"
+      "description": string,        // what to do and why
+      "filePath": string,           // optional, path of the file to examine or change
+      "codeChange": {               // optional
+        "before": string,           // existing code
+        "after": string             // fixed code
+      }${resolves}
+    }
+  ],
+  "affectedFiles": string[]         // every file to examine or modify
+}`;
+  }
+
+  /**
+   * Processes the streaming response from the provider
+   * @param stream - Provider streaming response
    * @returns Async generator yielding content chunks
    */
-  private async *streamResponse(stream: any): AsyncGenerator<string> {
+  private async *streamResponse(stream: AsyncIterable<string>): AsyncGenerator<string> {
     try {
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content;
-        if (content) {
-          yield content;
-        }
-      }
+      yield* stream;
     } catch (error) {
       console.error('❌ Error processing streaming response:', error);
       yield `\n\n❌ Error generating debugging plan: ${error}`;
@@ -247,27 +579,22 @@ Focus on practical solutions that can be implemented immediately while also help
    */
   async generateQuickFix(error: ParsedError): Promise<string> {
     try {
-      const response = await this.withRateLimitRetry(async () => {
-        const limiter = getRateLimiter({ name: 'debugger' });
-        return await limiter.schedule(async () => {
-          return await this.openai.chat.completions.create({
-            model: this.config.model!,
-            messages: [
-              {
-                role: 'system',
-                content: 'You are a debugging expert. Provide concise, actionable fix suggestions for programming errors.'
-              },
-              {
-                role: 'user',
-                content: `Provide a quick fix for this ${error.type} error: ${error.message}`
-              }
-            ],
-            ...(this.getTokenParam(200) as any)
-          });
-        }, 'chat.completions(quick-fix)');
+      const quickFix = await this.provider.complete({
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a debugging expert. Provide concise, actionable fix suggestions for programming errors.'
+          },
+          {
+            role: 'user',
+            content: `Provide a quick fix for this ${error.type} error: ${error.message}`
+          }
+        ],
+        maxTokens: 200,
+        label: 'quick-fix'
       });
 
-      return response.choices[0]?.message?.content || 'Quick fix generation failed';
+      return quickFix || 'Quick fix generation failed';
     } catch (error) {
       console.error('❌ Failed to generate quick fix:', error);
       return 'Quick fix generation failed';
@@ -287,27 +614,20 @@ Focus on practical solutions that can be implemented immediately while also help
     try {
       const errorSummary = errors.map(e => `${e.type}: ${e.message}`).join('\n');
       
-      const response = await this.withRateLimitRetry(async () => {
-        const limiter = getRateLimiter({ name: 'debugger' });
-        return await limiter.schedule(async () => {
-          return await this.openai.chat.completions.create({
-            model: this.config.model!,
-            messages: [
-              {
-                role: 'system',
-                content: 'You are a code quality expert. Analyze error patterns and suggest improvements.'
-              },
-              {
-                role: 'user',
-                content: `Analyze these error patterns and suggest improvements:\n\n${errorSummary}`
-              }
-            ],
-            ...(this.getTokenParam(300) as any)
-          });
-        }, 'chat.completions(patterns)');
+      const analysis = await this.provider.complete({
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a code quality expert. Analyze error patterns and suggest improvements.'
+          },
+          {
+            role: 'user',
+            content: `Analyze these error patterns and suggest improvements:\n\n${errorSummary}`
+          }
+        ],
+        maxTokens: 300,
+        label: 'patterns'
       });
-
-      const analysis = response.choices[0]?.message?.content || '';
       
       // Simple pattern detection (in a real implementation, you'd want more sophisticated analysis)
       const hasTypeErrors = errors.some(e => e.message.includes('Property') || e.message.includes('type'));
@@ -338,55 +658,14 @@ Focus on practical solutions that can be implemented immediately while also help
    * @returns Debugger statistics
    */
   getStats(): {
+    provider: string;
     model: string;
     temperature: number;
   } {
     return {
-      model: this.config.model!,
+      provider: this.provider.name,
+      model: this.provider.model,
       temperature: this.config.temperature!
     };
   }
-
-  /**
-   * Generic retry with exponential backoff and jitter for rate limiting (429)
-   */
-  private async withRateLimitRetry<T>(fn: () => Promise<T>, options?: {
-    retries?: number;
-    baseDelayMs?: number;
-    maxDelayMs?: number;
-  }): Promise<T> {
-    const retries = options?.retries ?? 5;
-    const baseDelayMs = options?.baseDelayMs ?? 500;
-    const maxDelayMs = options?.maxDelayMs ?? 8000;
-
-    let attempt = 0;
-    let lastErr: any;
-
-    while (attempt <= retries) {
-      try {
-        return await fn();
-      } catch (err: any) {
-        lastErr = err;
-        const status = err?.status || err?.code;
-        const isRateLimit = status === 429 || /429/.test(String(err?.message ?? ''));
-        if (!isRateLimit || attempt === retries) {
-          throw err;
-        }
-
-        const retryAfterHeader = err?.headers?.get?.('retry-after') || err?.response?.headers?.get?.('retry-after');
-        let delay = retryAfterHeader ? Number(retryAfterHeader) * 1000 : Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
-        delay = Math.min(maxDelayMs, delay + Math.floor(Math.random() * 250));
-        const label = retryAfterHeader ? `Retry-After ${retryAfterHeader}s` : `${delay}ms`;
-        console.warn(`⏳ Rate limited (429). Retrying in ${label}... (attempt ${attempt + 1}/${retries})`);
-        await new Promise(res => setTimeout(res, delay));
-        attempt++;
-      }
-    }
-
-    throw lastErr;
-  }
-
-  private getTokenParam(value: number): any {
-    return { max_completion_tokens: value };
-  }
 }
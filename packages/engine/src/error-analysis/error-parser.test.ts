@@ -0,0 +1,288 @@
+/**
+ * Error Parser tests for CodePlanner Engine
+ *
+ * Each fixture in ./fixtures is output captured from the real tool (terminal
+ * colors included where the tool printed them), so these tests pin down both
+ * format detection and the locations extracted from it.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import type { ParsedError } from '@codeplanner/shared';
+import { ErrorParser } from './error-parser';
+
+/**
+ * Fields of a parsed error that a fixture is checked against
+ */
+interface ExpectedError {
+  filePath?: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  message: string;
+  /** TypeScript/Rolldown error code, or the rule of linter errors */
+  code?: string;
+}
+
+/**
+ * A captured tool output with the detection and errors it should produce
+ */
+interface FixtureCase {
+  fixture: string;
+  type: ParsedError['type'];
+  parser: string;
+  confidence: number;
+  errors: ExpectedError[];
+}
+
+/**
+ * Reads a captured tool output
+ * @param name - File name in ./fixtures
+ * @returns Fixture content
+ */
+function readFixture(name: string): string {
+  return readFileSync(path.join(import.meta.dir, 'fixtures', name), 'utf-8');
+}
+
+const cases: FixtureCase[] = [
+  {
+    fixture: 'tsc-pretty.txt',
+    type: 'compiler',
+    parser: 'tsc-pretty',
+    confidence: 0.72,
+    errors: [
+      { filePath: 'bad.ts', lineNumber: 1, columnNumber: 7, message: "Type 'string' is not assignable to type 'number'.", code: 'TS2322' },
+      { filePath: 'bad.ts', lineNumber: 2, columnNumber: 41, message: "Property 'c' does not exist on type '{ b: string; }'.", code: 'TS2339' },
+      { filePath: 'bad.ts', lineNumber: 3, columnNumber: 26, message: "Type 'string' is not assignable to type 'number'.", code: 'TS2322' }
+    ]
+  },
+  {
+    fixture: 'eslint-stylish.txt',
+    type: 'linter',
+    parser: 'eslint-stylish',
+    confidence: 0.9,
+    errors: [
+      { filePath: '/tmp/cap/lint/app.ts', lineNumber: 3, columnNumber: 37, message: 'Unexpected any. Specify a different type', code: '@typescript-eslint/no-explicit-any' },
+      { filePath: '/tmp/cap/lint/app.ts', lineNumber: 4, columnNumber: 9, message: "'unused' is assigned a value but never used", code: '@typescript-eslint/no-unused-vars' },
+      { filePath: '/tmp/cap/lint/app.ts', lineNumber: 5, columnNumber: 7, message: "'text' is never reassigned. Use 'const' instead", code: 'prefer-const' },
+      { filePath: '/tmp/cap/lint/app.ts', lineNumber: 6, columnNumber: 12, message: "Expected '===' and instead saw '=='", code: 'eqeqeq' },
+      { filePath: '/tmp/cap/lint/app.ts', lineNumber: 7, columnNumber: 5, message: "Unexpected 'debugger' statement", code: 'no-debugger' }
+    ]
+  },
+  {
+    fixture: 'eslint-json.txt',
+    type: 'linter',
+    parser: 'eslint-json',
+    confidence: 1,
+    errors: [
+      { filePath: '/tmp/cap/lint/app.ts', lineNumber: 3, columnNumber: 37, message: 'Unexpected any. Specify a different type.', code: '@typescript-eslint/no-explicit-any' },
+      { filePath: '/tmp/cap/lint/app.ts', lineNumber: 4, columnNumber: 9, message: "'unused' is assigned a value but never used.", code: '@typescript-eslint/no-unused-vars' },
+      { filePath: '/tmp/cap/lint/app.ts', lineNumber: 5, columnNumber: 7, message: "'text' is never reassigned. Use 'const' instead.", code: 'prefer-const' },
+      { filePath: '/tmp/cap/lint/app.ts', lineNumber: 6, columnNumber: 12, message: "Expected '===' and instead saw '=='.", code: 'eqeqeq' },
+      { filePath: '/tmp/cap/lint/app.ts', lineNumber: 7, columnNumber: 5, message: "Unexpected 'debugger' statement.", code: 'no-debugger' }
+    ]
+  },
+  {
+    fixture: 'biome.txt',
+    type: 'linter',
+    parser: 'biome',
+    confidence: 0.65,
+    errors: [
+      { filePath: 'lint/app.ts', lineNumber: 1, columnNumber: 30, message: 'A Node.js builtin module should be imported with the node: protocol.', code: 'lint/style/useNodejsImportProtocol' },
+      { filePath: 'lint/app.ts', lineNumber: 3, columnNumber: 37, message: 'Unexpected any. Specify a different type.', code: 'lint/suspicious/noExplicitAny' },
+      { filePath: 'lint/app.ts', lineNumber: 4, columnNumber: 9, message: 'This variable unused is unused.', code: 'lint/correctness/noUnusedVariables' },
+      { filePath: 'lint/app.ts', lineNumber: 5, columnNumber: 3, message: 'This let declares a variable that is only assigned once.', code: 'lint/style/useConst' },
+      { filePath: 'lint/app.ts', lineNumber: 7, columnNumber: 5, message: 'This is an unexpected use of the debugger statement.', code: 'lint/suspicious/noDebugger' }
+    ]
+  },
+  {
+    fixture: 'esbuild.txt',
+    type: 'compiler',
+    parser: 'esbuild',
+    confidence: 0.73,
+    errors: [
+      // esbuild prints 0-based columns (2:24)
+      { filePath: 'bld/main.ts', lineNumber: 2, columnNumber: 25, message: 'Could not resolve "./does-not-exist"' }
+    ]
+  },
+  {
+    fixture: 'vite5-resolve.txt',
+    type: 'compiler',
+    parser: 'vite',
+    confidence: 0.65,
+    errors: [
+      { filePath: 'bld/main.ts', message: 'Could not resolve "./does-not-exist" from "bld/main.ts"' }
+    ]
+  },
+  {
+    fixture: 'vite5-transform.txt',
+    type: 'compiler',
+    parser: 'vite',
+    confidence: 0.4,
+    errors: [
+      { filePath: '/tmp/cap5/syn/main.ts', lineNumber: 2, columnNumber: 51, message: 'Expected ")" but found ";"' }
+    ]
+  },
+  {
+    fixture: 'vite8-resolve.txt',
+    type: 'compiler',
+    parser: 'vite',
+    confidence: 0.5,
+    errors: [
+      { filePath: 'bld/main.ts', lineNumber: 2, columnNumber: 25, message: "Could not resolve './does-not-exist' in bld/main.ts", code: 'UNRESOLVED_IMPORT' }
+    ]
+  },
+  {
+    fixture: 'vite8-transform.txt',
+    type: 'compiler',
+    parser: 'vite',
+    confidence: 0.5,
+    errors: [
+      { filePath: 'syn/main.ts', lineNumber: 2, columnNumber: 51, message: 'Expected `,` or `)` but found `;`' }
+    ]
+  },
+  {
+    fixture: 'jest.txt',
+    type: 'runtime',
+    parser: 'jest',
+    confidence: 0.5,
+    errors: [
+      {
+        filePath: 'cart.test.js',
+        lineNumber: 5,
+        columnNumber: 75,
+        message: 'Test "cart › adds up prices" failed: expect(received).toBe(expected) // Object.is equality\nExpected: 8\nReceived: 7'
+      },
+      {
+        filePath: 'cart.js',
+        lineNumber: 6,
+        columnNumber: 24,
+        message: `Test "cart › applies a discount code" failed: TypeError: Cannot read properties of undefined (reading 'SPRING')`
+      }
+    ]
+  },
+  {
+    fixture: 'vitest.txt',
+    type: 'runtime',
+    parser: 'vitest',
+    confidence: 0.54,
+    errors: [
+      {
+        filePath: 'cart.test.ts',
+        lineNumber: 6,
+        columnNumber: 75,
+        message: 'Test "cart > adds up prices" failed: AssertionError: expected 7 to be 8 // Object.is equality\n- Expected\n+ Received\n- 8\n+ 7'
+      },
+      {
+        filePath: 'cart.ts',
+        lineNumber: 6,
+        columnNumber: 15,
+        message: `Test "cart > applies a discount code" failed: TypeError: Cannot read properties of undefined (reading 'SPRING')`
+      }
+    ]
+  },
+  {
+    fixture: 'bun-test.txt',
+    type: 'runtime',
+    parser: 'bun-test',
+    confidence: 0.53,
+    errors: [
+      {
+        filePath: '/tmp/bt/sum.test.ts',
+        lineNumber: 5,
+        columnNumber: 23,
+        message: 'Test "sum > adds numbers" failed: expect(received).toBe(expected)\nExpected: 4\nReceived: 5'
+      },
+      {
+        filePath: '/tmp/bt/sum.test.ts',
+        lineNumber: 9,
+        columnNumber: 20,
+        message: `Test "sum > throws" failed: TypeError: undefined is not an object (evaluating '(void 0).x')`
+      }
+    ]
+  }
+];
+
+describe('ErrorParser', () => {
+  const parser = new ErrorParser();
+
+  for (const { fixture, type, parser: parserName, confidence, errors } of cases) {
+    describe(fixture, () => {
+      const input = readFixture(fixture);
+
+      test(`is detected as ${parserName}`, () => {
+        expect(parser.detectErrorType(input)).toEqual({ type, parser: parserName, confidence });
+      });
+
+      test('parses every error with its location', () => {
+        const parsed = parser.parseError(input);
+
+        expect(parsed.map(error => ({
+          filePath: error.filePath,
+          lineNumber: error.lineNumber,
+          columnNumber: error.columnNumber,
+          message: error.message,
+          code: error.errorCode ?? error.rule
+        }))).toEqual(errors.map(error => ({
+          filePath: error.filePath,
+          lineNumber: error.lineNumber,
+          columnNumber: error.columnNumber,
+          message: error.message,
+          code: error.code
+        })));
+        expect(parsed.every(error => error.type === type)).toBe(true);
+      });
+    });
+  }
+});
+
+describe('ErrorParser.deduplicateErrors', () => {
+  const parser = new ErrorParser();
+
+  /**
+   * Parses tsc output and reduces it to root causes
+   * @param lines - tsc error lines
+   * @returns Each root cause's location with the locations merged into it
+   */
+  function rootCauses(lines: string[]): Array<{ id: string; at: string; related: string[] }> {
+    return parser.deduplicateErrors(parser.parseError(lines.join('\n'))).map(({ id, error, related }) => ({
+      id,
+      at: `${error.filePath}:${error.lineNumber}`,
+      related: related.map(other => `${other.filePath}:${other.lineNumber}`)
+    }));
+  }
+
+  test('keeps the same error in different files apart', () => {
+    expect(rootCauses([
+      "src/a.ts(3,5): error TS2532: Object is possibly 'undefined'.",
+      "src/b.ts(7,5): error TS2532: Object is possibly 'undefined'.",
+      "src/a.ts(9,5): error TS2532: Object is possibly 'undefined'."
+    ])).toEqual([
+      { id: 'E1', at: 'src/a.ts:3', related: ['src/a.ts:9'] },
+      { id: 'E2', at: 'src/b.ts:7', related: [] }
+    ]);
+  });
+
+  test('merges a missing declaration used across files', () => {
+    expect(rootCauses([
+      "src/a.ts(3,5): error TS2304: Cannot find name 'config'.",
+      "src/b.ts(7,5): error TS2304: Cannot find name 'config'.",
+      "src/b.ts(8,5): error TS2304: Cannot find name 'logger'."
+    ])).toEqual([
+      { id: 'E1', at: 'src/a.ts:3', related: ['src/b.ts:7'] },
+      { id: 'E2', at: 'src/b.ts:8', related: [] }
+    ]);
+  });
+
+  test('attributes the errors after a syntax error to it', () => {
+    expect(rootCauses([
+      "src/a.ts(2,10): error TS1005: ';' expected.",
+      "src/a.ts(5,3): error TS2532: Object is possibly 'undefined'.",
+      "src/b.ts(4,10): error TS1005: ';' expected.",
+      "src/b.ts(6,3): error TS2304: Cannot find name 'config'."
+    ])).toEqual([
+      { id: 'E1', at: 'src/a.ts:2', related: ['src/a.ts:5'] },
+      { id: 'E2', at: 'src/b.ts:4', related: ['src/b.ts:6'] }
+    ]);
+  });
+});
@@ -6,7 +6,171 @@
  * for debugging and analysis purposes.
  */
 
-import type { ParsedError, StackFrame } from '@codeplanner/shared';
+import type { ErrorDetection, ParsedError, StackFrame } from '@codeplanner/shared';
+import type { RootCauseGroup } from '../types';
+
+/**
+ * An error output format recognized by detection
+ */
+interface ErrorFormat {
+  /** Parser name reported in detections */
+  parser: string;
+  /** Error type the format produces */
+  type: ParsedError['type'];
+  /** Patterns of lines that belong to the format, weighted by how specific they are */
+  lines: Array<{ pattern: RegExp; weight: number }>;
+}
+
+/**
+ * Recognized formats; the parser with the highest weighted line count wins
+ * Diagnostic lines outweigh stack frames, since one error often comes with many frames
+ * (and build tools wrap compiler output in a stack trace of their own)
+ */
+const ERROR_FORMATS: ErrorFormat[] = [
+  {
+    parser: 'tsc',
+    type: 'compiler',
+    lines: [
+      // file.ts(line,col): error TS####: message, or the same without a code
+      { pattern: /^.+?\(\d+,\d+\):\s+(error|warning)(\s+TS\d+)?:\s/, weight: 2 }
+    ]
+  },
+  {
+    parser: 'tsc-pretty',
+    type: 'compiler',
+    lines: [
+      // file.ts:line:col - error TS####: message
+      { pattern: /^\S.*?:\d+:\d+ - (error|warning) TS\d+:\s/, weight: 2 }
+    ]
+  },
+  {
+    parser: 'vite',
+    type: 'compiler',
+    lines: [
+      // [vite]: message, [vite:esbuild] message, [plugin:vite:import-analysis] message
+      { pattern: /^\s*\[(plugin:)?vite(:[\w-]+)?\]:?\s/, weight: 2 },
+      // Vite 8 (Rolldown): [UNRESOLVED_IMPORT] message, [builtin:vite-transform] message
+      { pattern: /^\[([A-Z][A-Z_]+|[a-z][\w-]*:[\w:-]+)\]\s+\S/, weight: 1 },
+      { pattern: /^error during build:\s*$/, weight: 1 },
+      { pattern: /^Build failed with \d+ errors?:\s*$/, weight: 1 },
+      // file: /abs/src/main.ts:3:6 (without position for resolution errors)
+      { pattern: /^file: \S+\s*$/, weight: 1 },
+      //    ╭─[ src/main.ts:2:25 ]
+      { pattern: /^\s*╭─\[\s*\S.*:\d+:\d+\s*\]\s*$/, weight: 1 },
+      // vite v5.4.21 building for production..., ✓ 2 modules transformed., x Build failed in 52ms
+      { pattern: /^(vite v\d\S* building\b|transforming\.\.\.$|✓ \d+ modules? transformed|[x✗] Build failed in )/, weight: 0.5 }
+    ]
+  },
+  {
+    parser: 'esbuild',
+    type: 'compiler',
+    lines: [
+      // ✘ [ERROR] message
+      { pattern: /^\s*[✘X▲]\s+\[(ERROR|WARNING)\]\s/, weight: 2 },
+      // file:line:col: ERROR: message
+      { pattern: /^.+?:\d+:\d+: (ERROR|WARNING): /, weight: 2 }
+    ]
+  },
+  {
+    parser: 'eslint',
+    type: 'linter',
+    lines: [
+      // file:line:col: level message (rule)
+      { pattern: /^.+?:\d+:\d+:\s+(error|warning|info)\s+.+\(.+\)\s*$/, weight: 2 }
+    ]
+  },
+  {
+    parser: 'eslint-stylish',
+    type: 'linter',
+    lines: [
+      //   line:col  level  message  rule (below a file path line)
+      { pattern: /^\s+\d+:\d+\s+(error|warning)\s+\S/, weight: 2 },
+      // ✖ 3 problems (2 errors, 1 warning)
+      { pattern: /^\s*✖ \d+ problems? \(/, weight: 1 }
+    ]
+  },
+  {
+    parser: 'biome',
+    type: 'linter',
+    lines: [
+      // file:line:col category ━━━━━━ (category: lint/group/rule, parse, format, ...)
+      { pattern: /^\S.*?\s+[a-z]\w*(\/[\w-]+)*(\s+[A-Z]+)*\s+━{3,}\s*$/, weight: 2 }
+    ]
+  },
+  {
+    parser: 'jest',
+    type: 'runtime',
+    lines: [
+      //  FAIL  src/sum.test.ts
+      { pattern: /^\s*FAIL\s+[^>]+$/, weight: 1 },
+      //   ● describe › test
+      { pattern: /^\s*● \S/, weight: 2 }
+    ]
+  },
+  {
+    parser: 'vitest',
+    type: 'runtime',
+    lines: [
+      //  FAIL  src/sum.test.ts > describe > test
+      { pattern: /^\s*FAIL\s+.+ > .+$/, weight: 2 },
+      // ⎯⎯⎯ Failed Tests 2 ⎯⎯⎯
+      { pattern: /^⎯+ Failed (Tests|Suites) \d+ ⎯+$/, weight: 1 },
+      //  ❯ src/sum.test.ts:5:23
+      { pattern: /^\s*❯\s+.*?\S+:\d+:\d+\s*$/, weight: 0.5 }
+    ]
+  },
+  {
+    parser: 'bun-test',
+    type: 'runtime',
+    lines: [
+      // (fail) describe > test [0.35ms]
+      { pattern: /^\s*(\(fail\)|✗)\s+.+$/, weight: 2 },
+      // error: expect(received).toBe(expected)
+      { pattern: /^error: /, weight: 1 }
+    ]
+  },
+  {
+    parser: 'v8-stack',
+    type: 'runtime',
+    lines: [
+      // TypeError: message, Uncaught Error: message
+      { pattern: /^\s*(Uncaught\s+)?([A-Z]\w*)?(Error|Exception)(\s*\[\w+\])?:\s/, weight: 1 },
+      // at fn (file:line:col) or at file:line:col
+      { pattern: /^\s*at\s+(.+?\s+\()?.+?:\d+:\d+\)?(\s+\[as\s+.+\])?\s*$/, weight: 0.25 }
+    ]
+  }
+];
+
+/** Default parser of each error type, used when no format matches */
+const DEFAULT_PARSERS: Record<ParsedError['type'], string> = {
+  compiler: 'tsc',
+  linter: 'eslint',
+  runtime: 'generic'
+};
+
+/** Lines of code frames printed under errors (numbered source lines, gutters and carets) */
+const CODE_FRAME_LINE = /^\s*(>\s*)?(\d+\s*)?[|│╵]|^\s*[\^~]+\s*$|^\s*─+╯\s*$/;
+
+/** Lines of a test failure kept after its first message line (assertion diffs) */
+const MAX_DETAIL_LINES = 6;
+
+/** Matches ANSI escape sequences (colors in pretty terminal output) */
+const ANSI_PATTERN = /\u001b\[[0-9;]*[A-Za-z]/g;
+
+/** TypeScript codes of errors about unresolved modules and imports */
+const MODULE_ERROR_CODES = new Set(['TS2305', 'TS2306', 'TS2307', 'TS2614', 'TS2792', 'TS7016']);
+
+/** TypeScript codes of errors about missing or conflicting declarations */
+const DECLARATION_ERROR_CODES = new Set(['TS2300', 'TS2304', 'TS2448', 'TS2451', 'TS2552', 'TS2582']);
+
+/**
+ * Removes terminal colors so pretty output parses like plain output
+ * @param input - Raw error input
+ * @returns Input without ANSI escape sequences, trimmed
+ */
+function stripAnsi(input: string): string {
+  return input.replace(ANSI_PATTERN, '').replace(/\r\n/g, '\n').trim();
+}
 
 /**
  * Error parser for different types of programming errors
@@ -75,55 +239,231 @@ export class ErrorParser {
     const message = lines[0] || 'Unknown runtime error';
     const frames: StackFrame[] = [];
     
+    for (let i = 1; i < lines.length; i++) {
+      const frame = this.parseStackFrame(lines[i]);
+      if (frame) {
+        frames.push(frame);
+      }
+    }
+    
+    return {
+      type: 'runtime',
+      message: message.trim(),
+      filePath: frames[0]?.filePath,
+      lineNumber: frames[0]?.lineNumber,
+      columnNumber: frames[0]?.columnNumber,
+      stackTrace: frames,
+      rawError: stackTrace
+    };
+  }
+
+  /**
+   * Parses one stack frame line
+   * Supports V8 frames (at fn (file:line:col), at file:line:col) and Vitest frames (❯ fn file:line:col)
+   * @param line - Line of a stack trace
+   * @returns Parsed frame, or undefined if the line is not a frame
+   */
+  private parseStackFrame(line: string): StackFrame | undefined {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      return undefined;
+    }
+    
     // Parse stack frames - various formats supported
     const frameRegexes = [
       // Standard format: at functionName (file:line:col)
       /at\s+(.+?)\s+\((.+?):(\d+):(\d+)\)/,
       // Alternative format: at file:line:col
       /at\s+(.+?):(\d+):(\d+)/,
-      // Node.js internal format
-      /at\s+(.+?)\s+\((.+?):(\d+):(\d+)\)\s+\[as\s+(.+?)\]/
+      // Vitest format: ❯ functionName file:line:col
+      /^❯\s+(\S+)\s+(\S+?):(\d+):(\d+)$/,
+      // Vitest format: ❯ file:line:col
+      /^❯\s+(\S+?):(\d+):(\d+)$/
     ];
     
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-      
-      for (const regex of frameRegexes) {
-        const match = regex.exec(line);
-        if (match) {
-          if (match.length >= 5) {
-            // Full format with function name
-            frames.push({
-              functionName: match[1],
-              filePath: match[2],
-              lineNumber: parseInt(match[3]),
-              columnNumber: parseInt(match[4])
-            });
-          } else if (match.length >= 4) {
-            // Simplified format
-            frames.push({
-              filePath: match[1],
-              lineNumber: parseInt(match[2]),
-              columnNumber: parseInt(match[3])
-            });
-          }
-          break;
+    for (const regex of frameRegexes) {
+      const match = regex.exec(trimmed);
+      if (match) {
+        if (match.length >= 5) {
+          // Full format with function name
+          return {
+            functionName: match[1],
+            filePath: match[2],
+            lineNumber: parseInt(match[3]),
+            columnNumber: parseInt(match[4])
+          };
         }
+        // Simplified format
+        return {
+          filePath: match[1],
+          lineNumber: parseInt(match[2]),
+          columnNumber: parseInt(match[3])
+        };
+      }
+    }
+    
+    return undefined;
+  }
+
+  /**
+   * Parses TypeScript compiler errors printed with --pretty (the default in a terminal)
+   * @param errorOutput - Raw tsc output, ANSI colors removed
+   * @returns Array of parsed error objects
+   */
+  parseTypeScriptPrettyError(errorOutput: string): ParsedError[] {
+    const errors: ParsedError[] = [];
+    const lines = errorOutput.split('\n');
+    
+    for (let i = 0; i < lines.length; i++) {
+      // file.ts:line:col - error TS####: message
+      const match = /^(\S.*?):(\d+):(\d+) - (error|warning) TS(\d+): (.+)$/.exec(lines[i]);
+      if (!match) continue;
+      
+      const [, filePath, lineStr, colStr, severity, errorCode, message] = match;
+      // Elaborations ("Type 'x' is not assignable to ...") follow as indented lines
+      const elaboration: string[] = [];
+      while (i + 1 < lines.length && /^\s+\S/.test(lines[i + 1]) && !CODE_FRAME_LINE.test(lines[i + 1])) {
+        elaboration.push(lines[++i].trim());
+      }
+      
+      errors.push({
+        type: 'compiler',
+        filePath: filePath.trim(),
+        lineNumber: parseInt(lineStr),
+        columnNumber: parseInt(colStr),
+        message: [message.trim(), ...elaboration].join('\n'),
+        rawError: [match[0], ...elaboration].join('\n'),
+        errorCode: `TS${errorCode}`,
+        severity
+      });
+    }
+    
+    return errors;
+  }
+
+  /**
+   * Parses Vite and esbuild build errors
+   * Handles esbuild's ✘ [ERROR] blocks and file:line:col: ERROR: lines, Vite's
+   * [vite:plugin] messages with their file: location lines, Rollup messages printed
+   * without a prefix (Vite 5) and Rolldown's [CODE] messages with ╭─[ location lines (Vite 8)
+   * @param buildOutput - Raw build output, ANSI colors removed
+   * @returns Array of parsed error objects
+   */
+  parseBundlerError(buildOutput: string): ParsedError[] {
+    const errors: ParsedError[] = [];
+    const lines = buildOutput.split('\n');
+    
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      
+      // esbuild block: ✘ [ERROR] message [id], location on a following indented line
+      const block = /^\s*([✘X▲])\s+\[(ERROR|WARNING)\]\s+(.+?)(\s+\[[\w:-]+\])?\s*$/.exec(line);
+      if (block) {
+        const location = this.findLocation(lines, i, /^\s+(.+?):(\d+):(\d+):\s*$/);
+        errors.push({
+          type: 'compiler',
+          message: block[3],
+          // esbuild reports 0-based columns
+          ...(location && { ...location, columnNumber: location.columnNumber + 1 }),
+          rawError: line.trim(),
+          severity: block[2].toLowerCase()
+        });
+        continue;
+      }
+      
+      // esbuild line (also inside Vite's "Transform failed" errors): file:line:col: ERROR: message
+      const inline = /^(?!file:\s)(.+?):(\d+):(\d+): (ERROR|WARNING): (.+)$/.exec(line.trim());
+      if (inline) {
+        errors.push({
+          type: 'compiler',
+          filePath: inline[1],
+          lineNumber: parseInt(inline[2]),
+          columnNumber: parseInt(inline[3]) + 1,
+          message: inline[5].trim(),
+          rawError: line.trim(),
+          severity: inline[4].toLowerCase()
+        });
+        continue;
+      }
+      
+      // Vite: [vite]: message, [vite:esbuild] message, [plugin:vite:import-analysis] message
+      const vite = /^\s*\[(?:plugin:)?vite(?::[\w-]+)?\]:?\s+(.+)$/.exec(line);
+      if (vite) {
+        const message = vite[1].trim();
+        // The esbuild lines that follow carry the actual errors
+        if (/^Transform failed with \d+ errors?:?$/.test(message)) continue;
+        
+        errors.push(this.parseRollupError(lines, i, message));
+        continue;
+      }
+      
+      // Vite 8 (Rolldown): [UNRESOLVED_IMPORT] message or [builtin:vite-transform] message
+      const rolldown = /^\[([A-Z][A-Z_]+|[a-z][\w-]*:[\w:-]+)\]\s+(.+)$/.exec(line);
+      if (rolldown) {
+        const location = this.findLocation(lines, i, /^\s*╭─\[\s*(.+?):(\d+):(\d+)\s*\]\s*$/);
+        errors.push({
+          type: 'compiler',
+          message: rolldown[2].trim(),
+          ...location,
+          ...(/^[A-Z_]+$/.test(rolldown[1]) && { errorCode: rolldown[1] }),
+          rawError: line.trim(),
+          severity: 'error'
+        });
+        continue;
+      }
+      
+      // Vite 5 (Rollup) prints resolution errors without a prefix after "error during build:"
+      const next = lines[i + 1]?.trim();
+      if (/^error during build:\s*$/.test(line) && next && !/^\[|^Build failed with /.test(next)) {
+        errors.push(this.parseRollupError(lines, i + 1, next));
+        i++;
       }
     }
     
+    return errors;
+  }
+
+  /**
+   * Builds a parsed error from a Rollup message printed by Vite
+   * @param lines - Output lines
+   * @param index - Index of the message line
+   * @param message - Message without Vite's prefix
+   * @returns Error located by the file: line, or at the importer for resolution errors
+   */
+  private parseRollupError(lines: string[], index: number, message: string): ParsedError {
+    const location = this.findLocation(lines, index, /^\s*(?:file:\s+)?(\S.*?):(\d+):(\d+)\s*$/);
+    // Rollup resolution errors only name the importing file
+    const importer = /\sfrom "(.+?)"/.exec(message);
     return {
-      type: 'runtime',
-      message: message.trim(),
-      filePath: frames[0]?.filePath,
-      lineNumber: frames[0]?.lineNumber,
-      columnNumber: frames[0]?.columnNumber,
-      stackTrace: frames,
-      rawError: stackTrace
+      type: 'compiler',
+      message,
+      ...(location || (importer && { filePath: importer[1] })),
+      rawError: lines[index].trim(),
+      severity: 'error'
     };
   }
 
+  /**
+   * Finds the location line that follows an error header
+   * @param lines - Output lines
+   * @param index - Index of the header line
+   * @param pattern - Location pattern capturing file, line and column
+   * @returns Location, or undefined if none follows within a few lines
+   */
+  private findLocation(
+    lines: string[],
+    index: number,
+    pattern: RegExp
+  ): { filePath: string; lineNumber: number; columnNumber: number } | undefined {
+    for (let i = index + 1; i < Math.min(lines.length, index + 4); i++) {
+      const match = pattern.exec(lines[i]);
+      if (match) {
+        return { filePath: match[1].trim(), lineNumber: parseInt(match[2]), columnNumber: parseInt(match[3]) };
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Parses linter errors (ESLint, etc.)
    * @param linterOutput - Raw linter output
@@ -154,6 +494,264 @@ export class ErrorParser {
     return errors;
   }
 
+  /**
+   * Parses ESLint's default "stylish" output: a file path line followed by indented
+   * line:col level message rule lines
+   * @param linterOutput - Raw ESLint output, ANSI colors removed
+   * @returns Array of parsed error objects
+   */
+  parseEslintStylishError(linterOutput: string): ParsedError[] {
+    const errors: ParsedError[] = [];
+    let filePath: string | undefined;
+    
+    for (const line of linterOutput.split('\n')) {
+      // The rule is separated from the message by two or more spaces (fatal parsing errors have none)
+      const match = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?\s*$/.exec(line);
+      if (match) {
+        const [, lineStr, colStr, level, message, rule] = match;
+        errors.push({
+          type: 'linter',
+          filePath,
+          lineNumber: parseInt(lineStr),
+          columnNumber: parseInt(colStr),
+          message: message.trim(),
+          rawError: line.trim(),
+          severity: level,
+          ...(rule && { rule })
+        });
+      } else if (/^\S/.test(line) && !/^✖ /.test(line)) {
+        filePath = line.trim();
+      }
+    }
+    
+    return errors;
+  }
+
+  /**
+   * Parses ESLint's JSON formatter output (eslint -f json)
+   * @param linterOutput - JSON array of ESLint results
+   * @returns Array of parsed error objects
+   */
+  parseEslintJsonError(linterOutput: string): ParsedError[] {
+    const results = this.readEslintJson(linterOutput) || [];
+    
+    return results.flatMap(result => result.messages.map(message => ({
+      type: 'linter' as const,
+      filePath: result.filePath,
+      lineNumber: message.line,
+      columnNumber: message.column,
+      // Fatal messages are parsing errors and already say so
+      message: message.message,
+      rawError: JSON.stringify(message),
+      severity: message.severity === 2 ? 'error' : 'warning',
+      ...(message.ruleId && { rule: message.ruleId })
+    })));
+  }
+
+  /**
+   * Reads ESLint JSON formatter output
+   * @param input - Raw input
+   * @returns ESLint results, or undefined if the input is not ESLint JSON
+   */
+  private readEslintJson(input: string): Array<{
+    filePath: string;
+    messages: Array<{ ruleId?: string | null; severity: number; message: string; line?: number; column?: number }>;
+  }> | undefined {
+    if (!input.startsWith('[')) {
+      return undefined;
+    }
+    
+    try {
+      const results = JSON.parse(input);
+      const valid = Array.isArray(results) && results.length > 0 &&
+        results.every(result => typeof result?.filePath === 'string' && Array.isArray(result.messages));
+      return valid ? results : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Parses Biome diagnostics (biome check / biome lint)
+   * Each diagnostic starts with a file:line:col category ━━━ header and its message follows
+   * on a line marked ✖ (error), ⚠ (warning) or ℹ (info)
+   * @param linterOutput - Raw Biome output, ANSI colors removed
+   * @returns Array of parsed error objects
+   */
+  parseBiomeError(linterOutput: string): ParsedError[] {
+    const errors: ParsedError[] = [];
+    const lines = linterOutput.split('\n');
+    const severities: Record<string, string> = { '✖': 'error', '×': 'error', '⚠': 'warning', '!': 'warning', 'ℹ': 'info', 'i': 'info' };
+    
+    for (let i = 0; i < lines.length; i++) {
+      const header = /^(\S.*?)(?::(\d+):(\d+))?\s+([a-z]\w*(?:\/[\w-]+)*)(?:\s+[A-Z]+)*\s+━{3,}\s*$/.exec(lines[i]);
+      if (!header) continue;
+      
+      const [, filePath, lineStr, colStr, category] = header;
+      let severity = 'error';
+      let message = category;
+      for (let j = i + 1; j < lines.length && !/━{3,}\s*$/.test(lines[j]); j++) {
+        const marker = /^\s*([✖×⚠!ℹi])\s+(.+)$/.exec(lines[j]);
+        if (marker) {
+          severity = severities[marker[1]];
+          message = marker[2].trim();
+          break;
+        }
+      }
+      
+      errors.push({
+        type: 'linter',
+        filePath: filePath.trim(),
+        ...(lineStr && { lineNumber: parseInt(lineStr), columnNumber: parseInt(colStr) }),
+        message,
+        rawError: lines[i].replace(/\s*━+\s*$/, ''),
+        severity,
+        rule: category
+      });
+    }
+    
+    return errors;
+  }
+
+  /**
+   * Parses Jest failure blocks (● describe › test, below a FAIL file line)
+   * @param testOutput - Raw Jest output, ANSI colors removed
+   * @returns One parsed error per failed test
+   */
+  parseJestError(testOutput: string): ParsedError[] {
+    const errors: ParsedError[] = [];
+    let testFile: string | undefined;
+    let title: string | undefined;
+    let block: string[] = [];
+    
+    const flush = () => {
+      if (title) {
+        errors.push(this.parseTestFailure(title, block, testFile));
+      }
+      title = undefined;
+      block = [];
+    };
+    
+    for (const line of testOutput.split('\n')) {
+      const file = /^\s*(?:FAIL|PASS)\s+(.+?)(\s+\([\d.]+ m?s\))?\s*$/.exec(line);
+      const failure = /^\s*● (.+)$/.exec(line);
+      if (file || failure || /^(Test Suites|Tests|Summary of all failing tests):/.test(line)) {
+        flush();
+        testFile = file ? file[1] : testFile;
+        title = failure?.[1].trim();
+      } else if (title) {
+        block.push(line);
+      }
+    }
+    flush();
+    
+    return errors;
+  }
+
+  /**
+   * Parses Vitest failure blocks ( FAIL  file > describe > test, followed by the error)
+   * Vitest prints several FAIL lines above one error when tests fail the same way
+   * @param testOutput - Raw Vitest output, ANSI colors removed
+   * @returns One parsed error per failed test
+   */
+  parseVitestError(testOutput: string): ParsedError[] {
+    const errors: ParsedError[] = [];
+    let titles: Array<{ file: string; title: string }> = [];
+    let block: string[] = [];
+    
+    const flush = () => {
+      for (const { file, title } of titles) {
+        errors.push(this.parseTestFailure(title, block, file));
+      }
+      titles = [];
+      block = [];
+    };
+    
+    for (const line of testOutput.split('\n')) {
+      const failure = /^\s*FAIL\s+(.+?)(?: > (.+?))?\s*$/.exec(line);
+      if (failure) {
+        // Consecutive FAIL lines share the error below them
+        if (block.some(blockLine => blockLine.trim())) {
+          flush();
+        }
+        // Suite-level failures read "FAIL  file [ file ]"
+        const file = failure[1].replace(/\s*\[.*\]$/, '');
+        titles.push({ file, title: failure[2] || file });
+      } else if (/^⎯{3,}/.test(line) || /^\s*Test Files\s/.test(line)) {
+        flush();
+      } else if (titles.length > 0) {
+        block.push(line);
+      }
+    }
+    flush();
+    
+    return errors;
+  }
+
+  /**
+   * Parses bun test failures: the code frame, error and stack come first, followed by
+   * the (fail) describe > test line
+   * @param testOutput - Raw bun test output, ANSI colors removed
+   * @returns One parsed error per failed test
+   */
+  parseBunTestError(testOutput: string): ParsedError[] {
+    const errors: ParsedError[] = [];
+    let testFile: string | undefined;
+    let block: string[] = [];
+    
+    for (const line of testOutput.split('\n')) {
+      const result = /^\s*(?:\((pass|fail|skip|todo)\)|([✓✗»]))\s+(.+?)(\s+\[[\d.]+m?s\])?\s*$/.exec(line);
+      const file = /^(\S.*\.(?:test|spec|_test|_spec)\.[cm]?[jt]sx?):$/.exec(line);
+      if (result) {
+        if (result[1] === 'fail' || result[2] === '✗') {
+          errors.push(this.parseTestFailure(result[3], block, testFile));
+        }
+        block = [];
+      } else if (file) {
+        testFile = file[1];
+        block = [];
+      } else {
+        block.push(line);
+      }
+    }
+    
+    return errors;
+  }
+
+  /**
+   * Builds a parsed error from the lines printed for one failed test
+   * The first line that is not part of a code frame is the error message; the lines after
+   * it (e.g. Expected/Received) are kept as details until the stack starts
+   * @param title - Test name (describe › test)
+   * @param block - Lines of the failure
+   * @param testFile - Test file the failure was reported under
+   * @returns Parsed runtime error located at the first stack frame outside node_modules
+   */
+  private parseTestFailure(title: string, block: string[], testFile?: string): ParsedError {
+    const frames: StackFrame[] = [];
+    const message: string[] = [];
+    
+    for (const line of block) {
+      const frame = this.parseStackFrame(line);
+      if (frame) {
+        frames.push(frame);
+      } else if (frames.length === 0 && line.trim() && !CODE_FRAME_LINE.test(line) && message.length <= MAX_DETAIL_LINES) {
+        message.push(message.length === 0 ? line.trim().replace(/^error:\s*/, '') : line.trim());
+      }
+    }
+    
+    const location = frames.find(frame => !frame.filePath.includes('node_modules')) || frames[0];
+    return {
+      type: 'runtime',
+      message: `Test "${title}" failed: ${message.join('\n') || 'Unknown failure'}`,
+      filePath: location?.filePath || testFile,
+      lineNumber: location?.lineNumber,
+      columnNumber: location?.columnNumber,
+      ...(frames.length > 0 && { stackTrace: frames }),
+      rawError: [title, ...block].join('\n').trim()
+    };
+  }
+
   /**
    * Parses generic error messages and attempts to extract structure
    * @param errorMessage - Generic error message
@@ -194,28 +792,99 @@ export class ErrorParser {
   /**
    * Automatically detects error type and parses accordingly
    * @param errorInput - Raw error input
-   * @returns Parsed error object(s)
+   * @returns Parsed errors
+   */
+  parseError(errorInput: string): ParsedError[] {
+    return this.parseDetected(errorInput, this.detectErrorType(errorInput));
+  }
+
+  /**
+   * Detects the format of an error input by scoring the lines each known format matches
+   * Confidence combines how many of the input's lines the winning format explains with
+   * how clearly its score beats the other formats
+   * @param errorInput - Raw error input
+   * @param errorType - Restricts detection to formats of this type ('auto' or omitted: any)
+   * @returns Chosen parser with its confidence
    */
-  parseError(errorInput: string): ParsedError | ParsedError[] {
-    const input = errorInput.trim();
+  detectErrorType(errorInput: string, errorType?: ParsedError['type'] | 'auto'): ErrorDetection {
+    const input = stripAnsi(errorInput);
+    // Code frames only echo source lines, so they don't count against coverage
+    const lines = input.split('\n').filter(line => line.trim() && !CODE_FRAME_LINE.test(line));
+    const restrict = errorType && errorType !== 'auto' ? errorType : undefined;
     
-    // Detect TypeScript compiler errors
-    if (input.includes('error TS') || input.includes('warning TS')) {
-      return this.parseTypeScriptError(input);
+    // JSON output is recognized as a whole rather than line by line
+    if ((!restrict || restrict === 'linter') && this.readEslintJson(input)) {
+      return { type: 'linter', parser: 'eslint-json', confidence: 1 };
     }
     
-    // Detect linter errors
-    if (input.includes('eslint') || input.match(/:\d+:\d+:\s+(error|warning|info)/)) {
-      return this.parseLinterError(input);
-    }
+    const scores = ERROR_FORMATS
+      .filter(format => !restrict || format.type === restrict)
+      .map(format => {
+        let matched = 0;
+        let score = 0;
+        for (const line of lines) {
+          const match = format.lines.find(({ pattern }) => pattern.test(line));
+          if (match) {
+            matched++;
+            score += match.weight;
+          }
+        }
+        return { format, matched, score };
+      })
+      .sort((a, b) => b.score - a.score);
     
-    // Detect runtime errors (stack traces)
-    if (input.includes('at ') && input.includes(':')) {
-      return this.parseRuntimeError(input);
+    const best = scores[0];
+    if (!best || best.score === 0) {
+      // Nothing recognizable: use the type's default parser, or treat it as a generic message
+      const type = restrict || 'runtime';
+      return { type, parser: DEFAULT_PARSERS[type], confidence: restrict ? 0.5 : 0.2 };
     }
     
-    // Fall back to generic parsing
-    return this.parseGenericError(input);
+    const total = scores.reduce((sum, score) => sum + score.score, 0);
+    const share = best.score / total;
+    const coverage = Math.min(1, best.matched / lines.length);
+    return {
+      type: best.format.type,
+      parser: best.format.parser,
+      confidence: Number((share * (0.6 + 0.4 * coverage)).toFixed(2))
+    };
+  }
+
+  /**
+   * Parses an error input with the parser chosen by detection
+   * @param errorInput - Raw error input
+   * @param detection - Detected format
+   * @returns Parsed errors (empty if the parser finds none)
+   */
+  parseDetected(errorInput: string, detection: ErrorDetection): ParsedError[] {
+    const input = stripAnsi(errorInput);
+    switch (detection.parser) {
+      case 'tsc':
+        return this.parseTypeScriptError(input);
+      case 'tsc-pretty':
+        return this.parseTypeScriptPrettyError(input);
+      case 'vite':
+      case 'esbuild':
+        return this.parseBundlerError(input);
+      case 'eslint':
+        return this.parseLinterError(input);
+      case 'eslint-stylish':
+        return this.parseEslintStylishError(input);
+      case 'eslint-json':
+        return this.parseEslintJsonError(input);
+      case 'biome':
+        return this.parseBiomeError(input);
+      case 'jest':
+        return this.parseJestError(input);
+      case 'vitest':
+        return this.parseVitestError(input);
+      case 'bun-test':
+        return this.parseBunTestError(input);
+      case 'v8-stack':
+        return [this.parseRuntimeError(input)];
+      default:
+        return [this.parseGenericError(input)];
+    }
   }
 
   /**
@@ -297,4 +966,90 @@ export class ErrorParser {
     
     return groups;
   }
+
+  /**
+   * Reduces parsed errors to distinct root causes, ordered so upstream errors are fixed first
+   * Exact repeats are dropped; errors after a syntax error in the same file, errors with the
+   * same code and message in the same file, and missing modules or declarations with the same
+   * message elsewhere (e.g. one missing declaration used in many places) are attributed to the
+   * first occurrence
+   * @param errors - Parsed errors in reported order
+   * @returns Root cause groups in fix order, numbered E1, E2, ...
+   */
+  deduplicateErrors(errors: ParsedError[]): RootCauseGroup[] {
+    const seen = new Set<string>();
+    const groups: Array<Omit<RootCauseGroup, 'id'>> = [];
+    const bySignature = new Map<string, Omit<RootCauseGroup, 'id'>>();
+    
+    for (const fileErrors of Object.values(this.groupErrors(errors))) {
+      // Once a file fails to parse, later errors in it are unreliable
+      let syntaxGroup: Omit<RootCauseGroup, 'id'> | undefined;
+      const ordered = [...fileErrors].sort((a, b) => (a.lineNumber || 0) - (b.lineNumber || 0));
+      
+      for (const error of ordered) {
+        const key = `${error.filePath}:${error.lineNumber}:${error.columnNumber}:${error.errorCode || error.rule}:${error.message}`;
+        if (seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+        
+        if (syntaxGroup) {
+          syntaxGroup.related.push(error);
+          continue;
+        }
+        
+        // Only missing modules and declarations cascade across files, their messages name the same identifier
+        const priority = this.getFixPriority(error);
+        const scope = priority === 1 || priority === 2 ? '' : `${error.filePath}:`;
+        const signature = `${scope}${error.type}:${error.errorCode || error.rule || ''}:${error.message}`;
+        const existing = bySignature.get(signature);
+        if (existing) {
+          existing.related.push(error);
+          if (priority === 0) {
+            syntaxGroup = existing;
+          }
+          continue;
+        }
+        
+        const group = { error, related: [] };
+        groups.push(group);
+        bySignature.set(signature, group);
+        if (priority === 0) {
+          syntaxGroup = group;
+        }
+      }
+    }
+    
+    return groups
+      .sort((a, b) =>
+        this.getFixPriority(a.error) - this.getFixPriority(b.error) ||
+        b.related.length - a.related.length ||
+        (a.error.filePath || '').localeCompare(b.error.filePath || '') ||
+        (a.error.lineNumber || 0) - (b.error.lineNumber || 0)
+      )
+      .map((group, index) => ({ id: `E${index + 1}`, ...group }));
+  }
+
+  /**
+   * Ranks an error by how far upstream it usually is
+   * Syntax errors come first, then unresolved imports, missing declarations,
+   * other errors, and warnings last
+   * @param error - Parsed error
+   * @returns Priority (lower is fixed first)
+   */
+  private getFixPriority(error: ParsedError): number {
+    const code = error.errorCode || '';
+    const tsCode = /^TS(\d+)$/.exec(code);
+    
+    if ((tsCode && Number(tsCode[1]) < 2000) || error.rule === 'parse' || /parsing error|^expected .+ but found/i.test(error.message)) {
+      return 0;
+    }
+    if (MODULE_ERROR_CODES.has(code) || /cannot find module|unable to resolve|could not resolve|failed to resolve import/i.test(error.message)) {
+      return 1;
+    }
+    if (DECLARATION_ERROR_CODES.has(code) || /cannot find name|is not defined/i.test(error.message)) {
+      return 2;
+    }
+    return error.severity === 'warning' || error.severity === 'info' ? 4 : 3;
+  }
 }
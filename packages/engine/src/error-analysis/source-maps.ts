@@ -0,0 +1,371 @@
+/**
+ * Source Map Resolver for CodePlanner Engine
+ *
+ * This module maps runtime stack frames that point at compiled or bundled
+ * JavaScript (dist/*.js, chunks) back to the original TypeScript sources,
+ * using adjacent .map files or inline source maps.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { ParsedError, StackFrame } from '@codeplanner/shared';
+import type { SourceMapResolverConfig } from '../types';
+
+/** Base64 alphabet used by source map VLQ mappings */
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/** Value of each base64 character */
+const BASE64_VALUES = new Map([...BASE64_CHARS].map((char, index) => [char, index]));
+
+/** Matches the last sourceMappingURL comment of a generated file */
+const SOURCE_MAPPING_URL = /\/[/*][#@]\s*sourceMappingURL=([^\s*'"]+)[^\n]*\s*$/;
+
+/**
+ * One mapping of a generated line: generated column, source index,
+ * source line and source column (all 0-based; -1 for unmapped code)
+ */
+type Mapping = [number, number, number, number];
+
+/**
+ * A source map decoded for lookups
+ */
+interface DecodedSourceMap {
+  /** Absolute paths of the original sources */
+  sources: string[];
+  /** Mappings per generated line, sorted by generated column */
+  lines: Mapping[][];
+}
+
+/**
+ * Decodes one segment of a source map's mappings
+ * @param segment - Base64 VLQ segment (e.g. "AAgBC")
+ * @returns Relative field values of the segment
+ */
+function decodeVlq(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid base64 character "${char}" in source map mappings`);
+    }
+
+    // The low five bits carry data; the sixth says another digit follows
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+
+    // The lowest bit of the assembled value is the sign
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+
+  return values;
+}
+
+/**
+ * Resolves stack frames of compiled JavaScript to their original sources
+ * Source maps are read once per generated file and cached
+ */
+export class SourceMapResolver {
+  private config: SourceMapResolverConfig;
+  private cache = new Map<string, DecodedSourceMap | null>();
+
+  /**
+   * @param config - Resolver configuration
+   */
+  constructor(config: SourceMapResolverConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Resolves the stack frames of a parsed error
+   * The error's location is moved along when it was taken from a resolved frame
+   * @param error - Parsed error
+   * @returns Error with resolved frames (unchanged if no frame has a source map)
+   */
+  resolveError(error: ParsedError): ParsedError {
+    if (!error.stackTrace?.length) {
+      return error;
+    }
+
+    const stackTrace = error.stackTrace.map(frame => this.resolveFrame(frame));
+    const locationIndex = error.stackTrace.findIndex(frame =>
+      frame.filePath === error.filePath &&
+      frame.lineNumber === error.lineNumber &&
+      frame.columnNumber === error.columnNumber
+    );
+    const location = locationIndex >= 0 ? stackTrace[locationIndex] : undefined;
+
+    return {
+      ...error,
+      stackTrace,
+      ...(location?.generated && {
+        filePath: location.filePath,
+        lineNumber: location.lineNumber,
+        columnNumber: location.columnNumber
+      })
+    };
+  }
+
+  /**
+   * Resolves one stack frame through the source map of its file
+   * @param frame - Stack frame as reported by the runtime
+   * @returns Frame at the original location with the reported one in generated,
+   *          or the frame unchanged if it cannot be mapped
+   */
+  resolveFrame(frame: StackFrame): StackFrame {
+    if (frame.generated) {
+      return frame;
+    }
+
+    const generatedPath = this.findGeneratedFile(frame.filePath);
+    const sourceMap = generatedPath && this.getSourceMap(generatedPath);
+    const mapping = sourceMap && this.findMapping(sourceMap, frame.lineNumber, frame.columnNumber);
+    if (!sourceMap || !mapping) {
+      return frame;
+    }
+
+    const [, sourceIndex, sourceLine, sourceColumn] = mapping;
+    const source = sourceMap.sources[sourceIndex];
+    if (!source) {
+      return frame;
+    }
+
+    return {
+      ...frame,
+      filePath: source,
+      lineNumber: sourceLine + 1,
+      columnNumber: sourceColumn + 1,
+      generated: {
+        filePath: frame.filePath,
+        lineNumber: frame.lineNumber,
+        columnNumber: frame.columnNumber
+      }
+    };
+  }
+
+  /**
+   * Finds the generated file a stack frame points at on disk
+   * Absolute paths from another machine or container are matched against the
+   * project by dropping leading directories (/app/dist/index.js -> <project>/dist/index.js)
+   * @param framePath - File path or URL of the frame
+   * @returns Absolute path of the file, or undefined if it does not exist
+   */
+  private findGeneratedFile(framePath: string): string | undefined {
+    if (/^(node:|internal\/|native$|<anonymous>$)/.test(framePath)) {
+      return undefined;
+    }
+
+    // Drop cache-busting queries (Vite dev server URLs)
+    let filePath = framePath.replace(/[?#].*$/, '');
+    if (filePath.startsWith('file://')) {
+      try {
+        filePath = fileURLToPath(filePath);
+      } catch {
+        return undefined;
+      }
+    } else if (/^[a-z][\w+.-]*:\/\//i.test(filePath)) {
+      // http(s):// and other URLs: try the path part against the project
+      filePath = filePath.replace(/^[a-z][\w+.-]*:\/\/[^/]*/i, '');
+    }
+
+    const projectPath = path.resolve(this.config.projectPath);
+    if (!path.isAbsolute(filePath)) {
+      const candidate = path.resolve(projectPath, filePath);
+      return this.isFile(candidate) ? candidate : undefined;
+    }
+
+    if (this.isFile(filePath)) {
+      return filePath;
+    }
+
+    const segments = filePath.split(/[\\/]+/).filter(Boolean);
+    for (let i = 1; i < segments.length; i++) {
+      const candidate = path.join(projectPath, ...segments.slice(i));
+      if (this.isFile(candidate)) {
+        return candidate;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Gets the decoded source map of a generated file
+   * @param generatedPath - Absolute path of the generated file
+   * @returns Decoded source map, or null if the file has none
+   */
+  private getSourceMap(generatedPath: string): DecodedSourceMap | null {
+    const cached = this.cache.get(generatedPath);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let sourceMap: DecodedSourceMap | null = null;
+    try {
+      sourceMap = this.loadSourceMap(generatedPath);
+    } catch (error) {
+      console.warn(`⚠️  Failed to read source map of ${generatedPath}:`, error);
+    }
+
+    this.cache.set(generatedPath, sourceMap);
+    return sourceMap;
+  }
+
+  /**
+   * Reads the source map of a generated file from its sourceMappingURL comment
+   * (inline data URL or file) or from an adjacent .map file
+   * @param generatedPath - Absolute path of the generated file
+   * @returns Decoded source map, or null if the file has none
+   */
+  private loadSourceMap(generatedPath: string): DecodedSourceMap | null {
+    const code = fs.readFileSync(generatedPath, 'utf-8');
+    const url = SOURCE_MAPPING_URL.exec(code)?.[1];
+
+    if (url?.startsWith('data:')) {
+      const inline = /^data:application\/json[^,]*?(;base64)?,(.*)$/.exec(url);
+      if (!inline) {
+        return null;
+      }
+      const json = inline[1]
+        ? Buffer.from(inline[2], 'base64').toString('utf-8')
+        : decodeURIComponent(inline[2]);
+      return this.decodeSourceMap(json, path.dirname(generatedPath));
+    }
+
+    const mapPath = url
+      ? path.resolve(path.dirname(generatedPath), decodeURIComponent(url))
+      : `${generatedPath}.map`;
+    if (!this.isFile(mapPath)) {
+      return null;
+    }
+
+    return this.decodeSourceMap(fs.readFileSync(mapPath, 'utf-8'), path.dirname(mapPath));
+  }
+
+  /**
+   * Decodes a version 3 source map
+   * @param json - Source map JSON
+   * @param mapDir - Directory of the map, which relative sources are resolved against
+   * @returns Decoded source map, or null for unsupported maps (e.g. index maps with sections)
+   */
+  private decodeSourceMap(json: string, mapDir: string): DecodedSourceMap | null {
+    const raw = JSON.parse(json);
+    if (raw.version !== 3 || typeof raw.mappings !== 'string' || !Array.isArray(raw.sources)) {
+      return null;
+    }
+
+    const sources = (raw.sources as Array<string | null>).map(source =>
+      source === null ? '' : this.resolveSourcePath(source, raw.sourceRoot || '', mapDir)
+    );
+
+    // Fields are relative to the previous segment; the generated column resets each line
+    const lines: Mapping[][] = [];
+    let sourceIndex = 0;
+    let sourceLine = 0;
+    let sourceColumn = 0;
+
+    for (const line of raw.mappings.split(';')) {
+      const mappings: Mapping[] = [];
+      let generatedColumn = 0;
+
+      for (const segment of line.split(',')) {
+        if (!segment) continue;
+        const fields = decodeVlq(segment);
+        generatedColumn += fields[0];
+        // Segments without a source end the previous mapping: the code has no original
+        if (fields.length < 4) {
+          mappings.push([generatedColumn, -1, -1, -1]);
+          continue;
+        }
+
+        sourceIndex += fields[1];
+        sourceLine += fields[2];
+        sourceColumn += fields[3];
+        mappings.push([generatedColumn, sourceIndex, sourceLine, sourceColumn]);
+      }
+
+      lines.push(mappings.sort((a, b) => a[0] - b[0]));
+    }
+
+    return { sources, lines };
+  }
+
+  /**
+   * Resolves a source path of a source map to an absolute path
+   * Bundler URLs (webpack://app/./src/x.ts) are taken as relative to the project, as are
+   * relative sources that don't exist next to the map (some bundlers write them relative
+   * to the directory they ran in)
+   * @param source - Entry of the map's sources
+   * @param sourceRoot - The map's sourceRoot
+   * @param mapDir - Directory of the map
+   * @returns Absolute path of the original source
+   */
+  private resolveSourcePath(source: string, sourceRoot: string, mapDir: string): string {
+    const joined = sourceRoot && !/^[a-z][\w+.-]*:/i.test(source)
+      ? `${sourceRoot.replace(/\/?$/, '/')}${source}`
+      : source;
+
+    if (joined.startsWith('file://')) {
+      return fileURLToPath(joined);
+    }
+    if (/^[a-z][\w+.-]*:\/\//i.test(joined)) {
+      return path.resolve(this.config.projectPath, joined.replace(/^[a-z][\w+.-]*:\/\/[^/]*\//i, ''));
+    }
+
+    const resolved = path.resolve(mapDir, joined);
+    const fromProject = path.resolve(this.config.projectPath, joined);
+    return !this.isFile(resolved) && this.isFile(fromProject) ? fromProject : resolved;
+  }
+
+  /**
+   * Finds the mapping covering a generated position
+   * @param sourceMap - Decoded source map
+   * @param lineNumber - 1-based generated line
+   * @param columnNumber - 1-based generated column
+   * @returns The last mapping at or before the column, or undefined if there is none
+   */
+  private findMapping(sourceMap: DecodedSourceMap, lineNumber: number, columnNumber: number): Mapping | undefined {
+    const mappings = sourceMap.lines[lineNumber - 1];
+    if (!mappings?.length) {
+      return undefined;
+    }
+
+    const column = Math.max(0, columnNumber - 1);
+    let low = 0;
+    let high = mappings.length - 1;
+    let found: Mapping | undefined;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (mappings[mid][0] <= column) {
+        found = mappings[mid];
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Checks whether a path is an existing file
+   * @param filePath - Path to check
+   * @returns true if the file exists
+   */
+  private isFile(filePath: string): boolean {
+    try {
+      return fs.statSync(filePath).isFile();
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Job cancellation helpers for CodePlanner Engine
+ *
+ * Clients cancel jobs through the gateway, which sets a cancellation flag
+ * on the job record (for jobs still queued) and broadcasts the job ID on
+ * a pub/sub channel (for jobs already running). Channel and key layout
+ * must match packages/gateway/src/redis.ts.
+ */
+
+/** Pub/sub channel carrying the IDs of jobs to cancel */
+export const JOB_CANCEL_CHANNEL = 'jobs:cancel';
+
+/**
+ * Error thrown when a job is stopped because it was cancelled
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Throws if the given job has been cancelled
+ * Called between batches and stream chunks so cancelled jobs stop early
+ * @param jobId - Job being processed
+ * @param signal - Abort signal of the job
+ */
+export function throwIfCancelled(jobId: string, signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new JobCancelledError(jobId);
+  }
+}
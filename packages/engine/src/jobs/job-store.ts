@@ -0,0 +1,217 @@
+/**
+ * Job Store for CodePlanner Engine
+ *
+ * This module keeps the persistent job records that let clients check
+ * on a job's status, progress and result after the fact. The gateway
+ * creates the record when a job is queued; the worker updates it as
+ * the job runs. Every result is also appended to a per-job Redis Stream,
+ * so clients that reconnect can replay what they missed. Key layout must
+ * match packages/gateway/src/redis.ts.
+ */
+
+import type { RedisClientType } from 'redis';
+import type { JobMessage, JobResult, ProgressInfo } from '../types';
+
+/** Key prefix for job records */
+const JOB_KEY_PREFIX = 'codeplanner:jobs';
+
+/** How long job records and their output are kept */
+const JOB_RECORD_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** How long a job's result stream is kept for replay */
+const JOB_RESULTS_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Redis-backed store for job status records
+ * Writes are best-effort: a failure to record status never fails the job itself
+ */
+export class JobStore {
+  private redis: RedisClientType;
+
+  constructor(redis: RedisClientType) {
+    this.redis = redis;
+  }
+
+  /**
+   * Marks a job as running on this worker
+   * Also fills in the record if the gateway did not create one
+   * @param job - Job being started
+   * @param workerId - Consumer name of this worker
+   */
+  async markRunning(job: JobMessage, workerId: string): Promise<void> {
+    await this.write(job.jobId, {
+      jobId: job.jobId,
+      command: job.command,
+      userId: job.userId,
+      projectId: job.projectId,
+      status: 'running',
+      startedAt: Date.now().toString(),
+      workerId
+    });
+  }
+
+  /**
+   * Appends a result to the job's result stream
+   * @param result - Result to append (without sequence number)
+   * @returns Sequence number assigned to the result, or undefined if it could not be stored
+   */
+  async appendResult(result: JobResult): Promise<number | undefined> {
+    try {
+      const seqKey = this.getSeqKey(result.jobId);
+      const resultsKey = this.getResultsKey(result.jobId);
+      const seq = await this.redis.incr(seqKey);
+      
+      await this.redis
+        .multi()
+        .xAdd(resultsKey, '*', { seq: seq.toString(), result: JSON.stringify({ ...result, seq }) })
+        .expire(resultsKey, JOB_RESULTS_TTL_SECONDS)
+        .expire(seqKey, JOB_RESULTS_TTL_SECONDS)
+        .exec();
+      return seq;
+    } catch (error) {
+      console.error(`❌ Failed to append result of job ${result.jobId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Records the latest progress of a job
+   * @param jobId - Job ID
+   * @param progress - Progress information
+   */
+  async updateProgress(jobId: string, progress: ProgressInfo): Promise<void> {
+    await this.write(jobId, { progress: JSON.stringify(progress) });
+  }
+
+  /**
+   * Appends streamed content to a job's output
+   * @param jobId - Job ID
+   * @param chunk - Streamed text
+   */
+  async appendOutput(jobId: string, chunk: string): Promise<void> {
+    try {
+      const outputKey = this.getOutputKey(jobId);
+      await this.redis
+        .multi()
+        .append(outputKey, chunk)
+        .expire(outputKey, JOB_RECORD_TTL_SECONDS)
+        .exec();
+    } catch (error) {
+      console.error('❌ Failed to append job output:', error);
+    }
+  }
+
+  /**
+   * Marks a job as completed with its final result
+   * @param jobId - Job ID
+   * @param result - Final result data
+   */
+  async complete(jobId: string, result: any): Promise<void> {
+    await this.write(jobId, {
+      status: 'completed',
+      finishedAt: Date.now().toString(),
+      result: JSON.stringify(result ?? null)
+    });
+  }
+
+  /**
+   * Marks a job as failed
+   * @param jobId - Job ID
+   * @param message - Error message
+   */
+  async fail(jobId: string, message: string): Promise<void> {
+    await this.write(jobId, {
+      status: 'failed',
+      finishedAt: Date.now().toString(),
+      error: message
+    });
+  }
+
+  /**
+   * Marks a job as cancelled
+   * @param jobId - Job ID
+   */
+  async markCancelled(jobId: string): Promise<void> {
+    await this.write(jobId, {
+      status: 'cancelled',
+      finishedAt: Date.now().toString()
+    });
+  }
+
+  /**
+   * Checks whether a client asked for a job to be cancelled
+   * @param jobId - Job ID
+   * @returns true if the cancellation flag is set
+   */
+  async isCancelRequested(jobId: string): Promise<boolean> {
+    try {
+      return (await this.redis.exists(this.getCancelKey(jobId))) > 0;
+    } catch (error) {
+      console.error(`❌ Failed to check cancellation of job ${jobId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Writes fields to a job record and refreshes its expiry
+   * @param jobId - Job ID
+   * @param fields - Hash fields to set
+   */
+  private async write(jobId: string, fields: Record<string, string>): Promise<void> {
+    try {
+      const key = this.getRecordKey(jobId);
+      await this.redis
+        .multi()
+        .hSet(key, fields)
+        .expire(key, JOB_RECORD_TTL_SECONDS)
+        .exec();
+    } catch (error) {
+      console.error(`❌ Failed to update job record ${jobId}:`, error);
+    }
+  }
+
+  /**
+   * Generates the Redis key for a job record
+   * @param jobId - Job ID
+   * @returns Redis key string
+   */
+  private getRecordKey(jobId: string): string {
+    return `${JOB_KEY_PREFIX}:${jobId}`;
+  }
+
+  /**
+   * Generates the Redis key for a job's streamed output
+   * @param jobId - Job ID
+   * @returns Redis key string
+   */
+  private getOutputKey(jobId: string): string {
+    return `${JOB_KEY_PREFIX}:${jobId}:output`;
+  }
+
+  /**
+   * Generates the Redis key for a job's result stream
+   * @param jobId - Job ID
+   * @returns Redis key string
+   */
+  private getResultsKey(jobId: string): string {
+    return `${JOB_KEY_PREFIX}:${jobId}:results`;
+  }
+
+  /**
+   * Generates the Redis key for a job's result sequence counter
+   * @param jobId - Job ID
+   * @returns Redis key string
+   */
+  private getSeqKey(jobId: string): string {
+    return `${JOB_KEY_PREFIX}:${jobId}:seq`;
+  }
+
+  /**
+   * Generates the Redis key for a job's cancellation flag
+   * @param jobId - Job ID
+   * @returns Redis key string
+   */
+  private getCancelKey(jobId: string): string {
+    return `${JOB_KEY_PREFIX}:${jobId}:cancelled`;
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Anthropic Chat Provider for CodePlanner Engine
+ *
+ * Completions through the Anthropic Messages API, or any API that speaks
+ * the same message format. System prompts are sent separately from the
+ * conversation, and JSON output relies on the prompt alone since the API
+ * has no JSON response mode.
+ */
+
+import type { ChatProviderConfig } from '../types';
+import { getRateLimiter } from '../utils/rate-limiter';
+import { withRateLimitRetry } from '../utils/retry';
+import type { ChatMessage, ChatProvider, ChatRequest } from './chat-provider';
+import { postJson, readLines } from './http';
+
+/** Messages API version sent with every request */
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Chat provider for Anthropic-style Messages APIs
+ */
+export class AnthropicChatProvider implements ChatProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(config: ChatProviderConfig & { model: string }) {
+    if (!config.apiKey) {
+      throw new Error('Missing API key for the anthropic provider');
+    }
+
+    this.model = config.model;
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl || 'https://api.anthropic.com').replace(/\/+$/, '');
+  }
+
+  /**
+   * Requests a complete response
+   * @param request - Completion request
+   * @returns Response text
+   */
+  async complete(request: ChatRequest): Promise<string> {
+    const response = await this.send(request, false);
+    const data = await response.json() as { content?: Array<{ type: string; text?: string }> };
+
+    return (data.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+  }
+
+  /**
+   * Requests a streamed response
+   * @param request - Completion request
+   * @returns Response text in the order it is generated
+   */
+  async stream(request: ChatRequest): Promise<AsyncIterable<string>> {
+    const response = await this.send(request, true);
+
+    return (async function* () {
+      // Server-sent events; text arrives in content_block_delta events
+      for await (const line of readLines(response)) {
+        if (!line.startsWith('data:')) {
+          continue;
+        }
+
+        const event = JSON.parse(line.slice(5));
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+          yield event.delta.text as string;
+        } else if (event.type === 'error') {
+          throw new Error(`anthropic stream failed: ${event.error?.message || JSON.stringify(event.error)}`);
+        }
+      }
+    })();
+  }
+
+  /**
+   * Sends a Messages API request with rate limiting and retries
+   * @param request - Completion request
+   * @param stream - Whether to stream the response
+   * @returns Successful response
+   */
+  private async send(request: ChatRequest, stream: boolean): Promise<Response> {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const messages = request.messages.filter(
+      (message): message is ChatMessage & { role: 'user' | 'assistant' } => message.role !== 'system'
+    );
+
+    return await withRateLimitRetry(async () => {
+      const limiter = getRateLimiter({ name: this.name });
+      return await limiter.schedule(async () => {
+        return await postJson(this.name, `${this.baseUrl}/v1/messages`, {
+          'x-api-key': this.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION
+        }, {
+          model: this.model,
+          max_tokens: request.maxTokens,
+          ...(system ? { system } : {}),
+          messages,
+          stream
+        }, request.signal);
+      }, `messages(${request.label || (stream ? 'stream' : 'complete')})`);
+    });
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Chat Providers for CodePlanner Engine
+ *
+ * This module defines the provider abstraction behind PlanGenerator and
+ * Debugger. Providers turn a conversation into a completion, streamed or
+ * whole; prompts, validation and repair stay in the callers.
+ */
+
+import type { ChatProviderConfig, ChatProviderName } from '../types';
+import { AnthropicChatProvider } from './anthropic-provider';
+import { MockChatProvider } from './mock-provider';
+import { OllamaChatProvider } from './ollama-provider';
+import { OpenAIChatProvider } from './openai-provider';
+
+/** Model used by each provider when none is configured */
+export const DEFAULT_CHAT_MODELS: Record<ChatProviderName, string> = {
+  openai: 'gpt-4-turbo-preview',
+  anthropic: 'claude-3-5-sonnet-latest',
+  ollama: 'llama3.1',
+  mock: 'mock'
+};
+
+/**
+ * A message sent to a chat model
+ */
+export interface ChatMessage {
+  /** Who sent the message */
+  role: 'system' | 'user' | 'assistant';
+  /** Message content */
+  content: string;
+}
+
+/**
+ * A completion request
+ */
+export interface ChatRequest {
+  /** Conversation, usually starting with a system prompt */
+  messages: ChatMessage[];
+  /** Maximum number of tokens to generate */
+  maxTokens: number;
+  /** Ask the model for a single JSON object */
+  json?: boolean;
+  /** Short description of the request for rate limiter logs (e.g. "stream", "summary") */
+  label?: string;
+  /** Aborts the in-flight request when the job is cancelled */
+  signal?: AbortSignal;
+}
+
+/**
+ * A chat model behind some API
+ */
+export interface ChatProvider {
+  /** Provider name */
+  readonly name: ChatProviderName;
+  /** Model identifier */
+  readonly model: string;
+
+  /**
+   * Requests a complete response
+   * @param request - Completion request
+   * @returns Response text
+   */
+  complete(request: ChatRequest): Promise<string>;
+
+  /**
+   * Requests a streamed response
+   * Resolves once the model has accepted the request, so connection and rate limit
+   * errors are thrown here rather than while iterating
+   * @param request - Completion request
+   * @returns Response text in the order it is generated
+   */
+  stream(request: ChatRequest): Promise<AsyncIterable<string>>;
+}
+
+/**
+ * Creates the chat provider selected in the configuration
+ * @param config - Chat provider configuration
+ * @returns Chat provider
+ */
+export function createChatProvider(config: ChatProviderConfig): ChatProvider {
+  const provider = config.provider || 'openai';
+  const resolved = { ...config, model: config.model || DEFAULT_CHAT_MODELS[provider] };
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAIChatProvider(resolved);
+    case 'anthropic':
+      return new AnthropicChatProvider(resolved);
+    case 'ollama':
+      return new OllamaChatProvider(resolved);
+    case 'mock':
+      return MockChatProvider.fromFile(resolved);
+    default:
+      throw new Error(`Unknown LLM provider "${provider}". Use openai, anthropic, ollama or mock`);
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Provider HTTP helpers for CodePlanner Engine
+ *
+ * Request and streaming helpers for chat providers that are called over
+ * plain HTTP rather than through an SDK.
+ */
+
+/**
+ * Error response of a provider API
+ * Carries the status and headers so rate limits are retried like SDK errors
+ */
+export class ProviderHttpError extends Error {
+  readonly status: number;
+  readonly headers: Headers;
+
+  constructor(provider: string, status: number, headers: Headers, body: string) {
+    super(`${provider} request failed with ${status}: ${body.slice(0, 500)}`);
+    this.name = 'ProviderHttpError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+/**
+ * Posts a JSON request to a provider API
+ * @param provider - Provider name for error messages
+ * @param url - Endpoint URL
+ * @param headers - Extra request headers
+ * @param body - Request body
+ * @param signal - Aborts the request
+ * @returns Successful response (its body is not read yet)
+ */
+export async function postJson(
+  provider: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    throw new ProviderHttpError(provider, response.status, response.headers, await response.text());
+  }
+  return response;
+}
+
+/**
+ * Reads a streamed response body line by line
+ * @param response - Response with a streamed body
+ * @returns Non-empty lines as they arrive
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop()!;
+      for (const line of lines) {
+        if (line.trim()) {
+          yield line.trim();
+        }
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) {
+      yield buffer.trim();
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
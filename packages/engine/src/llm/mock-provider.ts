@@ -0,0 +1,112 @@
+/**
+ * Mock Chat Provider for CodePlanner Engine
+ *
+ * Replays scripted responses instead of calling a model, so the worker
+ * can run end to end offline and deterministically (tests, CI, demos).
+ * Fixtures are matched against the last user message of each request.
+ */
+
+import * as fs from 'fs';
+import type { ChatProviderConfig } from '../types';
+import type { ChatProvider, ChatRequest } from './chat-provider';
+
+/**
+ * A scripted response
+ */
+export interface MockChatFixture {
+  /** Regular expression (case-insensitive) the last user message must match; matches everything if omitted */
+  match?: string;
+  /** Only match requests that ask (true) or don't ask (false) for JSON */
+  json?: boolean;
+  /** Response text; objects are sent as JSON */
+  response: string | object;
+}
+
+/**
+ * Chat provider replaying fixtures
+ */
+export class MockChatProvider implements ChatProvider {
+  readonly name = 'mock';
+  readonly model: string;
+  /** Requests received so far, for assertions */
+  readonly requests: ChatRequest[] = [];
+  private fixtures: MockChatFixture[];
+
+  /**
+   * @param fixtures - Responses, the first matching fixture answers each request
+   * @param model - Model identifier reported in results
+   */
+  constructor(fixtures: MockChatFixture[], model: string = 'mock') {
+    this.fixtures = fixtures;
+    this.model = model;
+  }
+
+  /**
+   * Creates a mock provider from a JSON file holding an array of fixtures
+   * @param config - Chat provider configuration with the fixtures path
+   * @returns Mock chat provider
+   */
+  static fromFile(config: ChatProviderConfig & { model: string }): MockChatProvider {
+    if (!config.fixturesPath) {
+      throw new Error('Missing fixtures file for the mock provider. Set MOCK_LLM_FIXTURES');
+    }
+
+    try {
+      const fixtures = JSON.parse(fs.readFileSync(config.fixturesPath, 'utf-8'));
+      if (!Array.isArray(fixtures)) {
+        throw new Error('expected an array of fixtures');
+      }
+      return new MockChatProvider(fixtures, config.model);
+    } catch (error) {
+      console.error(`❌ Failed to load mock fixtures from ${config.fixturesPath}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replies with the matching fixture
+   * @param request - Completion request
+   * @returns Fixture response
+   */
+  async complete(request: ChatRequest): Promise<string> {
+    request.signal?.throwIfAborted();
+    return this.reply(request);
+  }
+
+  /**
+   * Streams the matching fixture word by word
+   * @param request - Completion request
+   * @returns Fixture response in chunks
+   */
+  async stream(request: ChatRequest): Promise<AsyncIterable<string>> {
+    request.signal?.throwIfAborted();
+    const chunks = this.reply(request).match(/\S+\s*|\s+/g) || [];
+
+    return (async function* () {
+      for (const chunk of chunks) {
+        request.signal?.throwIfAborted();
+        yield chunk;
+      }
+    })();
+  }
+
+  /**
+   * Records a request and finds its response
+   * @param request - Completion request
+   * @returns Response text
+   */
+  private reply(request: ChatRequest): string {
+    this.requests.push(request);
+
+    const prompt = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+    const fixture = this.fixtures.find(candidate =>
+      (candidate.json === undefined || candidate.json === Boolean(request.json)) &&
+      (!candidate.match || new RegExp(candidate.match, 'i').test(prompt))
+    );
+
+    if (!fixture) {
+      throw new Error(`No mock fixture matches the request: "${prompt.slice(0, 100)}"`);
+    }
+    return typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response);
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Ollama Chat Provider for CodePlanner Engine
+ *
+ * Completions from a model served by Ollama (or an API with the same
+ * /api/chat format), usually on the same machine. Requests are not rate
+ * limited since no remote quota applies.
+ */
+
+import type { ChatProviderConfig } from '../types';
+import type { ChatProvider, ChatRequest } from './chat-provider';
+import { postJson, readLines } from './http';
+
+/**
+ * Chat provider for Ollama-style local HTTP APIs
+ */
+export class OllamaChatProvider implements ChatProvider {
+  readonly name = 'ollama';
+  readonly model: string;
+  private baseUrl: string;
+
+  constructor(config: ChatProviderConfig & { model: string }) {
+    this.model = config.model;
+    this.baseUrl = (config.baseUrl || 'http://localhost:11434').replace(/\/+$/, '');
+  }
+
+  /**
+   * Requests a complete response
+   * @param request - Completion request
+   * @returns Response text
+   */
+  async complete(request: ChatRequest): Promise<string> {
+    const response = await this.send(request, false);
+    const data = await response.json() as { message?: { content?: string } };
+
+    return data.message?.content || '';
+  }
+
+  /**
+   * Requests a streamed response
+   * @param request - Completion request
+   * @returns Response text in the order it is generated
+   */
+  async stream(request: ChatRequest): Promise<AsyncIterable<string>> {
+    const response = await this.send(request, true);
+
+    return (async function* () {
+      // One JSON object per line, the last one marked done
+      for await (const line of readLines(response)) {
+        const chunk = JSON.parse(line);
+        if (chunk.error) {
+          throw new Error(`ollama stream failed: ${chunk.error}`);
+        }
+        if (chunk.message?.content) {
+          yield chunk.message.content as string;
+        }
+      }
+    })();
+  }
+
+  /**
+   * Sends a chat request
+   * @param request - Completion request
+   * @param stream - Whether to stream the response
+   * @returns Successful response
+   */
+  private async send(request: ChatRequest, stream: boolean): Promise<Response> {
+    return await postJson(this.name, `${this.baseUrl}/api/chat`, {}, {
+      model: this.model,
+      messages: request.messages,
+      stream,
+      ...(request.json ? { format: 'json' } : {}),
+      options: { num_predict: request.maxTokens }
+    }, request.signal);
+  }
+}
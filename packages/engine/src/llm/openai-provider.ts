@@ -0,0 +1,94 @@
+/**
+ * OpenAI Chat Provider for CodePlanner Engine
+ *
+ * Chat completions through OpenAI or any OpenAI-compatible API
+ * (e.g. OpenRouter).
+ */
+
+import OpenAI from 'openai';
+import type { ChatProviderConfig } from '../types';
+import { getRateLimiter } from '../utils/rate-limiter';
+import { withRateLimitRetry } from '../utils/retry';
+import type { ChatProvider, ChatRequest } from './chat-provider';
+
+/**
+ * Chat provider for OpenAI-compatible chat completion APIs
+ */
+export class OpenAIChatProvider implements ChatProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  private openai: OpenAI;
+
+  constructor(config: ChatProviderConfig & { model: string }) {
+    if (!config.apiKey) {
+      throw new Error('Missing API key for the openai provider');
+    }
+
+    this.model = config.model;
+    this.openai = new OpenAI({
+      apiKey: config.apiKey,
+      // Allow overriding the base URL for providers like OpenRouter
+      baseURL: config.baseUrl
+    });
+  }
+
+  /**
+   * Requests a complete response
+   * @param request - Completion request
+   * @returns Response text
+   */
+  async complete(request: ChatRequest): Promise<string> {
+    const response = await withRateLimitRetry(async () => {
+      const limiter = getRateLimiter({ name: this.name });
+      return await limiter.schedule(async () => {
+        return await this.openai.chat.completions.create({
+          model: this.model,
+          messages: request.messages,
+          ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+          ...this.getTokenParam(request.maxTokens)
+        }, { signal: request.signal });
+      }, `chat.completions(${request.label || 'complete'})`);
+    });
+
+    return response.choices[0]?.message?.content || '';
+  }
+
+  /**
+   * Requests a streamed response
+   * @param request - Completion request
+   * @returns Response text in the order it is generated
+   */
+  async stream(request: ChatRequest): Promise<AsyncIterable<string>> {
+    const stream = await withRateLimitRetry(async () => {
+      const limiter = getRateLimiter({ name: this.name });
+      return await limiter.schedule(async () => {
+        return await this.openai.chat.completions.create({
+          model: this.model,
+          messages: request.messages,
+          stream: true,
+          ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+          ...this.getTokenParam(request.maxTokens)
+        }, { signal: request.signal });
+      }, `chat.completions(${request.label || 'stream'})`);
+    });
+
+    return (async function* () {
+      for await (const chunk of stream) {
+        const content = chunk.choices[0]?.delta?.content;
+        if (content) {
+          yield content;
+        }
+      }
+    })();
+  }
+
+  /**
+   * Gets the token limit parameter
+   * Newer models reject max_tokens in favor of max_completion_tokens
+   * @param value - Maximum number of tokens to generate
+   * @returns Request parameter
+   */
+  private getTokenParam(value: number): { max_completion_tokens: number } {
+    return { max_completion_tokens: value };
+  }
+}
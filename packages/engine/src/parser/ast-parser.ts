@@ -6,10 +6,12 @@
  * projects and prepares them for embedding generation and semantic search.
  */
 
-import { Project, SourceFile, FunctionDeclaration, ClassDeclaration, InterfaceDeclaration } from 'ts-morph';
+import { Node, Project, SourceFile, FunctionDeclaration, ClassDeclaration, InterfaceDeclaration } from 'ts-morph';
+import * as path from 'path';
 import * as ts from 'typescript';
 import type { CodeChunk } from '@codeplanner/shared';
-import type { ASTParserConfig } from '../types';
+import type { ASTParserConfig, EnclosingFunction, ParsedFile, ParseResult } from '../types';
+import { hashContent } from '../utils/hash';
 
 /**
  * AST Parser for extracting code chunks from TypeScript projects
@@ -26,7 +28,7 @@ export class ASTParser {
     try {
       this.project = new Project({
         tsConfigFilePath: config.tsConfigPath || `${config.projectPath}/tsconfig.json`,
-        skipAddingFilesFromTsConfig: false
+        skipAddingFilesFromTsConfig: Boolean(config.files)
       });
     } catch (error) {
       console.warn('⚠️  No tsconfig.json found, using default compiler options');
@@ -42,6 +44,14 @@ export class ASTParser {
       });
     }
     
+    // Only load the requested files when parsing a subset of the project
+    if (config.files) {
+      for (const filePath of config.files) {
+        this.project.addSourceFileAtPathIfExists(filePath);
+      }
+      return;
+    }
+    
     // Add source files from the project path
     const projectPath = config.projectPath.startsWith('./') ? config.projectPath.slice(2) : config.projectPath;
     console.log(`🔍 Looking for source files in: ${projectPath}`);
@@ -58,7 +68,20 @@ export class ASTParser {
    * @returns Array of code chunks found in the project
    */
   parseCodebase(): CodeChunk[] {
-    const chunks: CodeChunk[] = [];
+    const chunks = this.parseFiles().files.flatMap(file => file.chunks);
+    console.log(`📊 Extracted ${chunks.length} code chunks`);
+    return chunks;
+  }
+
+  /**
+   * Parses every indexable source file and returns its chunks with a content hash
+   * Files that yield no chunks are still returned so their hash can be tracked; files that
+   * fail to parse are reported separately so callers don't mistake them for deleted files
+   * @returns Parsed files and the paths of files that failed to parse
+   */
+  parseFiles(): ParseResult {
+    const parsedFiles: ParsedFile[] = [];
+    const failedFiles: string[] = [];
     const sourceFiles = this.project.getSourceFiles();
 
     console.log(`📁 Found ${sourceFiles.length} source files to parse`);
@@ -75,15 +98,18 @@ export class ASTParser {
       }
 
       try {
-        const fileChunks = this.parseSourceFile(file);
-        chunks.push(...fileChunks);
+        parsedFiles.push({
+          filePath: file.getFilePath(),
+          contentHash: hashContent(file.getFullText()),
+          chunks: this.parseSourceFile(file)
+        });
       } catch (error) {
         console.warn(`⚠️  Failed to parse file ${file.getFilePath()}:`, error);
+        failedFiles.push(file.getFilePath());
       }
     }
 
-    console.log(`📊 Extracted ${chunks.length} code chunks from ${sourceFiles.length} files`);
-    return chunks;
+    return { files: parsedFiles, failedFiles };
   }
 
   /**
@@ -150,6 +176,14 @@ export class ASTParser {
     return chunks;
   }
 
+  /**
+   * Gets the absolute path of the parsed project
+   * @returns Project directory
+   */
+  getProjectPath(): string {
+    return path.resolve(this.config.projectPath);
+  }
+
   /**
    * Gets the content of a specific file
    * @param filePath - Path to the file
@@ -183,6 +217,71 @@ export class ASTParser {
     return lines.slice(start, end).join('\n');
   }
 
+  /**
+   * Finds the innermost function containing a location
+   * @param filePath - Path to the file
+   * @param lineNumber - 1-based line
+   * @param columnNumber - 1-based column (the start of the line if omitted)
+   * @returns Enclosing function, or null if the location is at the top level or the file is unknown
+   */
+  getEnclosingFunction(filePath: string, lineNumber: number, columnNumber: number = 1): EnclosingFunction | null {
+    const file = this.project.getSourceFile(filePath);
+    if (!file) return null;
+
+    const lineStarts = file.compilerNode.getLineStarts();
+    if (lineNumber < 1 || lineNumber > lineStarts.length) return null;
+
+    // Clamp the column to the line, since runtime columns can point past transformed code
+    const lineEnd = lineNumber < lineStarts.length ? lineStarts[lineNumber] - 1 : file.getEnd();
+    const position = Math.min(lineStarts[lineNumber - 1] + Math.max(0, columnNumber - 1), lineEnd);
+    // ts-morph's function-like declarations don't include function expressions
+    const isFunction = (candidate?: Node) => Node.isFunctionLikeDeclaration(candidate) || Node.isFunctionExpression(candidate);
+    const node = file.getDescendantAtPos(position);
+    const func = isFunction(node) ? node : node?.getFirstAncestor(isFunction);
+    if (!func) return null;
+
+    return {
+      name: this.getFunctionName(func),
+      startLine: func.getStartLineNumber(),
+      endLine: func.getEndLineNumber()
+    };
+  }
+
+  /**
+   * Gets a readable name for a function-like node
+   * @param func - Function, method, accessor, constructor or arrow function
+   * @returns Name such as greet, UserService.load or callback passed to describe
+   */
+  private getFunctionName(func: Node): string {
+    const parent = func.getParent();
+    const className = Node.isClassDeclaration(parent) || Node.isClassExpression(parent) ? parent.getName() : undefined;
+    const qualify = (name: string) => className ? `${className}.${name}` : name;
+
+    if (Node.isConstructorDeclaration(func)) {
+      return qualify('constructor');
+    }
+    if ((Node.isFunctionDeclaration(func) || Node.isFunctionExpression(func)) && func.getName()) {
+      return func.getName()!;
+    }
+    if (Node.isMethodDeclaration(func) || Node.isGetAccessorDeclaration(func) || Node.isSetAccessorDeclaration(func)) {
+      return qualify(func.getName());
+    }
+
+    // Anonymous functions are named after what they are assigned or passed to
+    if (Node.isVariableDeclaration(parent) || Node.isPropertyAssignment(parent)) {
+      return parent.getName();
+    }
+    if (Node.isPropertyDeclaration(parent)) {
+      const owner = parent.getParent();
+      const ownerName = Node.isClassDeclaration(owner) ? owner.getName() : undefined;
+      return ownerName ? `${ownerName}.${parent.getName()}` : parent.getName();
+    }
+    if (Node.isCallExpression(parent)) {
+      return `callback passed to ${parent.getExpression().getText().slice(0, 60)}`;
+    }
+    return '<anonymous>';
+  }
+
   /**
    * Checks if a file should be included in parsing
    * @param file - Source file to check
@@ -6,77 +6,137 @@
  * detailed, step-by-step implementation plans.
  */
 
-import OpenAI from 'openai';
 import type { PlanResponse, CodeChunk } from '@codeplanner/shared';
-import type { PlanGeneratorConfig } from '../types';
-import { getRateLimiter } from '../utils/rate-limiter';
+import type { ConversationMessage, PlanGeneratorConfig } from '../types';
+import { createChatProvider } from '../llm/chat-provider';
+import type { ChatMessage, ChatProvider } from '../llm/chat-provider';
+import { isRateLimitError } from '../utils/retry';
+import { parseModelJson, validatePlanResponse } from '../utils/validation';
+import type { ValidationResult } from '../utils/validation';
+
+/** Most recent session messages (five exchanges) sent along with the initial request when refining a plan */
+const MAX_SESSION_MESSAGES = 10;
 
 /**
- * LLM-powered plan generator using OpenAI GPT models
+ * LLM-powered plan generator
  * Generates detailed implementation plans based on user queries and code context
  */
 export class PlanGenerator {
-  private openai: OpenAI;
+  private provider: ChatProvider;
   private config: PlanGeneratorConfig;
 
-  constructor(config: PlanGeneratorConfig) {
+  /**
+   * @param config - Plan generator configuration
+   * @param provider - Chat provider (created from the configuration if omitted)
+   */
+  constructor(config: PlanGeneratorConfig, provider?: ChatProvider) {
     this.config = {
-      model: 'gpt-4-turbo-preview',
       temperature: 0.3,
       maxContextChunks: 15,
       ...config
     };
     
-    this.openai = new OpenAI({
-      apiKey: config.apiKey,
-      // Allow overriding the base URL for providers like OpenRouter
-      baseURL: config.baseUrl
-    });
+    this.provider = provider || createChatProvider(this.config);
   }
 
   /**
    * Generates an implementation plan based on user query and relevant code
    * @param query - User's planning query
    * @param relevantCode - Array of relevant code chunks from semantic search
+   * @param signal - Aborts the in-flight request when the job is cancelled
    * @returns Async generator that yields plan content as it's generated
    */
   async generatePlan(
     query: string,
-    relevantCode: CodeChunk[]
+    relevantCode: CodeChunk[],
+    signal?: AbortSignal
+  ): Promise<AsyncGenerator<string>> {
+    console.log(`🧠 Generating plan for query: "${query}"`);
+    return this.streamPlan([this.createPlanMessage(query, relevantCode)], signal);
+  }
+
+  /**
+   * Generates a revised plan for an interactive session
+   * The conversation ends with the user's latest prompt; the initial request (with its
+   * code context) and the most recent turns are sent to stay within the token limits
+   * @param messages - Conversation so far
+   * @param signal - Aborts the in-flight request when the job is cancelled
+   * @returns Async generator that yields plan content as it's generated
+   */
+  async refinePlan(
+    messages: ConversationMessage[],
+    signal?: AbortSignal
+  ): Promise<AsyncGenerator<string>> {
+    const recent = messages.slice(1).slice(-MAX_SESSION_MESSAGES);
+    console.log(`🧠 Refining plan (${Math.ceil(messages.length / 2)} turns)`);
+    return this.streamPlan([messages[0], ...recent], signal);
+  }
+
+  /**
+   * Builds the prompt that starts a plan conversation
+   * @param query - User's planning query
+   * @param relevantCode - Array of relevant code chunks from semantic search
+   * @returns User message with the query and code context
+   */
+  createPlanMessage(query: string, relevantCode: CodeChunk[]): ConversationMessage {
+    // Limit the number of context chunks to avoid token limits
+    const limitedCode = relevantCode.slice(0, this.config.maxContextChunks);
+    console.log(`📊 Using ${limitedCode.length} relevant code chunks as context`);
+    
+    return { role: 'user', content: this.buildPrompt(query, this.buildContext(limitedCode)) };
+  }
+
+  /**
+   * Builds the prompt for a follow-up in a plan conversation
+   * @param followUp - User's follow-up request
+   * @param newCode - Relevant code chunks not given to the model before
+   * @returns User message with the follow-up and any new code context
+   */
+  createFollowUpMessage(followUp: string, newCode: CodeChunk[]): ConversationMessage {
+    console.log(`📊 Adding ${newCode.length} new code chunks as context`);
+    
+    const context = newCode.length > 0
+      ? `\n\n## Additional Codebase Context\n${this.buildContext(newCode)}`
+      : '';
+    
+    return {
+      role: 'user',
+      content: `# Plan Revision Request
+
+## Follow-up
+${followUp}${context}
+
+## Task
+Revise your previous implementation plan to address the follow-up above.
+- Return the complete updated plan in the same format, not only the changes
+- Keep the parts of the plan the follow-up doesn't affect
+- Renumber the steps if steps are added, removed or split`
+    };
+  }
+
+  /**
+   * Streams a plan completion for a conversation
+   * @param messages - Conversation to send after the system prompt
+   * @param signal - Aborts the in-flight request when the job is cancelled
+   * @returns Async generator that yields plan content as it's generated
+   */
+  private async streamPlan(
+    messages: ConversationMessage[],
+    signal?: AbortSignal
   ): Promise<AsyncGenerator<string>> {
     try {
-      // Limit the number of context chunks to avoid token limits
-      const limitedCode = relevantCode.slice(0, this.config.maxContextChunks);
-      
-      // Build the context from relevant code
-      const context = this.buildContext(limitedCode);
-      
-      // Build the prompt for the LLM
-      const prompt = this.buildPrompt(query, context);
-      
-      console.log(`🧠 Generating plan for query: "${query}"`);
-      console.log(`📊 Using ${limitedCode.length} relevant code chunks as context`);
-      
-      // Create the streaming completion with retry/backoff
-      const limiter = getRateLimiter({ name: 'planning' });
-      const stream = await this.withRateLimitRetry(async () => {
-        return await limiter.schedule(async () => {
-          return await this.openai.chat.completions.create({
-            model: this.config.model!,
-            messages: [
-              {
-                role: 'system',
-                content: this.getSystemPrompt()
-              },
-              {
-                role: 'user',
-                content: prompt
-              }
-            ],
-            stream: true,
-            ...(this.getTokenParam(4000) as any)
-          });
-        }, 'chat.completions(stream)');
+      // Create the streaming completion (the provider retries rate limited requests)
+      const stream = await this.provider.stream({
+        messages: [
+          {
+            role: 'system',
+            content: this.getSystemPrompt()
+          },
+          ...messages
+        ],
+        maxTokens: 4000,
+        label: 'stream',
+        signal
       });
 
       // Return the streaming response
@@ -88,11 +148,7 @@ export class PlanGenerator {
         anyErr && typeof anyErr === 'object'
           ? anyErr.message || anyErr.toString()
           : String(error);
-      if (
-        (anyErr && anyErr.code === '429') ||
-        (anyErr && anyErr.status === 429) ||
-        /429/.test(errMsg)
-      ) {
+      if (isRateLimitError(anyErr)) {
         const help =
           `\n\n❌ You have hit the OpenAI (or provider) rate limit (429 Too Many Requests).\n` +
           `- Wait a few minutes and try again.\n` +
@@ -107,6 +163,130 @@ export class PlanGenerator {
     }
   }
 
+  /**
+   * Generates a structured implementation plan matching PlanResponse
+   * The model is asked for JSON, which is validated; invalid output gets one repair attempt
+   * @param query - User's planning query
+   * @param relevantCode - Array of relevant code chunks from semantic search
+   * @param signal - Aborts the in-flight request when the job is cancelled
+   * @returns Validated plan
+   */
+  async generateStructuredPlan(
+    query: string,
+    relevantCode: CodeChunk[],
+    signal?: AbortSignal
+  ): Promise<PlanResponse> {
+    const limitedCode = relevantCode.slice(0, this.config.maxContextChunks);
+    const context = this.buildContext(limitedCode);
+    
+    console.log(`🧠 Generating structured plan for query: "${query}"`);
+    console.log(`📊 Using ${limitedCode.length} relevant code chunks as context`);
+    
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `${this.getSystemPrompt()}\n\n${this.getStructuredOutputInstructions()}`
+      },
+      {
+        role: 'user',
+        content: this.buildStructuredPrompt(query, context)
+      }
+    ];
+    
+    const output = await this.completeJson(messages, signal);
+    let result = this.parseStructuredPlan(output);
+    
+    if (result.errors.length > 0) {
+      console.warn(`⚠️  Structured plan failed validation (${result.errors.length} issues), requesting a repair`);
+      const repaired = await this.completeJson([
+        ...messages,
+        { role: 'assistant', content: output },
+        {
+          role: 'user',
+          content: `Your JSON does not match the required schema:\n${result.errors.map(e => `- ${e}`).join('\n')}\n\n` +
+            'Return the corrected plan as a single JSON object that follows the schema exactly.'
+        }
+      ], signal);
+      result = this.parseStructuredPlan(repaired);
+    }
+    
+    if (!result.value) {
+      throw new Error(`Plan generation returned invalid JSON after one repair attempt: ${result.errors.slice(0, 5).join('; ')}`);
+    }
+    
+    console.log(`✅ Structured plan generated with ${result.value.steps.length} steps`);
+    return result.value;
+  }
+
+  /**
+   * Requests a JSON completion from the model
+   * @param messages - Chat messages to send
+   * @param signal - Aborts the in-flight request when the job is cancelled
+   * @returns Raw completion text
+   */
+  private async completeJson(messages: ChatMessage[], signal?: AbortSignal): Promise<string> {
+    return this.provider.complete({ messages, maxTokens: 4000, json: true, label: 'json', signal });
+  }
+
+  /**
+   * Parses and validates structured plan output
+   * @param output - Raw model output
+   * @returns Validation result with the plan if valid
+   */
+  private parseStructuredPlan(output: string): ValidationResult<PlanResponse> {
+    const parsed = parseModelJson(output);
+    return parsed.errors.length > 0 ? { errors: parsed.errors } : validatePlanResponse(parsed.value);
+  }
+
+  /**
+   * Builds the prompt for structured plan generation
+   * @param query - User's planning query
+   * @param context - Formatted code context
+   * @returns Complete prompt string
+   */
+  private buildStructuredPrompt(query: string, context: string): string {
+    return `# Implementation Planning Request
+
+## User Query
+${query}
+
+## Relevant Codebase Context
+${context}
+
+## Task
+Generate a step-by-step implementation plan for the query above as JSON.
+- Order steps so they can be implemented one after another
+- Use real file paths from the codebase context where they apply
+- Include a codeChange for steps that modify existing code, quoting the current code exactly in "before"
+- For new files, use an empty "before"
+- List every file touched by the plan in affectedFiles`;
+  }
+
+  /**
+   * Gets the output format instructions for structured plans
+   * @returns Instructions describing the PlanResponse JSON schema
+   */
+  private getStructuredOutputInstructions(): string {
+    return `Respond with a single JSON object and nothing else, using exactly this shape:
+
+{
+  "summary": string,                // 2-3 sentence overview of the plan
+  "steps": [
+    {
+      "stepNumber": number,         // 1-based, sequential
+      "action": string,             // e.g. "Create file", "Modify function"
+      "description": string,        // what to do and why
+      "filePath": string,           // optional, project-relative path
+      "codeChange": {               // optional
+        "before": string,           // existing code ("" for new code)
+        "after": string             // replacement code
+      }
+    }
+  ],
+  "affectedFiles": string[]         // every file the plan touches
+}`;
+  }
+
   /**
    * Builds context string from relevant code chunks
    * @param chunks - Array of relevant code chunks
@@ -209,18 +389,13 @@ Generate plans that are comprehensive yet practical, with clear steps that can b
   }
 
   /**
-   * Processes the streaming response from OpenAI
-   * @param stream - OpenAI streaming response
+   * Processes the streaming response from the provider
+   * @param stream - Provider streaming response
    * @returns Async generator yielding content chunks
    */
-  private async *streamResponse(stream: any): AsyncGenerator<string> {
+  private async *streamResponse(stream: AsyncIterable<string>): AsyncGenerator<string> {
     try {
-      for await (const chunk of stream) {
-        const content = chunk.choices[0]?.delta?.content;
-        if (content) {
-          yield content;
-        }
-      }
+      yield* stream;
     } catch (error) {
       console.error('❌ Error processing streaming response:', error);
       yield `\n\n❌ Error generating plan: ${error}`;
@@ -234,27 +409,22 @@ Generate plans that are comprehensive yet practical, with clear steps that can b
    */
   async generatePlanSummary(planContent: string): Promise<string> {
     try {
-      const response = await this.withRateLimitRetry(async () => {
-        const limiter = getRateLimiter({ name: 'planning' });
-        return await limiter.schedule(async () => {
-          return await this.openai.chat.completions.create({
-            model: this.config.model!,
-            messages: [
-              {
-                role: 'system',
-                content: 'You are a technical writer. Generate a concise summary of implementation plans.'
-              },
-              {
-                role: 'user',
-                content: `Please provide a 2-3 sentence summary of this implementation plan:\n\n${planContent}`
-              }
-            ],
-            ...(this.getTokenParam(200) as any)
-          });
-        }, 'chat.completions(summary)');
+      const summary = await this.provider.complete({
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a technical writer. Generate a concise summary of implementation plans.'
+          },
+          {
+            role: 'user',
+            content: `Please provide a 2-3 sentence summary of this implementation plan:\n\n${planContent}`
+          }
+        ],
+        maxTokens: 200,
+        label: 'summary'
       });
 
-      return response.choices[0]?.message?.content || 'Summary generation failed';
+      return summary || 'Summary generation failed';
     } catch (error) {
       console.error('❌ Failed to generate plan summary:', error);
       return 'Summary generation failed';
@@ -272,15 +442,11 @@ Generate plans that are comprehensive yet practical, with clear steps that can b
     suggestions: string[];
   }> {
     try {
-      const response = await this.withRateLimitRetry(async () => {
-        const limiter = getRateLimiter({ name: 'planning' });
-        return await limiter.schedule(async () => {
-          return await this.openai.chat.completions.create({
-            model: this.config.model!,
-            messages: [
-              {
-                role: 'system',
-                content: `You are a code review expert. Evaluate implementation plans for completeness and quality.
+      const evaluation = await this.provider.complete({
+        messages: [
+          {
+            role: 'system',
+            content: `You are a code review expert. Evaluate implementation plans for completeness and quality.
             
             Rate plans on:
             - Clarity and specificity of steps
@@ -291,18 +457,15 @@ Generate plans that are comprehensive yet practical, with clear steps that can b
             - Code examples quality
             
             Provide a score from 1-10 and specific suggestions for improvement.`
-              },
-              {
-                role: 'user',
-                content: `Please evaluate this implementation plan:\n\n${planContent}`
-              }
-            ],
-            ...(this.getTokenParam(500) as any)
-          });
-        }, 'chat.completions(validate)');
+          },
+          {
+            role: 'user',
+            content: `Please evaluate this implementation plan:\n\n${planContent}`
+          }
+        ],
+        maxTokens: 500,
+        label: 'validate'
       });
-
-      const evaluation = response.choices[0]?.message?.content || '';
       
       // Simple parsing of the evaluation (in a real implementation, you'd want more robust parsing)
       const scoreMatch = evaluation.match(/(\d+)\/10/);
@@ -328,59 +491,16 @@ Generate plans that are comprehensive yet practical, with clear steps that can b
    * @returns Generator statistics
    */
   getStats(): {
+    provider: string;
     model: string;
     temperature: number;
     maxContextChunks: number;
   } {
     return {
-      model: this.config.model!,
+      provider: this.provider.name,
+      model: this.provider.model,
       temperature: this.config.temperature!,
       maxContextChunks: this.config.maxContextChunks!
     };
   }
-
-  /**
-   * Generic retry with exponential backoff and jitter for rate limiting (429)
-   */
-  private async withRateLimitRetry<T>(fn: () => Promise<T>, options?: {
-    retries?: number;
-    baseDelayMs?: number;
-    maxDelayMs?: number;
-  }): Promise<T> {
-    const retries = options?.retries ?? 5;
-    const baseDelayMs = options?.baseDelayMs ?? 500;
-    const maxDelayMs = options?.maxDelayMs ?? 8000;
-
-    let attempt = 0;
-    let lastErr: any;
-
-    while (attempt <= retries) {
-      try {
-        return await fn();
-      } catch (err: any) {
-        lastErr = err;
-        const status = err?.status || err?.code;
-        const isRateLimit = status === 429 || /429/.test(String(err?.message ?? ''));
-        if (!isRateLimit || attempt === retries) {
-          throw err;
-        }
-
-        // Honor Retry-After if present
-        const retryAfterHeader = err?.headers?.get?.('retry-after') || err?.response?.headers?.get?.('retry-after');
-        let delay = retryAfterHeader ? Number(retryAfterHeader) * 1000 : Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
-        // Add jitter
-        delay = Math.min(maxDelayMs, delay + Math.floor(Math.random() * 250));
-        const label = retryAfterHeader ? `Retry-After ${retryAfterHeader}s` : `${delay}ms`;
-        console.warn(`⏳ Rate limited (429). Retrying in ${label}... (attempt ${attempt + 1}/${retries})`);
-        await new Promise(res => setTimeout(res, delay));
-        attempt++;
-      }
-    }
-
-    throw lastErr;
-  }
-
-  private getTokenParam(value: number): any {
-    return { max_completion_tokens: value };
-  }
 }
@@ -0,0 +1,66 @@
+/**
+ * Plan Session Store for CodePlanner Engine
+ *
+ * This module persists interactive planning sessions in Redis, so a
+ * conversation can be continued by any worker and resumed later from
+ * the CLI with its session ID.
+ */
+
+import type { RedisClientType } from 'redis';
+import type { PlanSession } from '../types';
+
+/** Key prefix for planning sessions */
+const SESSION_KEY_PREFIX = 'codeplanner:sessions';
+
+/** How long an idle session is kept */
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Redis-backed store for interactive planning sessions
+ */
+export class PlanSessionStore {
+  private redis: RedisClientType;
+
+  constructor(redis: RedisClientType) {
+    this.redis = redis;
+  }
+
+  /**
+   * Loads a session
+   * @param sessionId - Session ID
+   * @returns The session, or null if it doesn't exist or has expired
+   */
+  async get(sessionId: string): Promise<PlanSession | null> {
+    try {
+      const data = await this.redis.get(this.getSessionKey(sessionId));
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.error(`❌ Failed to load session ${sessionId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Saves a session, refreshing its expiry
+   * @param session - Session to save
+   */
+  async save(session: PlanSession): Promise<void> {
+    try {
+      await this.redis.set(this.getSessionKey(session.sessionId), JSON.stringify(session), {
+        EX: SESSION_TTL_SECONDS
+      });
+    } catch (error) {
+      console.error(`❌ Failed to save session ${session.sessionId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the Redis key of a session
+   * @param sessionId - Session ID
+   * @returns Redis key
+   */
+  private getSessionKey(sessionId: string): string {
+    return `${SESSION_KEY_PREFIX}:${sessionId}`;
+  }
+}
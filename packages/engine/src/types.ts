@@ -5,7 +5,7 @@
  * that are not shared with other packages.
  */
 
-import type { CodeChunk } from '@codeplanner/shared';
+import type { CodeChunk, ParsedError } from '@codeplanner/shared';
 
 /**
  * Configuration for the AST parser
@@ -19,20 +19,46 @@ export interface ASTParserConfig {
   includeNodeModules?: boolean;
   /** File extensions to parse */
   fileExtensions?: string[];
+  /** Specific files to parse instead of the whole project */
+  files?: string[];
+}
+
+/**
+ * Function (or method) containing a source location
+ */
+export interface EnclosingFunction {
+  /** Readable name: function name, Class.method, or the call an anonymous callback is passed to */
+  name: string;
+  /** First line of the function (1-based) */
+  startLine: number;
+  /** Last line of the function (1-based) */
+  endLine: number;
+}
+
+/**
+ * Configuration for the source map resolver
+ */
+export interface SourceMapResolverConfig {
+  /** Path to the project the stack trace comes from */
+  projectPath: string;
 }
 
 /**
  * Configuration for the embedding generator
  */
 export interface EmbeddingConfig {
-  /** OpenAI API key */
-  apiKey: string;
-  /** Embedding model to use */
+  /** Embedding provider: an OpenAI-compatible API or the offline local provider */
+  provider?: 'openai' | 'local';
+  /** OpenAI API key (required by the openai provider) */
+  apiKey?: string;
+  /** Embedding model to use (openai provider) */
   model?: string;
   /** Base URL to override API endpoint (e.g., OpenRouter) */
   baseUrl?: string;
   /** Batch size for embedding generation */
   batchSize?: number;
+  /** Number of dimensions of the local provider's embeddings */
+  dimensions?: number;
 }
 
 /**
@@ -45,24 +71,112 @@ export interface VectorStoreConfig {
   keyPrefix?: string;
   /** Maximum number of results to return in search */
   maxResults?: number;
+  /** Reciprocal-rank fusion constant used to combine vector and keyword rankings */
+  rrfK?: number;
+  /** Use a RediSearch vector index when the server supports it (brute-force search otherwise) */
+  searchIndex?: boolean;
 }
 
 /**
- * Configuration for the plan generator
+ * Configuration for the SQLite vector store
+ */
+export interface SqliteVectorStoreConfig {
+  /** Path of the database file */
+  path: string;
+  /** Maximum number of results to return in search */
+  maxResults?: number;
+  /** Reciprocal-rank fusion constant used to combine vector and keyword rankings */
+  rrfK?: number;
+}
+
+/**
+ * A code chunk returned by search, with its retrieval scores
  */
-export interface PlanGeneratorConfig {
-  /** OpenAI API key */
-  apiKey: string;
-  /** Model to use for plan generation */
+export interface ScoredChunk extends CodeChunk {
+  /** Cosine similarity of the chunk's embedding to the query (0-1) */
+  similarity: number;
+  /** BM25 score of the chunk's terms against the query (0 if no keyword matches) */
+  lexicalScore: number;
+  /** Reciprocal-rank fusion of the vector and keyword rankings, used for ordering */
+  score: number;
+}
+
+/**
+ * Supported chat model providers
+ */
+export type ChatProviderName = 'openai' | 'anthropic' | 'ollama' | 'mock';
+
+/**
+ * Configuration for a chat model provider
+ */
+export interface ChatProviderConfig {
+  /** Provider API style: OpenAI-compatible, Anthropic messages, Ollama or scripted mock */
+  provider?: ChatProviderName;
+  /** API key (required by the openai and anthropic providers) */
+  apiKey?: string;
+  /** Model to use (defaults per provider) */
   model?: string;
-  /** Base URL to override API endpoint (e.g., OpenRouter) */
+  /** Base URL to override API endpoint (e.g., OpenRouter, a remote Ollama host) */
   baseUrl?: string;
+  /** JSON file of fixtures replayed by the mock provider */
+  fixturesPath?: string;
+}
+
+/**
+ * Configuration for the plan generator
+ */
+export interface PlanGeneratorConfig extends ChatProviderConfig {
   /** Temperature for plan generation */
   temperature?: number;
   /** Maximum number of relevant code chunks to include */
   maxContextChunks?: number;
 }
 
+/**
+ * A distinct error among parsed errors, with the errors that share its root cause
+ */
+export interface RootCauseGroup {
+  /** Identifier in fix order (E1, E2, ...) */
+  id: string;
+  /** First reported occurrence */
+  error: ParsedError;
+  /** Cascading and repeated errors attributed to the same cause */
+  related: ParsedError[];
+}
+
+/**
+ * A message in a planning conversation
+ */
+export interface ConversationMessage {
+  /** Who sent the message */
+  role: 'user' | 'assistant';
+  /** Message content (prompts include the code context they were sent with) */
+  content: string;
+}
+
+/**
+ * Interactive planning session
+ * Keeps the conversation so follow-ups can revise the previous plan
+ */
+export interface PlanSession {
+  /** Session ID chosen by the client */
+  sessionId: string;
+  /** User that owns the session */
+  userId: string;
+  /** Project the session plans for */
+  projectId: string;
+  /** Query that started the session */
+  query: string;
+  /** Conversation so far, alternating user prompts and generated plans */
+  messages: ConversationMessage[];
+  /** IDs of the code chunks already given to the model */
+  contextChunkIds: string[];
+  /** Creation timestamp (ms) */
+  createdAt: number;
+  /** Last update timestamp (ms) */
+  updatedAt: number;
+}
+
 /**
  * Job message structure for Redis pub/sub
  * Used to communicate between gateway and worker processes
@@ -94,6 +208,60 @@ export interface JobResult {
   data: any;
   /** Timestamp */
   timestamp: number;
+  /** Position of the result in the job's result stream (used to resume) */
+  seq?: number;
+}
+
+/**
+ * Receives the results of processed jobs
+ * The worker publishes them to Redis unless given another sink
+ */
+export type ResultSink = (result: JobResult) => Promise<void>;
+
+/**
+ * A parsed source file with its content hash and extracted chunks
+ */
+export interface ParsedFile {
+  /** Absolute path of the source file */
+  filePath: string;
+  /** Hash of the full file content */
+  contentHash: string;
+  /** Code chunks extracted from the file */
+  chunks: CodeChunk[];
+}
+
+/**
+ * Result of parsing a project's source files
+ */
+export interface ParseResult {
+  /** Files that were parsed */
+  files: ParsedFile[];
+  /** Files that failed to parse; their previously indexed chunks should be kept */
+  failedFiles: string[];
+}
+
+/**
+ * File-level change counts produced by an incremental index run
+ */
+export interface IndexSummary {
+  /** Files that were not indexed before */
+  added: number;
+  /** Files whose content hash changed */
+  updated: number;
+  /** Files whose content hash is unchanged */
+  unchanged: number;
+  /** Previously indexed files that no longer exist */
+  deleted: number;
+}
+
+/**
+ * Embedding cache hits and misses
+ */
+export interface EmbeddingCacheStats {
+  /** Embeddings found in the cache */
+  hits: number;
+  /** Embeddings that had to be generated */
+  misses: number;
 }
 
 /**
@@ -0,0 +1,17 @@
+/**
+ * Content hashing utilities for CodePlanner Engine
+ *
+ * Provides stable content hashes used to detect which files changed
+ * between indexing runs.
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Computes a SHA-256 hex digest of the given content
+ * @param content - Text content to hash
+ * @returns Hex-encoded hash string
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
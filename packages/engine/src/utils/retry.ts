@@ -0,0 +1,67 @@
+/**
+ * Retry utilities for CodePlanner Engine
+ *
+ * Provides the backoff used by every model provider when an API answers
+ * with 429 Too Many Requests.
+ */
+
+/**
+ * Options for rate limit retries
+ */
+export interface RetryOptions {
+  /** Number of retries after the first attempt */
+  retries?: number;
+  /** Delay before the first retry, doubled on every attempt */
+  baseDelayMs?: number;
+  /** Upper bound of a single delay */
+  maxDelayMs?: number;
+}
+
+/**
+ * Checks whether an error is a rate limit (429) response
+ * @param err - Error thrown by a provider request
+ * @returns true if the request was rate limited
+ */
+export function isRateLimitError(err: any): boolean {
+  const status = err?.status || err?.code;
+  return status === 429 || status === '429' || /429/.test(String(err?.message ?? ''));
+}
+
+/**
+ * Generic retry with exponential backoff and jitter for rate limiting (429)
+ * Honors the Retry-After header when the error carries response headers
+ * @param fn - Request to run
+ * @param options - Retry options
+ * @returns Result of the first successful attempt
+ */
+export async function withRateLimitRetry<T>(fn: () => Promise<T>, options?: RetryOptions): Promise<T> {
+  const retries = options?.retries ?? 5;
+  const baseDelayMs = options?.baseDelayMs ?? 500;
+  const maxDelayMs = options?.maxDelayMs ?? 8000;
+
+  let attempt = 0;
+  let lastErr: any;
+
+  while (attempt <= retries) {
+    try {
+      return await fn();
+    } catch (err: any) {
+      lastErr = err;
+      if (!isRateLimitError(err) || attempt === retries) {
+        throw err;
+      }
+
+      // Honor Retry-After if present
+      const retryAfterHeader = err?.headers?.get?.('retry-after') || err?.response?.headers?.get?.('retry-after');
+      let delay = retryAfterHeader ? Number(retryAfterHeader) * 1000 : Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+      // Add jitter
+      delay = Math.min(maxDelayMs, delay + Math.floor(Math.random() * 250));
+      const label = retryAfterHeader ? `Retry-After ${retryAfterHeader}s` : `${delay}ms`;
+      console.warn(`⏳ Rate limited (429). Retrying in ${label}... (attempt ${attempt + 1}/${retries})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      attempt++;
+    }
+  }
+
+  throw lastErr;
+}
@@ -0,0 +1,233 @@
+/**
+ * Validation utilities for CodePlanner Engine
+ *
+ * This module validates structured (JSON) model output against the
+ * shared response types, collecting readable errors that can be fed
+ * back to the model in a repair request.
+ */
+
+import type { DebuggingPlan, PlanResponse } from '@codeplanner/shared';
+
+/**
+ * Result of validating untrusted data
+ */
+export interface ValidationResult<T> {
+  /** The validated value (only set when there are no errors) */
+  value?: T;
+  /** Problems found, as JSON-path prefixed messages */
+  errors: string[];
+}
+
+/**
+ * Parses JSON returned by a model, tolerating surrounding Markdown code fences
+ * @param text - Raw model output
+ * @returns Parsed value, or errors if the text is not valid JSON
+ */
+export function parseModelJson(text: string): ValidationResult<unknown> {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const json = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return { value: JSON.parse(json), errors: [] };
+  } catch (error) {
+    return { errors: [`Output is not valid JSON: ${(error as Error).message}`] };
+  }
+}
+
+/**
+ * Validates a value against the PlanResponse type
+ * @param input - Value to validate (usually parsed model output)
+ * @returns Validation result with the typed plan if valid
+ */
+export function validatePlanResponse(input: unknown): ValidationResult<PlanResponse> {
+  const errors: string[] = [];
+
+  if (!isObject(input)) {
+    return { errors: ['$: expected an object'] };
+  }
+
+  checkString(input, 'summary', '$', errors);
+  checkSteps(input, errors);
+  checkStringArray(input, 'affectedFiles', '$', errors);
+
+  return errors.length === 0 ? { value: input as unknown as PlanResponse, errors } : { errors };
+}
+
+/**
+ * Validates a value against the DebuggingPlan type
+ * @param input - Value to validate (usually parsed model output)
+ * @param errorIds - IDs of the analyzed errors that steps' resolves may name (optional)
+ * @returns Validation result with the typed debugging plan if valid
+ */
+export function validateDebuggingPlan(input: unknown, errorIds?: string[]): ValidationResult<DebuggingPlan> {
+  const errors: string[] = [];
+
+  if (!isObject(input)) {
+    return { errors: ['$: expected an object'] };
+  }
+
+  checkString(input, 'summary', '$', errors);
+  checkString(input, 'rootCause', '$', errors);
+  checkSteps(input, errors);
+  checkStringArray(input, 'affectedFiles', '$', errors);
+  if (errorIds && Array.isArray(input.steps)) {
+    input.steps.forEach((step, index) => {
+      if (isObject(step)) {
+        checkResolves(step, `$.steps[${index}]`, errorIds, errors);
+      }
+    });
+  }
+
+  return errors.length === 0 ? { value: input as unknown as DebuggingPlan, errors } : { errors };
+}
+
+/**
+ * Checks whether a value is a plain object
+ * @param value - Value to check
+ * @returns true if the value is a non-null, non-array object
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks that a property is a non-empty string
+ * @param obj - Object holding the property
+ * @param key - Property name
+ * @param path - JSON path of the object (for error messages)
+ * @param errors - Error list to append to
+ * @param optional - Whether the property may be missing
+ */
+export function checkString(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  errors: string[],
+  optional: boolean = false
+): void {
+  const value = obj[key];
+  if (value === undefined || value === null) {
+    if (!optional) {
+      errors.push(`${path}.${key}: required`);
+    }
+    return;
+  }
+  if (typeof value !== 'string' || (!optional && value.trim() === '')) {
+    errors.push(`${path}.${key}: expected a non-empty string`);
+  }
+}
+
+/**
+ * Checks that a property is an array of strings
+ * @param obj - Object holding the property
+ * @param key - Property name
+ * @param path - JSON path of the object (for error messages)
+ * @param errors - Error list to append to
+ */
+export function checkStringArray(obj: Record<string, unknown>, key: string, path: string, errors: string[]): void {
+  const value = obj[key];
+  if (!Array.isArray(value)) {
+    errors.push(`${path}.${key}: expected an array of strings`);
+    return;
+  }
+  value.forEach((item, index) => {
+    if (typeof item !== 'string') {
+      errors.push(`${path}.${key}[${index}]: expected a string`);
+    }
+  });
+}
+
+/**
+ * Checks the `steps` array shared by plans and debugging plans
+ * Steps must be objects with sequential step numbers starting at 1
+ * @param obj - Plan object
+ * @param errors - Error list to append to
+ */
+export function checkSteps(obj: Record<string, unknown>, errors: string[]): void {
+  const steps = obj.steps;
+  if (!Array.isArray(steps)) {
+    errors.push('$.steps: expected an array');
+    return;
+  }
+  if (steps.length === 0) {
+    errors.push('$.steps: expected at least one step');
+    return;
+  }
+
+  steps.forEach((step, index) => {
+    const path = `$.steps[${index}]`;
+    if (!isObject(step)) {
+      errors.push(`${path}: expected an object`);
+      return;
+    }
+
+    checkStepNumber(step, path, errors);
+    if (Number.isInteger(step.stepNumber) && step.stepNumber !== index + 1) {
+      errors.push(`${path}.stepNumber: expected ${index + 1} (steps must be numbered in order)`);
+    }
+    checkString(step, 'action', path, errors);
+    checkString(step, 'description', path, errors);
+    checkString(step, 'filePath', path, errors, true);
+    checkCodeChange(step, path, errors);
+  });
+}
+
+/**
+ * Checks that a step has a positive integer step number
+ * @param step - Step object
+ * @param path - JSON path of the step
+ * @param errors - Error list to append to
+ */
+export function checkStepNumber(step: Record<string, unknown>, path: string, errors: string[]): void {
+  if (!Number.isInteger(step.stepNumber) || (step.stepNumber as number) < 1) {
+    errors.push(`${path}.stepNumber: expected a positive integer`);
+  }
+}
+
+/**
+ * Checks the optional list of error IDs a debugging step resolves
+ * @param step - Step object
+ * @param path - JSON path of the step
+ * @param errorIds - IDs of the analyzed errors
+ * @param errors - Error list to append to
+ */
+export function checkResolves(
+  step: Record<string, unknown>,
+  path: string,
+  errorIds: string[],
+  errors: string[]
+): void {
+  if (step.resolves === undefined || step.resolves === null) {
+    return;
+  }
+  checkStringArray(step, 'resolves', path, errors);
+  if (Array.isArray(step.resolves)) {
+    step.resolves.forEach((id, index) => {
+      if (typeof id === 'string' && !errorIds.includes(id)) {
+        errors.push(`${path}.resolves[${index}]: unknown error ID "${id}" (expected one of ${errorIds.join(', ')})`);
+      }
+    });
+  }
+}
+
+/**
+ * Checks the optional before/after code change of a step
+ * @param step - Step object
+ * @param path - JSON path of the step
+ * @param errors - Error list to append to
+ */
+export function checkCodeChange(step: Record<string, unknown>, path: string, errors: string[]): void {
+  const change = step.codeChange;
+  if (change === undefined || change === null) {
+    return;
+  }
+  if (!isObject(change)) {
+    errors.push(`${path}.codeChange: expected an object with "before" and "after"`);
+    return;
+  }
+  for (const key of ['before', 'after']) {
+    if (typeof change[key] !== 'string') {
+      errors.push(`${path}.codeChange.${key}: expected a string`);
+    }
+  }
+}
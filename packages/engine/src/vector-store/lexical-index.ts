@@ -0,0 +1,145 @@
+/**
+ * Lexical Index for CodePlanner Engine
+ *
+ * This module provides the keyword side of hybrid retrieval. Chunks are
+ * tokenized into identifier-aware terms (so `handleJobResult` matches
+ * both itself and `handle`, `job`, `result`), scored with BM25 and fused
+ * with vector similarity using reciprocal-rank fusion.
+ */
+
+import type { CodeChunk } from '@codeplanner/shared';
+
+/** BM25 term frequency saturation */
+const BM25_K1 = 1.2;
+
+/** BM25 document length normalization */
+const BM25_B = 0.75;
+
+/** Extra weight of terms from a chunk's name, which usually is what queries refer to */
+const NAME_WEIGHT = 3;
+
+/** Extra weight of terms from a chunk's file path */
+const PATH_WEIGHT = 2;
+
+/** Terms too common in code and queries to carry meaning */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'of',
+  'on', 'or', 'the', 'this', 'to', 'with', 'const', 'let', 'var', 'return', 'import', 'export'
+]);
+
+/**
+ * Term statistics of one chunk, stored alongside its vector
+ */
+export interface LexicalDocument {
+  /** Weighted term frequencies */
+  terms: Record<string, number>;
+  /** Total weighted term count (document length) */
+  length: number;
+}
+
+/**
+ * Splits text into lowercase search terms
+ * Identifiers are kept whole and also split on camelCase, snake_case and digits,
+ * so exact names and their parts both match
+ * @param text - Text to tokenize
+ * @returns Terms in order of appearance
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const match of text.matchAll(/[A-Za-z_$][A-Za-z0-9_$]*|\d+/g)) {
+    const word = match[0];
+    const whole = word.toLowerCase();
+    if (whole.length > 1 && !STOP_WORDS.has(whole)) {
+      terms.push(whole);
+    }
+
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/)
+      .map(part => part.toLowerCase())
+      .filter(part => part.length > 1 && part !== whole && !STOP_WORDS.has(part));
+    if (parts.length > 1) {
+      terms.push(...parts);
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Builds the term statistics of a chunk from its name, file path and content
+ * @param chunk - Code chunk to index
+ * @returns Weighted term frequencies and document length
+ */
+export function buildLexicalDocument(chunk: CodeChunk): LexicalDocument {
+  const terms: Record<string, number> = {};
+  let length = 0;
+
+  const add = (text: string, weight: number) => {
+    for (const term of tokenize(text)) {
+      terms[term] = (terms[term] || 0) + weight;
+      length += weight;
+    }
+  };
+
+  add(chunk.content, 1);
+  add(chunk.filePath, PATH_WEIGHT);
+  if (chunk.name) {
+    add(chunk.name, NAME_WEIGHT);
+  }
+
+  return { terms, length };
+}
+
+/**
+ * Scores documents against a query with BM25
+ * Document frequencies are taken from the given documents, i.e. the project's chunks
+ * @param query - Query text
+ * @param documents - Term statistics of every candidate chunk
+ * @returns BM25 score per document, in the same order (0 when no term matches)
+ */
+export function scoreBM25(query: string, documents: LexicalDocument[]): number[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || documents.length === 0) {
+    return documents.map(() => 0);
+  }
+
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const df = documents.filter(doc => doc.terms[term]).length;
+    idf.set(term, Math.log(1 + (documents.length - df + 0.5) / (df + 0.5)));
+  }
+
+  return documents.map(doc => {
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = doc.terms[term];
+      if (!tf) {
+        continue;
+      }
+      const norm = BM25_K1 * (1 - BM25_B + BM25_B * (doc.length / averageLength));
+      score += idf.get(term)! * ((tf * (BM25_K1 + 1)) / (tf + norm));
+    }
+    return score;
+  });
+}
+
+/**
+ * Fuses rankings with reciprocal-rank fusion
+ * Each ranking contributes 1 / (k + rank) for every item it contains
+ * @param rankings - Item IDs ordered best first, one array per ranking
+ * @param k - Damping constant; higher values flatten the contribution of top ranks
+ * @returns Fused score per item ID
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = 60): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + index + 1));
+    });
+  }
+  return scores;
+}
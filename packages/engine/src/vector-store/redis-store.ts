@@ -4,24 +4,42 @@
  * This module provides vector storage and similarity search capabilities
  * using Redis as the backend. It stores code chunk embeddings and enables
  * fast semantic search for relevant code during planning operations.
+ * 
+ * When the server has the Redis query engine (Redis Stack, or Redis 8+),
+ * chunks are indexed with an HNSW vector field and searched with KNN
+ * queries; otherwise every chunk of the project is scanned and scored.
  */
 
-import { createClient, RedisClientType } from 'redis';
+import { createClient, RedisClientType, SchemaFieldTypes, VectorAlgorithms } from 'redis';
 import type { CodeChunk } from '@codeplanner/shared';
-import type { VectorStoreConfig } from '../types';
+import type { ScoredChunk, VectorStoreConfig } from '../types';
+import { buildLexicalDocument, scoreBM25, tokenize } from './lexical-index';
+import type { LexicalDocument } from './lexical-index';
+import { cosineSimilarity, rankChunks } from './vector-store';
+import type { VectorStore, VectorStoreStats } from './vector-store';
+
+/** Chunk hash fields returned by index queries */
+const SEARCH_RETURN_FIELDS = ['id', 'content', 'type', 'filePath', 'name', 'embedding'];
+
+/** Minimum number of candidates fetched from each index query before fusion */
+const MIN_SEARCH_CANDIDATES = 50;
 
 /**
  * Redis-based vector store for code chunk embeddings
  * Provides storage, retrieval, and similarity search functionality
  */
-export class RedisVectorStore {
+export class RedisVectorStore implements VectorStore {
   private redis: RedisClientType;
   private config: VectorStoreConfig;
+  // Whether the search index for an embedding dimension is usable, once checked
+  private searchIndexes: Map<number, boolean> = new Map();
 
   constructor(config: VectorStoreConfig) {
     this.config = {
       keyPrefix: 'codeplanner:vectors',
       maxResults: 20,
+      rrfK: 60,
+      searchIndex: true,
       ...config
     };
     
@@ -58,9 +76,11 @@ export class RedisVectorStore {
     }
 
     try {
+      await this.ensureSearchIndex(chunk.embedding.length);
       const key = this.getChunkKey(userId, projectId, chunk.id);
+      const lexical = buildLexicalDocument(chunk);
       
-      // Store chunk metadata and embedding
+      // Store chunk metadata, embedding and keyword terms
       await this.redis.hSet(key, {
         id: chunk.id,
         content: chunk.content,
@@ -68,11 +88,15 @@ export class RedisVectorStore {
         filePath: chunk.filePath,
         name: chunk.name || '',
         embedding: JSON.stringify(chunk.embedding),
+        terms: JSON.stringify(lexical.terms),
+        termCount: lexical.length.toString(),
+        ...this.getSearchFields(userId, projectId, chunk.embedding, lexical),
         createdAt: Date.now().toString()
       });
       
-      // Add to project index for easy cleanup
+      // Add to project and file indexes for easy cleanup
       await this.redis.sAdd(this.getProjectIndexKey(userId, projectId), chunk.id);
+      await this.redis.sAdd(this.getFileIndexKey(userId, projectId, chunk.filePath), chunk.id);
       
       console.log(`💾 Stored chunk: ${chunk.id}`);
     } catch (error) {
@@ -90,6 +114,11 @@ export class RedisVectorStore {
   async storeChunks(userId: string, projectId: string, chunks: CodeChunk[]): Promise<void> {
     console.log(`📦 Storing ${chunks.length} chunks in batch...`);
     
+    const dimension = chunks.find(chunk => chunk.embedding)?.embedding!.length;
+    if (dimension) {
+      await this.ensureSearchIndex(dimension);
+    }
+    
     const pipeline = this.redis.multi();
     
     for (const chunk of chunks) {
@@ -99,6 +128,7 @@ export class RedisVectorStore {
       }
       
       const key = this.getChunkKey(userId, projectId, chunk.id);
+      const lexical = buildLexicalDocument(chunk);
       
       pipeline.hSet(key, {
         id: chunk.id,
@@ -107,10 +137,14 @@ export class RedisVectorStore {
         filePath: chunk.filePath,
         name: chunk.name || '',
         embedding: JSON.stringify(chunk.embedding),
+        terms: JSON.stringify(lexical.terms),
+        termCount: lexical.length.toString(),
+        ...this.getSearchFields(userId, projectId, chunk.embedding, lexical),
         createdAt: Date.now().toString()
       });
       
       pipeline.sAdd(this.getProjectIndexKey(userId, projectId), chunk.id);
+      pipeline.sAdd(this.getFileIndexKey(userId, projectId, chunk.filePath), chunk.id);
     }
     
     await pipeline.exec();
@@ -118,20 +152,31 @@ export class RedisVectorStore {
   }
 
   /**
-   * Searches for similar code chunks using vector similarity
+   * Searches for relevant code chunks
+   * Chunks are ranked by vector similarity and, when the query text is given, by BM25
+   * keyword score as well; the two rankings are combined with reciprocal-rank fusion
    * @param userId - User identifier
    * @param projectId - Project identifier
    * @param queryEmbedding - Query embedding to search for
    * @param limit - Maximum number of results to return
-   * @returns Array of similar code chunks with similarity scores
+   * @param queryText - Query text for keyword matching (vector-only search if omitted)
+   * @returns Array of relevant code chunks with similarity, keyword and fused scores
    */
   async searchSimilar(
     userId: string,
     projectId: string,
     queryEmbedding: number[],
-    limit: number = 10
-  ): Promise<Array<CodeChunk & { similarity: number }>> {
+    limit: number = 10,
+    queryText?: string
+  ): Promise<ScoredChunk[]> {
     try {
+      if (await this.ensureSearchIndex(queryEmbedding.length)) {
+        const indexed = await this.searchIndexed(userId, projectId, queryEmbedding, limit, queryText);
+        if (indexed) {
+          return indexed;
+        }
+      }
+      
       // Get all chunk IDs for this project
       const chunkIds = await this.redis.sMembers(this.getProjectIndexKey(userId, projectId));
       
@@ -143,7 +188,8 @@ export class RedisVectorStore {
       console.log(`🔍 Searching ${chunkIds.length} chunks for similar code...`);
       
       // Retrieve all chunks and calculate similarities
-      const chunks: Array<CodeChunk & { similarity: number }> = [];
+      const chunks: ScoredChunk[] = [];
+      const documents: LexicalDocument[] = [];
       
       for (const chunkId of chunkIds) {
         const key = this.getChunkKey(userId, projectId, chunkId);
@@ -151,27 +197,36 @@ export class RedisVectorStore {
         
         if (data.embedding) {
           const embedding = JSON.parse(data.embedding);
-          const similarity = this.cosineSimilarity(queryEmbedding, embedding);
+          const similarity = cosineSimilarity(queryEmbedding, embedding);
           
-          chunks.push({
+          const chunk: ScoredChunk = {
             id: data.id,
             content: data.content,
-            type: data.type as any,
+            type: data.type as CodeChunk['type'],
             filePath: data.filePath,
             name: data.name || undefined,
             embedding: embedding,
-            similarity
-          });
+            similarity,
+            lexicalScore: 0,
+            score: 0
+          };
+          chunks.push(chunk);
+          
+          // Chunks stored before keyword terms were recorded are tokenized on the fly
+          documents.push(data.terms
+            ? { terms: JSON.parse(data.terms), length: Number(data.termCount) }
+            : buildLexicalDocument(chunk));
         }
       }
       
-      // Sort by similarity and return top results
-      const results = chunks
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, Math.min(limit, this.config.maxResults!));
+      if (queryText) {
+        const lexicalScores = scoreBM25(queryText, documents);
+        chunks.forEach((chunk, index) => {
+          chunk.lexicalScore = lexicalScores[index];
+        });
+      }
       
-      console.log(`🎯 Found ${results.length} similar chunks (top similarity: ${results[0]?.similarity.toFixed(3) || 0})`);
-      return results;
+      return rankChunks(chunks, Math.min(limit, this.config.maxResults!), this.config.rrfK);
       
     } catch (error) {
       console.error('❌ Failed to search similar chunks:', error);
@@ -179,6 +234,192 @@ export class RedisVectorStore {
     }
   }
 
+  /**
+   * Searches the vector index with a KNN query, plus a BM25 keyword query when
+   * the query text is given
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @param queryEmbedding - Query embedding to search for
+   * @param limit - Maximum number of results to return
+   * @param queryText - Query text for keyword matching
+   * @returns Ranked chunks, or null if the index can't answer and the project must be scanned
+   */
+  private async searchIndexed(
+    userId: string,
+    projectId: string,
+    queryEmbedding: number[],
+    limit: number,
+    queryText?: string
+  ): Promise<ScoredChunk[] | null> {
+    const index = this.getSearchIndexName(queryEmbedding.length);
+    const candidates = Math.max(limit * 4, MIN_SEARCH_CANDIDATES);
+    const filter = `@userId:{${this.escapeQuery(userId)}} @projectId:{${this.escapeQuery(projectId)}}`;
+    const found = new Map<string, ScoredChunk>();
+    
+    try {
+      const knn = await this.redis.ft.search(index, `(${filter})=>[KNN ${candidates} @vector $BLOB AS distance]`, {
+        PARAMS: { BLOB: this.toVectorBlob(queryEmbedding) },
+        SORTBY: 'distance',
+        RETURN: SEARCH_RETURN_FIELDS,
+        LIMIT: { from: 0, size: candidates },
+        DIALECT: 2
+      });
+      for (const doc of knn.documents) {
+        const chunk = this.toScoredChunk(doc.value as Record<string, string>, queryEmbedding);
+        found.set(chunk.id, chunk);
+      }
+      
+      // Chunks stored before the index existed have no vector field, so they can't be found
+      if (found.size === 0) {
+        if (await this.redis.sCard(this.getProjectIndexKey(userId, projectId)) > 0) {
+          console.warn('⚠️  Project chunks are not in the vector index yet, re-index to enable it; scanning instead');
+          return null;
+        }
+        return [];
+      }
+      
+      const terms = Array.from(new Set(queryText ? tokenize(queryText) : []));
+      if (terms.length > 0) {
+        // WITHSCORES isn't supported by ft.search, so the keyword query is sent as a raw command
+        const reply = await this.redis.sendCommand([
+          'FT.SEARCH', index, `${filter} @keywords:(${terms.map(term => this.escapeQuery(term)).join('|')})`,
+          'WITHSCORES', 'SCORER', 'BM25',
+          'RETURN', SEARCH_RETURN_FIELDS.length.toString(), ...SEARCH_RETURN_FIELDS,
+          'LIMIT', '0', candidates.toString(),
+          'DIALECT', '2'
+        ]) as any[];
+        
+        // Reply: total, then key, score and field/value list for each document
+        for (let i = 1; i + 2 < reply.length; i += 3) {
+          const fields: string[] = reply[i + 2];
+          const value: Record<string, string> = {};
+          for (let j = 0; j + 1 < fields.length; j += 2) {
+            value[fields[j]] = fields[j + 1];
+          }
+          const chunk = found.get(value.id) || this.toScoredChunk(value, queryEmbedding);
+          chunk.lexicalScore = Number(reply[i + 1]);
+          found.set(chunk.id, chunk);
+        }
+      }
+    } catch (error) {
+      console.warn('⚠️  Vector index search failed, scanning instead:', (error as Error).message);
+      return null;
+    }
+    
+    return rankChunks(Array.from(found.values()), Math.min(limit, this.config.maxResults!), this.config.rrfK);
+  }
+
+  /**
+   * Makes sure a vector index exists for an embedding dimension, creating it on first use
+   * Each dimension (i.e. embedding model) gets its own index, filtered on the vectorDim field
+   * @param dimension - Embedding dimension
+   * @returns true if the index can be used, false if the server has no search support
+   */
+  private async ensureSearchIndex(dimension: number): Promise<boolean> {
+    if (!this.config.searchIndex) {
+      return false;
+    }
+    const known = this.searchIndexes.get(dimension);
+    if (known !== undefined) {
+      return known;
+    }
+    
+    const index = this.getSearchIndexName(dimension);
+    try {
+      const indexes = await this.redis.ft._list();
+      if (!indexes.includes(index)) {
+        await this.redis.ft.create(index, {
+          userId: SchemaFieldTypes.TAG,
+          projectId: SchemaFieldTypes.TAG,
+          keywords: { type: SchemaFieldTypes.TEXT, NOSTEM: true },
+          vector: {
+            type: SchemaFieldTypes.VECTOR,
+            ALGORITHM: VectorAlgorithms.HNSW,
+            TYPE: 'FLOAT32',
+            DIM: dimension,
+            DISTANCE_METRIC: 'COSINE'
+          }
+        }, {
+          ON: 'HASH',
+          PREFIX: `${this.config.keyPrefix}:`,
+          FILTER: `@vectorDim == ${dimension}`,
+          STOPWORDS: []
+        });
+        console.log(`🗂️  Created vector index ${index} (HNSW, ${dimension} dimensions)`);
+      }
+      this.searchIndexes.set(dimension, true);
+      return true;
+    } catch (error) {
+      const message = (error as Error).message || String(error);
+      // Another worker may have created the index in the meantime
+      if (/already exists/i.test(message)) {
+        this.searchIndexes.set(dimension, true);
+        return true;
+      }
+      console.warn(`⚠️  Redis vector search is not available (${message}), using brute-force search`);
+      this.searchIndexes.set(dimension, false);
+      return false;
+    }
+  }
+
+  /**
+   * Builds the chunk hash fields used by the vector index
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @param embedding - Chunk embedding
+   * @param lexical - Chunk keyword terms
+   * @returns Hash fields to store with the chunk
+   */
+  private getSearchFields(
+    userId: string,
+    projectId: string,
+    embedding: number[],
+    lexical: LexicalDocument
+  ): Record<string, string | Buffer> {
+    // Terms are repeated by weight, so the index's BM25 sees the same frequencies
+    const keywords = Object.entries(lexical.terms)
+      .map(([term, count]) => Array(count).fill(term).join(' '))
+      .join(' ');
+    
+    return {
+      userId,
+      projectId,
+      keywords,
+      vector: this.toVectorBlob(embedding),
+      vectorDim: embedding.length.toString()
+    };
+  }
+
+  /**
+   * Converts a search result document to a scored chunk
+   * @param value - Returned chunk hash fields
+   * @param queryEmbedding - Query embedding, to compute the exact similarity
+   * @returns Chunk with its similarity (keyword score not set yet)
+   */
+  private toScoredChunk(value: Record<string, string>, queryEmbedding: number[]): ScoredChunk {
+    const embedding = JSON.parse(value.embedding);
+    return {
+      id: value.id,
+      content: value.content,
+      type: value.type as CodeChunk['type'],
+      filePath: value.filePath,
+      name: value.name || undefined,
+      embedding,
+      similarity: cosineSimilarity(queryEmbedding, embedding),
+      lexicalScore: 0,
+      score: 0
+    };
+  }
+
+  /**
+   * Encodes an embedding as the FLOAT32 blob used by the vector index
+   * @param embedding - Embedding vector
+   * @returns Little-endian float32 buffer
+   */
+  private toVectorBlob(embedding: number[]): Buffer {
+    return Buffer.from(new Float32Array(embedding).buffer);
+  }
+
   /**
    * Retrieves a specific code chunk by ID
    * @param userId - User identifier
@@ -198,7 +439,7 @@ export class RedisVectorStore {
       return {
         id: data.id,
         content: data.content,
-        type: data.type as any,
+        type: data.type as CodeChunk['type'],
         filePath: data.filePath,
         name: data.name || undefined,
         embedding: data.embedding ? JSON.parse(data.embedding) : undefined
@@ -209,6 +450,70 @@ export class RedisVectorStore {
     }
   }
 
+  /**
+   * Gets the content hashes of all indexed files in a project
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @returns Map of file path to content hash
+   */
+  async getFileHashes(userId: string, projectId: string): Promise<Record<string, string>> {
+    try {
+      return await this.redis.hGetAll(this.getFileHashesKey(userId, projectId));
+    } catch (error) {
+      console.error('❌ Failed to get file hashes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records content hashes for indexed files
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @param hashes - Map of file path to content hash
+   */
+  async setFileHashes(userId: string, projectId: string, hashes: Record<string, string>): Promise<void> {
+    if (Object.keys(hashes).length === 0) {
+      return;
+    }
+
+    try {
+      await this.redis.hSet(this.getFileHashesKey(userId, projectId), hashes);
+    } catch (error) {
+      console.error('❌ Failed to set file hashes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes all chunks belonging to a file along with its content hash
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @param filePath - Path of the file to remove
+   * @returns Number of chunks deleted
+   */
+  async deleteFile(userId: string, projectId: string, filePath: string): Promise<number> {
+    try {
+      const fileIndexKey = this.getFileIndexKey(userId, projectId, filePath);
+      const chunkIds = await this.redis.sMembers(fileIndexKey);
+      const pipeline = this.redis.multi();
+
+      for (const chunkId of chunkIds) {
+        pipeline.del(this.getChunkKey(userId, projectId, chunkId));
+        pipeline.sRem(this.getProjectIndexKey(userId, projectId), chunkId);
+      }
+
+      pipeline.del(fileIndexKey);
+      pipeline.hDel(this.getFileHashesKey(userId, projectId), filePath);
+
+      await pipeline.exec();
+      console.log(`🗑️  Removed ${chunkIds.length} chunks for file ${filePath}`);
+      return chunkIds.length;
+    } catch (error) {
+      console.error('❌ Failed to delete file chunks:', error);
+      throw error;
+    }
+  }
+
   /**
    * Deletes all chunks for a specific project
    * @param userId - User identifier
@@ -219,11 +524,6 @@ export class RedisVectorStore {
       const indexKey = this.getProjectIndexKey(userId, projectId);
       const chunkIds = await this.redis.sMembers(indexKey);
       
-      if (chunkIds.length === 0) {
-        console.log('📭 No chunks to clear for project');
-        return;
-      }
-      
       const pipeline = this.redis.multi();
       
       // Delete all chunk keys
@@ -232,10 +532,23 @@ export class RedisVectorStore {
         pipeline.del(key);
       }
       
-      // Delete the project index
+      // Delete per-file indexes
+      const fileIndexPattern = this.escapeGlob(this.getFileIndexKey(userId, projectId, '')) + '*';
+      for await (const key of this.redis.scanIterator({ MATCH: fileIndexPattern })) {
+        pipeline.del(key);
+      }
+      
+      // Delete the project index and file hashes
       pipeline.del(indexKey);
+      pipeline.del(this.getFileHashesKey(userId, projectId));
       
       await pipeline.exec();
+      
+      if (chunkIds.length === 0) {
+        console.log('📭 No chunks to clear for project');
+        return;
+      }
+
       console.log(`🗑️  Cleared ${chunkIds.length} chunks for project`);
       
     } catch (error) {
@@ -250,11 +563,7 @@ export class RedisVectorStore {
    * @param projectId - Project identifier
    * @returns Storage statistics
    */
-  async getStats(userId: string, projectId: string): Promise<{
-    totalChunks: number;
-    totalSize: number;
-    chunkTypes: Record<string, number>;
-  }> {
+  async getStats(userId: string, projectId: string): Promise<VectorStoreStats> {
     try {
       const chunkIds = await this.redis.sMembers(this.getProjectIndexKey(userId, projectId));
       let totalSize = 0;
@@ -281,24 +590,6 @@ export class RedisVectorStore {
     }
   }
 
-  /**
-   * Calculates cosine similarity between two embeddings
-   * @param a - First embedding vector
-   * @param b - Second embedding vector
-   * @returns Cosine similarity score (0-1)
-   */
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) {
-      throw new Error('Embeddings must have the same dimension');
-    }
-    
-    const dotProduct = a.reduce((sum, val, i) => sum + val * b[i], 0);
-    const magnitudeA = Math.sqrt(a.reduce((sum, val) => sum + val * val, 0));
-    const magnitudeB = Math.sqrt(b.reduce((sum, val) => sum + val * val, 0));
-    
-    return dotProduct / (magnitudeA * magnitudeB);
-  }
-
   /**
    * Generates Redis key for a code chunk
    * @param userId - User identifier
@@ -320,11 +611,59 @@ export class RedisVectorStore {
     return `${this.config.keyPrefix}:index:${userId}:${projectId}`;
   }
 
+  /**
+   * Generates Redis key for the set of chunk IDs belonging to a file
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @param filePath - File path
+   * @returns Redis key string
+   */
+  private getFileIndexKey(userId: string, projectId: string, filePath: string): string {
+    return `${this.config.keyPrefix}:file:${userId}:${projectId}:${filePath}`;
+  }
+
+  /**
+   * Generates Redis key for the file content hash map of a project
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @returns Redis key string
+   */
+  private getFileHashesKey(userId: string, projectId: string): string {
+    return `${this.config.keyPrefix}:files:${userId}:${projectId}`;
+  }
+
+  /**
+   * Generates the name of the vector index for an embedding dimension
+   * @param dimension - Embedding dimension
+   * @returns Index name
+   */
+  private getSearchIndexName(dimension: number): string {
+    return `${this.config.keyPrefix}:idx:${dimension}`;
+  }
+
+  /**
+   * Escapes punctuation so a value can be used in a search query (tag values, terms)
+   * @param value - Raw value
+   * @returns Escaped value
+   */
+  private escapeQuery(value: string): string {
+    return value.replace(/[^A-Za-z0-9]/g, '\\$&');
+  }
+
+  /**
+   * Escapes glob metacharacters so a key can be used in a SCAN pattern
+   * @param value - Raw key
+   * @returns Escaped pattern string
+   */
+  private escapeGlob(value: string): string {
+    return value.replace(/([*?\[\]\\])/g, '\\$1');
+  }
+
   /**
    * Checks if the Redis client is connected
    * @returns true if connected, false otherwise
    */
-  isRedisConnected(): boolean {
+  isConnected(): boolean {
     return this.redis.isReady;
   }
 
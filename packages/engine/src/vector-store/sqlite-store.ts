@@ -0,0 +1,416 @@
+/**
+ * SQLite Vector Store for CodePlanner Engine
+ *
+ * This module provides an embedded, on-disk alternative to the Redis
+ * vector store, so a single developer can run the worker without Redis
+ * holding the index. Embeddings are stored as FLOAT32 blobs and searched
+ * with a flat scan over the project's chunks.
+ */
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import * as path from 'path';
+import type { CodeChunk } from '@codeplanner/shared';
+import type { ScoredChunk, SqliteVectorStoreConfig } from '../types';
+import { buildLexicalDocument, scoreBM25 } from './lexical-index';
+import { cosineSimilarity, rankChunks } from './vector-store';
+import type { VectorStore, VectorStoreStats } from './vector-store';
+
+/**
+ * Row of the chunks table
+ */
+interface ChunkRow {
+  id: string;
+  content: string;
+  type: string;
+  file_path: string;
+  name: string | null;
+  embedding: Uint8Array;
+  terms: string;
+  term_count: number;
+}
+
+/**
+ * SQLite-based vector store for code chunk embeddings
+ * Provides storage, retrieval, and similarity search functionality in a single file
+ */
+export class SqliteVectorStore implements VectorStore {
+  private db: Database | null = null;
+  private config: SqliteVectorStoreConfig;
+
+  constructor(config: SqliteVectorStoreConfig) {
+    this.config = {
+      maxResults: 20,
+      rrfK: 60,
+      ...config
+    };
+  }
+
+  /**
+   * Opens the database file, creating it and its tables if needed
+   */
+  async connect(): Promise<void> {
+    try {
+      mkdirSync(path.dirname(this.config.path), { recursive: true });
+      this.db = new Database(this.config.path, { create: true });
+      this.db.exec('PRAGMA journal_mode = WAL');
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS chunks (
+          user_id TEXT NOT NULL,
+          project_id TEXT NOT NULL,
+          id TEXT NOT NULL,
+          content TEXT NOT NULL,
+          type TEXT NOT NULL,
+          file_path TEXT NOT NULL,
+          name TEXT,
+          embedding BLOB NOT NULL,
+          terms TEXT NOT NULL,
+          term_count INTEGER NOT NULL,
+          created_at INTEGER NOT NULL,
+          PRIMARY KEY (user_id, project_id, id)
+        );
+        CREATE INDEX IF NOT EXISTS chunks_by_file ON chunks (user_id, project_id, file_path);
+        CREATE TABLE IF NOT EXISTS file_hashes (
+          user_id TEXT NOT NULL,
+          project_id TEXT NOT NULL,
+          file_path TEXT NOT NULL,
+          hash TEXT NOT NULL,
+          PRIMARY KEY (user_id, project_id, file_path)
+        );
+      `);
+      console.log(`🔗 Opened SQLite vector store at ${this.config.path}`);
+    } catch (error) {
+      console.error('❌ Failed to open SQLite vector store:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stores a code chunk with its embedding
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @param chunk - Code chunk with embedding to store
+   */
+  async storeChunk(userId: string, projectId: string, chunk: CodeChunk): Promise<void> {
+    if (!chunk.embedding) {
+      throw new Error('Code chunk must have an embedding to store');
+    }
+
+    await this.storeChunks(userId, projectId, [chunk]);
+  }
+
+  /**
+   * Stores multiple code chunks in one transaction
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @param chunks - Array of code chunks to store
+   */
+  async storeChunks(userId: string, projectId: string, chunks: CodeChunk[]): Promise<void> {
+    console.log(`📦 Storing ${chunks.length} chunks in batch...`);
+
+    try {
+      const db = this.getDatabase();
+      const insert = db.prepare(`
+        INSERT OR REPLACE INTO chunks
+          (user_id, project_id, id, content, type, file_path, name, embedding, terms, term_count, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+
+      db.transaction(() => {
+        for (const chunk of chunks) {
+          if (!chunk.embedding) {
+            console.warn(`⚠️  Skipping chunk ${chunk.id} - no embedding`);
+            continue;
+          }
+
+          const lexical = buildLexicalDocument(chunk);
+          insert.run(
+            userId,
+            projectId,
+            chunk.id,
+            chunk.content,
+            chunk.type,
+            chunk.filePath,
+            chunk.name || null,
+            new Uint8Array(new Float32Array(chunk.embedding).buffer),
+            JSON.stringify(lexical.terms),
+            lexical.length,
+            Date.now()
+          );
+        }
+      })();
+
+      console.log(`✅ Stored ${chunks.length} chunks successfully`);
+    } catch (error) {
+      console.error('❌ Failed to store chunks:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Searches for relevant code chunks
+   * Every chunk of the project is scored by vector similarity and, when the query
+   * text is given, by BM25; the two rankings are combined with reciprocal-rank fusion
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @param queryEmbedding - Query embedding to search for
+   * @param limit - Maximum number of results to return
+   * @param queryText - Query text for keyword matching (vector-only search if omitted)
+   * @returns Array of relevant code chunks with similarity, keyword and fused scores
+   */
+  async searchSimilar(
+    userId: string,
+    projectId: string,
+    queryEmbedding: number[],
+    limit: number = 10,
+    queryText?: string
+  ): Promise<ScoredChunk[]> {
+    try {
+      const rows = this.getDatabase()
+        .query<ChunkRow, [string, string]>(
+          'SELECT id, content, type, file_path, name, embedding, terms, term_count FROM chunks WHERE user_id = ? AND project_id = ?'
+        )
+        .all(userId, projectId);
+
+      if (rows.length === 0) {
+        console.log('📭 No chunks found for project');
+        return [];
+      }
+
+      console.log(`🔍 Searching ${rows.length} chunks for similar code...`);
+
+      const chunks: ScoredChunk[] = rows.map(row => {
+        const embedding = this.toEmbedding(row.embedding);
+        return {
+          ...this.toChunk(row),
+          embedding,
+          similarity: cosineSimilarity(queryEmbedding, embedding),
+          lexicalScore: 0,
+          score: 0
+        };
+      });
+
+      if (queryText) {
+        const lexicalScores = scoreBM25(
+          queryText,
+          rows.map(row => ({ terms: JSON.parse(row.terms), length: row.term_count }))
+        );
+        chunks.forEach((chunk, index) => {
+          chunk.lexicalScore = lexicalScores[index];
+        });
+      }
+
+      return rankChunks(chunks, Math.min(limit, this.config.maxResults!), this.config.rrfK);
+    } catch (error) {
+      console.error('❌ Failed to search similar chunks:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieves a specific code chunk by ID
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @param chunkId - Chunk identifier
+   * @returns Code chunk or null if not found
+   */
+  async getChunk(userId: string, projectId: string, chunkId: string): Promise<CodeChunk | null> {
+    try {
+      const row = this.getDatabase()
+        .query<ChunkRow, [string, string, string]>(
+          'SELECT * FROM chunks WHERE user_id = ? AND project_id = ? AND id = ?'
+        )
+        .get(userId, projectId, chunkId);
+
+      return row ? { ...this.toChunk(row), embedding: this.toEmbedding(row.embedding) } : null;
+    } catch (error) {
+      console.error('❌ Failed to get chunk:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Gets the content hashes of all indexed files in a project
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @returns Map of file path to content hash
+   */
+  async getFileHashes(userId: string, projectId: string): Promise<Record<string, string>> {
+    try {
+      const rows = this.getDatabase()
+        .query<{ file_path: string; hash: string }, [string, string]>(
+          'SELECT file_path, hash FROM file_hashes WHERE user_id = ? AND project_id = ?'
+        )
+        .all(userId, projectId);
+
+      return Object.fromEntries(rows.map(row => [row.file_path, row.hash]));
+    } catch (error) {
+      console.error('❌ Failed to get file hashes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Records content hashes for indexed files
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @param hashes - Map of file path to content hash
+   */
+  async setFileHashes(userId: string, projectId: string, hashes: Record<string, string>): Promise<void> {
+    if (Object.keys(hashes).length === 0) {
+      return;
+    }
+
+    try {
+      const db = this.getDatabase();
+      const upsert = db.prepare(
+        'INSERT OR REPLACE INTO file_hashes (user_id, project_id, file_path, hash) VALUES (?, ?, ?, ?)'
+      );
+      db.transaction(() => {
+        for (const [filePath, hash] of Object.entries(hashes)) {
+          upsert.run(userId, projectId, filePath, hash);
+        }
+      })();
+    } catch (error) {
+      console.error('❌ Failed to set file hashes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes all chunks belonging to a file along with its content hash
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @param filePath - Path of the file to remove
+   * @returns Number of chunks deleted
+   */
+  async deleteFile(userId: string, projectId: string, filePath: string): Promise<number> {
+    try {
+      const db = this.getDatabase();
+      const deleted = db.transaction(() => {
+        const result = db
+          .prepare('DELETE FROM chunks WHERE user_id = ? AND project_id = ? AND file_path = ?')
+          .run(userId, projectId, filePath);
+        db.prepare('DELETE FROM file_hashes WHERE user_id = ? AND project_id = ? AND file_path = ?')
+          .run(userId, projectId, filePath);
+        return result.changes;
+      })();
+
+      console.log(`🗑️  Removed ${deleted} chunks for file ${filePath}`);
+      return deleted;
+    } catch (error) {
+      console.error('❌ Failed to delete file chunks:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes all chunks and file hashes of a project
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   */
+  async clearProject(userId: string, projectId: string): Promise<void> {
+    try {
+      const db = this.getDatabase();
+      const deleted = db.transaction(() => {
+        const result = db
+          .prepare('DELETE FROM chunks WHERE user_id = ? AND project_id = ?')
+          .run(userId, projectId);
+        db.prepare('DELETE FROM file_hashes WHERE user_id = ? AND project_id = ?').run(userId, projectId);
+        return result.changes;
+      })();
+
+      if (deleted === 0) {
+        console.log('📭 No chunks to clear for project');
+        return;
+      }
+
+      console.log(`🗑️  Cleared ${deleted} chunks for project`);
+    } catch (error) {
+      console.error('❌ Failed to clear project chunks:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Gets statistics about stored chunks
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @returns Storage statistics
+   */
+  async getStats(userId: string, projectId: string): Promise<VectorStoreStats> {
+    try {
+      const rows = this.getDatabase()
+        .query<{ type: string; count: number; size: number }, [string, string]>(
+          'SELECT type, COUNT(*) AS count, SUM(LENGTH(content)) AS size FROM chunks WHERE user_id = ? AND project_id = ? GROUP BY type'
+        )
+        .all(userId, projectId);
+
+      return {
+        totalChunks: rows.reduce((sum, row) => sum + row.count, 0),
+        totalSize: rows.reduce((sum, row) => sum + row.size, 0),
+        chunkTypes: Object.fromEntries(rows.map(row => [row.type, row.count]))
+      };
+    } catch (error) {
+      console.error('❌ Failed to get storage stats:', error);
+      return { totalChunks: 0, totalSize: 0, chunkTypes: {} };
+    }
+  }
+
+  /**
+   * Converts a chunks table row to a code chunk (without embedding)
+   * @param row - Table row
+   * @returns Code chunk
+   */
+  private toChunk(row: ChunkRow): CodeChunk {
+    return {
+      id: row.id,
+      content: row.content,
+      type: row.type as CodeChunk['type'],
+      filePath: row.file_path,
+      name: row.name || undefined
+    };
+  }
+
+  /**
+   * Decodes a FLOAT32 embedding blob
+   * @param blob - Stored blob
+   * @returns Embedding vector
+   */
+  private toEmbedding(blob: Uint8Array): number[] {
+    // Copy first, the blob's offset is not guaranteed to be 4-byte aligned
+    return Array.from(new Float32Array(Uint8Array.from(blob).buffer));
+  }
+
+  /**
+   * Gets the open database
+   * @returns Database handle
+   */
+  private getDatabase(): Database {
+    if (!this.db) {
+      throw new Error('SQLite vector store is not connected');
+    }
+    return this.db;
+  }
+
+  /**
+   * Checks if the database is open
+   * @returns true if connected, false otherwise
+   */
+  isConnected(): boolean {
+    return this.db !== null;
+  }
+
+  /**
+   * Closes the database
+   */
+  async disconnect(): Promise<void> {
+    try {
+      this.db?.close();
+      this.db = null;
+      console.log('🔌 Closed SQLite vector store');
+    } catch (error) {
+      console.error('❌ Error closing SQLite vector store:', error);
+    }
+  }
+}
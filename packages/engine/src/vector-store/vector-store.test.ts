@@ -0,0 +1,190 @@
+/**
+ * Vector Store conformance tests for CodePlanner Engine
+ *
+ * Every backend runs the same cases, so Redis and SQLite agree on what is
+ * stored, what a file deletion removes and how search results rank.
+ * The Redis backends only run when REDIS_URL points at a server.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import type { CodeChunk } from '@codeplanner/shared';
+import { RedisVectorStore } from './redis-store';
+import { SqliteVectorStore } from './sqlite-store';
+import type { VectorStore } from './vector-store';
+
+const USER_ID = 'conformance-user';
+const PROJECT_ID = `conformance-${process.pid}`;
+const OTHER_PROJECT_ID = `${PROJECT_ID}-other`;
+
+/**
+ * A vector store backend under test
+ */
+interface Backend {
+  name: string;
+  /** Whether the backend can run in this environment */
+  available: boolean;
+  create: () => VectorStore;
+  /** Removes anything the backend left behind */
+  cleanup?: () => void;
+}
+
+const sqliteDir = mkdtempSync(path.join(tmpdir(), 'codeplanner-vectors-'));
+const redisUrl = process.env.REDIS_URL;
+
+const backends: Backend[] = [
+  {
+    name: 'SqliteVectorStore',
+    available: true,
+    create: () => new SqliteVectorStore({ path: path.join(sqliteDir, 'vectors.db') }),
+    cleanup: () => rmSync(sqliteDir, { recursive: true, force: true })
+  },
+  {
+    name: 'RedisVectorStore (RediSearch index)',
+    available: Boolean(redisUrl),
+    create: () => new RedisVectorStore({ redisUrl: redisUrl!, keyPrefix: 'codeplanner:test', searchIndex: true })
+  },
+  {
+    name: 'RedisVectorStore (brute force)',
+    available: Boolean(redisUrl),
+    create: () => new RedisVectorStore({ redisUrl: redisUrl!, keyPrefix: 'codeplanner:test', searchIndex: false })
+  }
+];
+
+/**
+ * Creates a chunk with an embedding
+ * @param id - Chunk identifier
+ * @param filePath - File the chunk belongs to
+ * @param embedding - Embedding vector
+ * @param fields - Other fields to override
+ * @returns Code chunk
+ */
+function chunk(id: string, filePath: string, embedding: number[], fields: Partial<CodeChunk> = {}): CodeChunk {
+  return {
+    id,
+    content: `function ${id}() {}`,
+    type: 'function',
+    filePath,
+    name: id,
+    embedding,
+    ...fields
+  };
+}
+
+for (const backend of backends) {
+  describe.skipIf(!backend.available)(backend.name, () => {
+    let store: VectorStore;
+
+    beforeAll(async () => {
+      store = backend.create();
+      await store.connect();
+    });
+
+    beforeEach(async () => {
+      await store.clearProject(USER_ID, PROJECT_ID);
+      await store.clearProject(USER_ID, OTHER_PROJECT_ID);
+    });
+
+    afterAll(async () => {
+      await store.clearProject(USER_ID, PROJECT_ID);
+      await store.clearProject(USER_ID, OTHER_PROJECT_ID);
+      await store.disconnect();
+      backend.cleanup?.();
+    });
+
+    test('stores chunks and replaces a chunk stored again under the same id', async () => {
+      await store.storeChunks(USER_ID, PROJECT_ID, [
+        chunk('loadConfig', 'src/config.ts', [1, 0, 0]),
+        chunk('saveConfig', 'src/config.ts', [0, 1, 0]),
+        { ...chunk('unembedded', 'src/config.ts', [0, 0, 1]), embedding: undefined }
+      ]);
+      await store.storeChunk(USER_ID, PROJECT_ID, chunk('loadConfig', 'src/config.ts', [0, 0, 1], {
+        content: 'function loadConfig(path: string) {}'
+      }));
+
+      const stored = await store.getChunk(USER_ID, PROJECT_ID, 'loadConfig');
+      expect(stored).toMatchObject({
+        id: 'loadConfig',
+        content: 'function loadConfig(path: string) {}',
+        type: 'function',
+        filePath: 'src/config.ts',
+        name: 'loadConfig'
+      });
+      expect(stored!.embedding).toEqual([0, 0, 1]);
+      expect(await store.getChunk(USER_ID, PROJECT_ID, 'unembedded')).toBeNull();
+      expect((await store.getStats(USER_ID, PROJECT_ID)).totalChunks).toBe(2);
+    });
+
+    test('deletes the chunks and hash of one file only', async () => {
+      await store.storeChunks(USER_ID, PROJECT_ID, [
+        chunk('parseArgs', 'src/cli.ts', [1, 0, 0]),
+        chunk('printHelp', 'src/cli.ts', [0.9, 0.1, 0]),
+        chunk('startServer', 'src/server.ts', [0.8, 0.2, 0])
+      ]);
+      await store.setFileHashes(USER_ID, PROJECT_ID, { 'src/cli.ts': 'hash-cli', 'src/server.ts': 'hash-server' });
+
+      expect(await store.deleteFile(USER_ID, PROJECT_ID, 'src/cli.ts')).toBe(2);
+      expect(await store.deleteFile(USER_ID, PROJECT_ID, 'src/missing.ts')).toBe(0);
+
+      expect(await store.getFileHashes(USER_ID, PROJECT_ID)).toEqual({ 'src/server.ts': 'hash-server' });
+      expect(await store.getChunk(USER_ID, PROJECT_ID, 'parseArgs')).toBeNull();
+      const results = await store.searchSimilar(USER_ID, PROJECT_ID, [1, 0, 0], 10);
+      expect(results.map(result => result.id)).toEqual(['startServer']);
+    });
+
+    test('returns the nearest chunks by cosine similarity, best first', async () => {
+      await store.storeChunks(USER_ID, PROJECT_ID, [
+        chunk('far', 'src/a.ts', [0, 0, 1]),
+        chunk('nearest', 'src/a.ts', [1, 0.1, 0]),
+        chunk('near', 'src/b.ts', [1, 1, 0]),
+        chunk('opposite', 'src/b.ts', [-1, 0, 0])
+      ]);
+      await store.storeChunks(USER_ID, OTHER_PROJECT_ID, [chunk('otherProject', 'src/a.ts', [1, 0, 0])]);
+
+      const results = await store.searchSimilar(USER_ID, PROJECT_ID, [1, 0, 0], 3);
+
+      expect(results.map(result => result.id)).toEqual(['nearest', 'near', 'far']);
+      expect(results[0].similarity).toBeCloseTo(1 / Math.sqrt(1.01), 4);
+      expect(results[1].similarity).toBeCloseTo(1 / Math.sqrt(2), 4);
+      expect(results.every(result => result.lexicalScore === 0)).toBe(true);
+    });
+
+    test('ranks keyword matches up when the query has text', async () => {
+      await store.storeChunks(USER_ID, PROJECT_ID, [
+        chunk('renderPage', 'src/render.ts', [1, 0, 0], { content: 'function renderPage() { return layout(); }' }),
+        chunk('refreshToken', 'src/auth/token.ts', [0.9, 0.2, 0], {
+          content: 'function refreshToken(session) { return session.renew(); }'
+        }),
+        chunk('formatDate', 'src/date.ts', [0.8, 0.4, 0], { content: 'function formatDate(date) { return date.toISOString(); }' })
+      ]);
+
+      const vectorOnly = await store.searchSimilar(USER_ID, PROJECT_ID, [1, 0, 0], 3);
+      const hybrid = await store.searchSimilar(USER_ID, PROJECT_ID, [1, 0, 0], 3, 'where is the session token refreshed');
+
+      expect(vectorOnly.map(result => result.id)).toEqual(['renderPage', 'refreshToken', 'formatDate']);
+      expect(hybrid.map(result => result.id)).toEqual(['refreshToken', 'renderPage', 'formatDate']);
+      expect(hybrid[0].lexicalScore).toBeGreaterThan(0);
+      expect(hybrid.slice(1).every(result => result.lexicalScore === 0)).toBe(true);
+      expect(hybrid[0].score).toBeGreaterThan(hybrid[1].score);
+    });
+
+    test('reports chunk counts, size and types', async () => {
+      await store.storeChunks(USER_ID, PROJECT_ID, [
+        chunk('Router', 'src/router.ts', [1, 0, 0], { type: 'class', content: 'class Router {}' }),
+        chunk('route', 'src/router.ts', [0, 1, 0], { content: 'function route() {}' }),
+        chunk('handle', 'src/router.ts', [0, 0, 1], { content: 'function handle() {}' }),
+        chunk('src/index.ts', 'src/index.ts', [1, 1, 1], { type: 'file', name: undefined, content: 'export * from "./router";' })
+      ]);
+
+      expect(await store.getStats(USER_ID, PROJECT_ID)).toEqual({
+        totalChunks: 4,
+        totalSize: 'class Router {}'.length + 'function route() {}'.length + 'function handle() {}'.length +
+          'export * from "./router";'.length,
+        chunkTypes: { class: 1, function: 2, file: 1 }
+      });
+      expect((await store.getStats(USER_ID, OTHER_PROJECT_ID)).totalChunks).toBe(0);
+    });
+  });
+}
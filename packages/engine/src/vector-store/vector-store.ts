@@ -0,0 +1,183 @@
+/**
+ * Vector Store interface for CodePlanner Engine
+ *
+ * This module defines the contract every vector store backend implements
+ * (Redis, SQLite), along with the scoring helpers they share, so search
+ * results rank the same way whichever backend stores the chunks.
+ */
+
+import type { CodeChunk } from '@codeplanner/shared';
+import type { ScoredChunk } from '../types';
+import { reciprocalRankFusion } from './lexical-index';
+
+/**
+ * Storage statistics of a project
+ */
+export interface VectorStoreStats {
+  /** Number of stored chunks */
+  totalChunks: number;
+  /** Total size of the chunks' content in characters */
+  totalSize: number;
+  /** Number of chunks per chunk type */
+  chunkTypes: Record<string, number>;
+}
+
+/**
+ * Storage and search of code chunk embeddings, scoped by user and project
+ */
+export interface VectorStore {
+  /**
+   * Opens the backend's connection or file
+   */
+  connect(): Promise<void>;
+
+  /**
+   * Stores a code chunk with its embedding
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @param chunk - Code chunk with embedding to store
+   */
+  storeChunk(userId: string, projectId: string, chunk: CodeChunk): Promise<void>;
+
+  /**
+   * Stores multiple code chunks in batch (chunks without an embedding are skipped)
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @param chunks - Array of code chunks to store
+   */
+  storeChunks(userId: string, projectId: string, chunks: CodeChunk[]): Promise<void>;
+
+  /**
+   * Searches for relevant code chunks by vector similarity, fused with keyword scores
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @param queryEmbedding - Query embedding to search for
+   * @param limit - Maximum number of results to return
+   * @param queryText - Query text for keyword matching (vector-only search if omitted)
+   * @returns Relevant code chunks with similarity, keyword and fused scores, best first
+   */
+  searchSimilar(
+    userId: string,
+    projectId: string,
+    queryEmbedding: number[],
+    limit?: number,
+    queryText?: string
+  ): Promise<ScoredChunk[]>;
+
+  /**
+   * Retrieves a specific code chunk by ID
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @param chunkId - Chunk identifier
+   * @returns Code chunk or null if not found
+   */
+  getChunk(userId: string, projectId: string, chunkId: string): Promise<CodeChunk | null>;
+
+  /**
+   * Gets the content hashes of all indexed files in a project
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @returns Map of file path to content hash
+   */
+  getFileHashes(userId: string, projectId: string): Promise<Record<string, string>>;
+
+  /**
+   * Records content hashes for indexed files
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @param hashes - Map of file path to content hash
+   */
+  setFileHashes(userId: string, projectId: string, hashes: Record<string, string>): Promise<void>;
+
+  /**
+   * Deletes all chunks belonging to a file along with its content hash
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @param filePath - Path of the file to remove
+   * @returns Number of chunks deleted
+   */
+  deleteFile(userId: string, projectId: string, filePath: string): Promise<number>;
+
+  /**
+   * Deletes all chunks and file hashes of a project
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   */
+  clearProject(userId: string, projectId: string): Promise<void>;
+
+  /**
+   * Gets statistics about stored chunks
+   * @param userId - User identifier
+   * @param projectId - Project identifier
+   * @returns Storage statistics
+   */
+  getStats(userId: string, projectId: string): Promise<VectorStoreStats>;
+
+  /**
+   * Checks if the backend is connected
+   * @returns true if connected, false otherwise
+   */
+  isConnected(): boolean;
+
+  /**
+   * Closes the backend's connection or file
+   */
+  disconnect(): Promise<void>;
+}
+
+/**
+ * Calculates cosine similarity between two embeddings
+ * @param a - First embedding vector
+ * @param b - Second embedding vector
+ * @returns Cosine similarity score (0-1)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error('Embeddings must have the same dimension');
+  }
+
+  const dotProduct = a.reduce((sum, val, i) => sum + val * b[i], 0);
+  const magnitudeA = Math.sqrt(a.reduce((sum, val) => sum + val * val, 0));
+  const magnitudeB = Math.sqrt(b.reduce((sum, val) => sum + val * val, 0));
+
+  // A zero vector (e.g. the local embedding of empty content) has no direction
+  if (magnitudeA === 0 || magnitudeB === 0) {
+    return 0;
+  }
+
+  return dotProduct / (magnitudeA * magnitudeB);
+}
+
+/**
+ * Ranks search candidates by reciprocal-rank fusion of their vector and keyword rankings
+ * @param chunks - Candidates with similarity and keyword scores
+ * @param limit - Maximum number of results to return
+ * @param rrfK - Reciprocal-rank fusion constant
+ * @returns Top chunks with their fused scores, best first
+ */
+export function rankChunks(chunks: ScoredChunk[], limit: number, rrfK?: number): ScoredChunk[] {
+  // Fuse the vector ranking with the ranking of chunks that match query keywords
+  const vectorRanking = [...chunks]
+    .sort((a, b) => b.similarity - a.similarity)
+    .map(chunk => chunk.id);
+  const lexicalRanking = chunks
+    .filter(chunk => chunk.lexicalScore > 0)
+    .sort((a, b) => b.lexicalScore - a.lexicalScore)
+    .map(chunk => chunk.id);
+  const fused = reciprocalRankFusion([vectorRanking, lexicalRanking], rrfK);
+
+  for (const chunk of chunks) {
+    chunk.score = fused.get(chunk.id) || 0;
+  }
+
+  // Sort by fused score and return top results
+  const results = chunks
+    .sort((a, b) => b.score - a.score || b.similarity - a.similarity)
+    .slice(0, limit);
+
+  console.log(
+    `🎯 Found ${results.length} relevant chunks (top similarity: ${results[0]?.similarity.toFixed(3) || 0}, ` +
+    `${lexicalRanking.length} keyword matches)`
+  );
+  return results;
+}
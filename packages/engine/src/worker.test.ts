@@ -0,0 +1,182 @@
+/**
+ * Worker tests for CodePlanner Engine
+ *
+ * Jobs run through the worker end to end: a project is indexed with local
+ * embeddings into a SQLite store, then plans and error analyses are generated
+ * by the mock provider, including the one JSON repair request the worker
+ * makes when a model returns an invalid plan. Results go to a recording sink
+ * instead of Redis, so no Redis server is needed.
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import type { DebuggingPlan, PlanResponse } from '@codeplanner/shared';
+import type { MockChatFixture } from './llm/mock-provider';
+import type { JobMessage, JobResult } from './types';
+import { SqliteVectorStore } from './vector-store/sqlite-store';
+import { CodePlannerWorker } from './worker';
+
+const CART_SOURCE = `export interface CartItem {
+  price: number;
+  quantity: number;
+}
+
+export function cartTotal(items: CartItem[]): number {
+  return items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+}
+
+export function applyDiscount(total: number, code: string): number {
+  const discounts: Record<string, number> = { SPRING: 5 };
+  return total - discounts[code].valueOf();
+}
+`;
+
+const REPAIRED_PLAN: PlanResponse = {
+  summary: 'Let discount codes expire',
+  steps: [
+    { stepNumber: 1, action: 'Modify function', description: 'Store an expiry date next to each discount', filePath: 'src/cart.ts' },
+    { stepNumber: 2, action: 'Modify function', description: 'Ignore expired codes in applyDiscount', filePath: 'src/cart.ts' }
+  ],
+  affectedFiles: ['src/cart.ts']
+};
+
+const DEBUGGING_PLAN: DebuggingPlan = {
+  summary: 'Unknown discount codes crash applyDiscount',
+  rootCause: 'discounts[code] is undefined for codes that are not in the table',
+  steps: [
+    {
+      stepNumber: 1,
+      action: 'Modify function',
+      description: 'Return the total unchanged for unknown codes',
+      filePath: 'src/cart.ts',
+      codeChange: { before: 'discounts[code].valueOf()', after: '(discounts[code] ?? 0)' }
+    }
+  ],
+  affectedFiles: ['src/cart.ts']
+};
+
+// The first matching fixture answers; repair requests only contain the schema errors
+const FIXTURES: MockChatFixture[] = [
+  { match: 'Return the corrected plan', json: true, response: REPAIRED_PLAN },
+  { match: 'Return the corrected debugging plan', json: true, response: { summary: 'Still no steps', rootCause: 'Unknown' } },
+  { match: 'TS2322', json: true, response: '{"summary": "Fix the type of total", "rootCause": ' },
+  { match: "reading 'valueOf'", json: true, response: DEBUGGING_PLAN },
+  { match: 'expire', json: true, response: { summary: 'Let discount codes expire', affectedFiles: ['src/cart.ts'] } },
+  { match: 'expire', json: false, response: '## Plan\n\n1. Store an expiry date next to each discount\n' }
+];
+
+const ENV = {
+  LLM_PROVIDER: 'mock',
+  EMBEDDING_PROVIDER: 'local',
+  EMBEDDING_CACHE: 'false',
+  VECTOR_STORE: 'sqlite'
+};
+
+describe('CodePlannerWorker', () => {
+  const tempDir = mkdtempSync(path.join(tmpdir(), 'codeplanner-worker-'));
+  const projectPath = path.join(tempDir, 'project');
+  const savedEnv: Record<string, string | undefined> = {};
+  let store: SqliteVectorStore;
+  let worker: CodePlannerWorker;
+  const results = new Map<string, JobResult[]>();
+  let jobCount = 0;
+
+  /**
+   * Runs a job through the worker
+   * @param command - Job command
+   * @param data - Job data
+   * @returns Results the job produced, in order
+   */
+  async function runJob(command: string, data: Record<string, unknown>): Promise<JobResult[]> {
+    const job: JobMessage = {
+      jobId: `job-${++jobCount}`,
+      connectionId: 'test-connection',
+      userId: 'test-user',
+      projectId: 'test-project',
+      command,
+      data: { projectPath, ...data }
+    };
+    await worker.processJob(job);
+    return results.get(job.jobId) || [];
+  }
+
+  beforeAll(async () => {
+    mkdirSync(path.join(projectPath, 'src'), { recursive: true });
+    writeFileSync(path.join(projectPath, 'tsconfig.json'), JSON.stringify({ include: ['src'] }));
+    writeFileSync(path.join(projectPath, 'src', 'cart.ts'), CART_SOURCE);
+
+    const fixturesPath = path.join(tempDir, 'fixtures.json');
+    writeFileSync(fixturesPath, JSON.stringify(FIXTURES));
+    for (const [key, value] of Object.entries({ ...ENV, MOCK_LLM_FIXTURES: fixturesPath })) {
+      savedEnv[key] = process.env[key];
+      process.env[key] = value;
+    }
+
+    store = new SqliteVectorStore({ path: path.join(tempDir, 'vectors.db') });
+    await store.connect();
+    worker = new CodePlannerWorker(store, async result => {
+      results.set(result.jobId, [...(results.get(result.jobId) || []), result]);
+    });
+
+    const indexed = await runJob('index', {});
+    expect(indexed[indexed.length - 1]).toMatchObject({ type: 'complete' });
+  });
+
+  afterAll(async () => {
+    await store.disconnect();
+    for (const [key, value] of Object.entries(savedEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('streams a plan with the indexed code as context', async () => {
+    const results = await runJob('plan', { query: 'Let discount codes expire' });
+
+    const chunks = results.filter(result => result.type === 'stream').map(result => result.data.chunk);
+    expect(chunks.join('')).toBe('## Plan\n\n1. Store an expiry date next to each discount\n');
+    const complete = results[results.length - 1];
+    expect(complete.type).toBe('complete');
+    expect(complete.data.model).toBe('mock');
+    expect(complete.data.context.some((ref: { filePath: string }) => ref.filePath.endsWith('cart.ts'))).toBe(true);
+  });
+
+  test('repairs a structured plan that does not match the schema', async () => {
+    const results = await runJob('plan', { query: 'Let discount codes expire', format: 'json' });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].type).toBe('complete');
+    expect(results[0].data.plan).toEqual(REPAIRED_PLAN);
+  });
+
+  test('analyzes a runtime error into a structured debugging plan', async () => {
+    const results = await runJob('analyze-error', {
+      format: 'json',
+      errorInput: [
+        "TypeError: Cannot read properties of undefined (reading 'valueOf')",
+        `    at applyDiscount (${path.join(projectPath, 'src', 'cart.ts')}:13:34)`
+      ].join('\n')
+    });
+
+    expect(results.map(result => result.type)).toEqual(['stream', 'complete']);
+    expect(results[0].data.detection).toMatchObject({ type: 'runtime' });
+    expect(results[1].data.plan).toEqual(DEBUGGING_PLAN);
+    expect(results[1].data.context.length).toBeGreaterThan(0);
+  });
+
+  test('fails an error analysis whose repaired plan is still invalid', async () => {
+    const results = await runJob('analyze-error', {
+      format: 'json',
+      errorInput: "src/cart.ts(7,10): error TS2322: Type 'string' is not assignable to type 'number'."
+    });
+
+    expect(results.map(result => result.type)).toEqual(['stream', 'error']);
+    expect(results[1].data.message).toContain('Error analysis returned invalid JSON after one repair attempt');
+  });
+});
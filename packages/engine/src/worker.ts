@@ -3,54 +3,122 @@
  * 
  * This module implements the main worker process that handles all
  * CodePlanner operations including indexing, planning, and error analysis.
- * It connects to Redis for job processing and coordinates all engine components.
+ * It consumes jobs from a Redis Stream consumer group and coordinates all engine components.
  */
 
 import { createClient, RedisClientType } from 'redis';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { CodeChunk, ContextReference, ErrorReference } from '@codeplanner/shared';
 import { ASTParser } from './parser/ast-parser';
 import { CodeChunker } from './parser/chunker';
 import { EmbeddingGenerator } from './embeddings/generator';
+import { EmbeddingCache } from './embeddings/cache';
 import { RedisVectorStore } from './vector-store/redis-store';
+import { SqliteVectorStore } from './vector-store/sqlite-store';
+import type { VectorStore } from './vector-store/vector-store';
 import { PlanGenerator } from './planner/plan-generator';
+import { hashContent } from './utils/hash';
+import { PlanSessionStore } from './planner/session-store';
 import { ErrorParser } from './error-analysis/error-parser';
 import { Debugger } from './error-analysis/debugger';
-import type { JobMessage, JobResult, ProgressInfo } from './types';
+import { SourceMapResolver } from './error-analysis/source-maps';
+import { JobStore } from './jobs/job-store';
+import { JOB_CANCEL_CHANNEL, throwIfCancelled } from './jobs/cancellation';
+import type {
+  JobMessage,
+  JobResult,
+  ResultSink,
+  ProgressInfo,
+  ParsedFile,
+  IndexSummary,
+  PlanSession,
+  ScoredChunk,
+  EmbeddingCacheStats,
+  ChatProviderConfig,
+  ChatProviderName,
+  RootCauseGroup
+} from './types';
+
+/** File extensions handled by indexing and incremental updates */
+const INDEXED_FILE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+
+/** Redis Stream holding pending jobs, shared by all workers through a consumer group */
+const JOB_STREAM = 'jobs:stream';
+const JOB_CONSUMER_GROUP = 'codeplanner-workers';
+
+/** Pending jobs idle for longer than this are assumed orphaned by a crashed worker */
+const JOB_CLAIM_IDLE_MS = process.env.JOB_CLAIM_IDLE_MS ? Number(process.env.JOB_CLAIM_IDLE_MS) : 120000;
+
+/** How often a worker refreshes the idle time of the job it is processing */
+const JOB_HEARTBEAT_MS = Math.max(1000, Math.floor(JOB_CLAIM_IDLE_MS / 4));
+
+/** Jobs delivered this many times are given up on instead of being retried */
+const JOB_MAX_DELIVERIES = 3;
+
+/** Root causes given to the model in one error analysis; the rest are listed as omitted */
+const MAX_ANALYZED_ERRORS = 20;
+
+/** Newly retrieved code chunks added to the context of a session follow-up */
+const SESSION_FOLLOW_UP_CHUNKS = 5;
 
 /**
  * Main CodePlanner Worker Process
  * Handles all job processing including indexing, planning, and error analysis
  */
-class CodePlannerWorker {
+export class CodePlannerWorker {
   private redis: RedisClientType;      // normal publish & commands
-  private subscriber: RedisClientType; // for subscribe only
-  private vectorStore: RedisVectorStore;
+  private queue: RedisClientType;      // blocking reads from the job stream only
+  private subscriber: RedisClientType; // cancellation notices
+  private activeJobs: Map<string, AbortController> = new Map();
+  private consumerName: string;
+  private lastReclaimAt: number = 0;
+  private vectorStore: VectorStore;
+  private resultSink: ResultSink;
+  private jobStore: JobStore;
+  private sessionStore: PlanSessionStore;
   private embeddingGen: EmbeddingGenerator;
   private planGen: PlanGenerator;
+  private debugChatConfig: ChatProviderConfig;
   private errorParser: ErrorParser;
   private chunker: CodeChunker;
   private isRunning: boolean = false;
 
-  constructor() {
+  /**
+   * @param vectorStore - Vector store (created from VECTOR_STORE if omitted)
+   * @param resultSink - Receives job results (published to Redis if omitted)
+   */
+  constructor(vectorStore?: VectorStore, resultSink?: ResultSink) {
     // Initialize Redis client
     this.redis = createClient({ 
       url: process.env.REDIS_URL || 'redis://localhost:6379' 
     });
+    this.queue = createClient({
+      url: process.env.REDIS_URL || 'redis://localhost:6379'
+    });
     this.subscriber = createClient({
       url: process.env.REDIS_URL || 'redis://localhost:6379'
     });
+    this.consumerName = process.env.WORKER_ID || `${os.hostname()}-${process.pid}`;
+    this.jobStore = new JobStore(this.redis);
+    this.sessionStore = new PlanSessionStore(this.redis);
     
-    // Initialize vector store
-    this.vectorStore = new RedisVectorStore({
-      redisUrl: process.env.REDIS_URL || 'redis://localhost:6379'
-    });
+    // Initialize vector store (Redis, or an embedded SQLite file)
+    this.vectorStore = vectorStore || this.createVectorStore();
+    this.resultSink = resultSink || (result => this.publishToRedis(result));
     
     // Resolve API credentials and endpoints (separate providers supported)
-    // Embeddings provider
+    // Embeddings provider (local embeds offline on the CPU and needs no key)
+    const EMB_PROVIDER = process.env.EMBEDDING_PROVIDER || 'openai';
+    if (EMB_PROVIDER !== 'openai' && EMB_PROVIDER !== 'local') {
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${EMB_PROVIDER}". Use openai or local`);
+    }
     const EMB_API_KEY =
       process.env.EMBEDDING_API_KEY ||
       process.env.OPENAI_API_KEY ||
       process.env.OPENROUTER_API_KEY;
-    if (!EMB_API_KEY) {
+    if (EMB_PROVIDER === 'openai' && !EMB_API_KEY) {
       throw new Error('Missing embedding API key. Set EMBEDDING_API_KEY or OPENAI_API_KEY or OPENROUTER_API_KEY');
     }
     const EMB_BASE_URL =
@@ -59,38 +127,34 @@ class CodePlannerWorker {
       process.env.OPENAI_BASE_URL ||
       undefined;
     const EMB_MODEL = process.env.EMBEDDING_MODEL || 'text-embedding-3-small';
+    const EMB_DIMENSIONS = process.env.EMBEDDING_DIMENSIONS ? Number(process.env.EMBEDDING_DIMENSIONS) : undefined;
     const BATCH_SIZE = process.env.BATCH_SIZE ? Number(process.env.BATCH_SIZE) : 20;
 
-    // Planning provider
-    const PLAN_API_KEY =
-      process.env.PLANNING_API_KEY ||
-      process.env.OPENAI_API_KEY ||
-      process.env.OPENROUTER_API_KEY;
-    if (!PLAN_API_KEY) {
-      throw new Error('Missing planning API key. Set PLANNING_API_KEY or OPENAI_API_KEY or OPENROUTER_API_KEY');
-    }
-    const PLAN_BASE_URL =
-      process.env.PLANNING_BASE_URL ||
-      process.env.LLM_BASE_URL ||
-      process.env.OPENAI_BASE_URL ||
-      undefined;
-    const PLAN_MODEL = process.env.PLANNING_MODEL || 'gpt-4-turbo-preview';
+    // Planning and debugging providers (debugging falls back to the planning settings)
+    const planChatConfig = this.resolveChatConfig(['PLANNING']);
+    this.debugChatConfig = this.resolveChatConfig(['DEBUG', 'PLANNING']);
     const TEMPERATURE = process.env.TEMPERATURE ? Number(process.env.TEMPERATURE) : 0.3;
     const MAX_CONTEXT_CHUNKS = process.env.MAX_CONTEXT_CHUNKS ? Number(process.env.MAX_CONTEXT_CHUNKS) : 15;
 
-    // Initialize embedding generator
+    // Initialize embedding generator, reusing cached embeddings of identical chunks
+    const embeddingCache = process.env.EMBEDDING_CACHE !== 'false'
+      ? new EmbeddingCache(
+          this.redis,
+          process.env.EMBEDDING_CACHE_TTL ? Number(process.env.EMBEDDING_CACHE_TTL) : undefined
+        )
+      : undefined;
     this.embeddingGen = new EmbeddingGenerator({
+      provider: EMB_PROVIDER,
       apiKey: EMB_API_KEY,
       baseUrl: EMB_BASE_URL,
       model: EMB_MODEL,
-      batchSize: BATCH_SIZE
-    });
+      batchSize: BATCH_SIZE,
+      dimensions: EMB_DIMENSIONS
+    }, embeddingCache);
     
     // Initialize plan generator
     this.planGen = new PlanGenerator({
-      apiKey: PLAN_API_KEY,
-      baseUrl: PLAN_BASE_URL,
-      model: PLAN_MODEL,
+      ...planChatConfig,
       temperature: TEMPERATURE,
       maxContextChunks: MAX_CONTEXT_CHUNKS
     });
@@ -108,6 +172,9 @@ class CodePlannerWorker {
     this.redis.on('error', (err) => {
       console.error('❌ Redis worker error:', err);
     });
+    this.queue.on('error', (err) => {
+      console.error('❌ Redis worker queue error:', err);
+    });
     this.subscriber.on('error', (err) => {
       console.error('❌ Redis worker subscriber error:', err);
     });
@@ -118,23 +185,29 @@ class CodePlannerWorker {
    */
   async start(): Promise<void> {
     try {
-      // Connect Redis and subscriber
+      // Connect Redis, queue and subscriber clients
       await this.redis.connect();
+      await this.queue.connect();
       await this.subscriber.connect();
       await this.vectorStore.connect();
+      await this.ensureConsumerGroup();
+      
+      // Listen for cancellation of jobs this worker may be running
+      await this.subscriber.subscribe(JOB_CANCEL_CHANNEL, (jobId) => {
+        this.activeJobs.get(jobId)?.abort();
+      });
       
       this.isRunning = true;
-      console.log('🚀 CodePlanner Worker started');
-      console.log('📡 Listening for jobs on Redis channel: jobs:pending');
-      
-      // Subscribe to job queue using subscriber
-      await this.subscriber.subscribe('jobs:pending', async (message) => {
-        try {
-          const job: JobMessage = JSON.parse(message);
-          await this.processJob(job);
-        } catch (error) {
-          console.error('❌ Error processing job message:', error);
+      console.log(`🚀 CodePlanner Worker started (consumer: ${this.consumerName})`);
+      console.log(`📡 Consuming jobs from Redis stream: ${JOB_STREAM}`);
+      
+      // Consume jobs in the background until shutdown
+      this.consumeJobs().catch((error) => {
+        if (!this.isRunning) {
+          return; // Shutdown interrupted the blocking read
         }
+        console.error('❌ Job consumer stopped unexpectedly:', error);
+        process.exit(1);
       });
       
     } catch (error) {
@@ -143,39 +216,176 @@ class CodePlannerWorker {
     }
   }
 
+  /**
+   * Creates the worker consumer group (and the stream) if they don't exist yet
+   */
+  private async ensureConsumerGroup(): Promise<void> {
+    try {
+      await this.redis.xGroupCreate(JOB_STREAM, JOB_CONSUMER_GROUP, '0', { MKSTREAM: true });
+      console.log(`👥 Created consumer group ${JOB_CONSUMER_GROUP}`);
+    } catch (error: any) {
+      if (!String(error?.message).includes('BUSYGROUP')) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Main consumer loop: reclaims orphaned jobs, then waits for new ones
+   * Jobs are processed one at a time; run more workers to scale out
+   */
+  private async consumeJobs(): Promise<void> {
+    while (this.isRunning) {
+      if (Date.now() - this.lastReclaimAt >= JOB_HEARTBEAT_MS) {
+        this.lastReclaimAt = Date.now();
+        await this.reclaimStaleJobs();
+      }
+      
+      const response = await this.queue.xReadGroup(
+        JOB_CONSUMER_GROUP,
+        this.consumerName,
+        { key: JOB_STREAM, id: '>' },
+        { COUNT: 1, BLOCK: 5000 }
+      );
+      
+      for (const stream of response || []) {
+        for (const entry of stream.messages) {
+          await this.handleStreamEntry(entry.id, entry.message.job);
+        }
+      }
+    }
+  }
+
+  /**
+   * Claims jobs left pending by crashed workers and processes them
+   * Jobs that keep failing to complete are acknowledged and reported as errors
+   */
+  private async reclaimStaleJobs(): Promise<void> {
+    try {
+      const pending = await this.redis.xPendingRange(JOB_STREAM, JOB_CONSUMER_GROUP, '-', '+', 10, {
+        IDLE: JOB_CLAIM_IDLE_MS
+      });
+      
+      for (const entry of pending) {
+        const claimed = await this.redis.xClaim(
+          JOB_STREAM,
+          JOB_CONSUMER_GROUP,
+          this.consumerName,
+          JOB_CLAIM_IDLE_MS,
+          entry.id
+        );
+        
+        // Another worker reclaimed it first (its idle time was reset): leave it to that worker
+        if (claimed.length === 0) {
+          continue;
+        }
+        
+        // A null placeholder means the entry was trimmed or deleted from the stream
+        const message = claimed[0];
+        if (message === null) {
+          await this.redis.xAck(JOB_STREAM, JOB_CONSUMER_GROUP, entry.id);
+          continue;
+        }
+        
+        console.log(`♻️  Reclaimed job entry ${entry.id} from ${entry.owner} (delivery ${entry.deliveriesCounter + 1})`);
+        
+        if (entry.deliveriesCounter >= JOB_MAX_DELIVERIES) {
+          const job: JobMessage = JSON.parse(message.message.job);
+          await this.publishError(job.jobId, new Error(`Job abandoned after ${entry.deliveriesCounter} delivery attempts`));
+          await this.redis.xAck(JOB_STREAM, JOB_CONSUMER_GROUP, entry.id);
+          continue;
+        }
+        
+        await this.handleStreamEntry(message.id, message.message.job);
+      }
+    } catch (error) {
+      console.error('❌ Failed to reclaim stale jobs:', error);
+    }
+  }
+
+  /**
+   * Processes one job stream entry and acknowledges it when done
+   * While the job runs, its idle time is refreshed so other workers don't reclaim it
+   * @param entryId - Stream entry ID
+   * @param payload - Serialized job message
+   */
+  private async handleStreamEntry(entryId: string, payload: string): Promise<void> {
+    const heartbeat = setInterval(() => {
+      this.redis
+        .xClaimJustId(JOB_STREAM, JOB_CONSUMER_GROUP, this.consumerName, 0, entryId)
+        .catch((error) => console.error('❌ Failed to refresh job claim:', error));
+    }, JOB_HEARTBEAT_MS);
+    
+    try {
+      const job: JobMessage = JSON.parse(payload);
+      await this.processJob(job);
+    } catch (error) {
+      console.error('❌ Error processing job message:', error);
+    } finally {
+      clearInterval(heartbeat);
+      await this.redis.xAck(JOB_STREAM, JOB_CONSUMER_GROUP, entryId);
+    }
+  }
+
   /**
    * Processes a single job from the queue
+   * Results are published as the job runs; failures are published as an error result
    * @param job - Job message to process
    */
-  private async processJob(job: JobMessage): Promise<void> {
+  async processJob(job: JobMessage): Promise<void> {
     console.log(`\n📋 Processing job: ${job.jobId} - ${job.command}`);
     console.log(`👤 User: ${job.userId}, Project: ${job.projectId}`);
     
+    // Register before checking the flag, so a cancel arriving in between still aborts the job
+    const controller = new AbortController();
+    this.activeJobs.set(job.jobId, controller);
+    
     try {
+      if (await this.jobStore.isCancelRequested(job.jobId)) {
+        console.log(`🚫 Skipping cancelled job: ${job.jobId}`);
+        await this.publishCancelled(job.jobId);
+        return;
+      }
+      
+      await this.jobStore.markRunning(job, this.consumerName);
+      
       switch (job.command) {
         case 'index':
-          await this.handleIndex(job);
+          await this.handleIndex(job, controller.signal);
+          break;
+        case 'update':
+          await this.handleUpdate(job, controller.signal);
           break;
         case 'plan':
-          await this.handlePlan(job);
+          await this.handlePlan(job, controller.signal);
           break;
         case 'analyze-error':
-          await this.handleErrorAnalysis(job);
+          await this.handleErrorAnalysis(job, controller.signal);
           break;
         default:
           throw new Error(`Unknown command: ${job.command}`);
       }
     } catch (error) {
-      console.error(`❌ Error processing job ${job.jobId}:`, error);
-      await this.publishError(job.jobId, error);
+      // Aborted requests surface as assorted errors, the signal tells them apart
+      if (controller.signal.aborted) {
+        console.log(`🚫 Job cancelled: ${job.jobId}`);
+        await this.publishCancelled(job.jobId);
+      } else {
+        console.error(`❌ Error processing job ${job.jobId}:`, error);
+        await this.publishError(job.jobId, error);
+      }
+    } finally {
+      this.activeJobs.delete(job.jobId);
     }
   }
 
   /**
    * Handles codebase indexing jobs
+   * Only files whose content hash changed since the last run are re-embedded
    * @param job - Indexing job
+   * @param signal - Aborted when the job is cancelled
    */
-  private async handleIndex(job: JobMessage): Promise<void> {
+  private async handleIndex(job: JobMessage, signal: AbortSignal): Promise<void> {
     console.log(`📚 Starting codebase indexing for: ${job.data.projectPath}`);
     
     try {
@@ -183,50 +393,72 @@ class CodePlannerWorker {
       const parser = new ASTParser({
         projectPath: job.data.projectPath,
         includeNodeModules: false,
-        fileExtensions: ['.ts', '.tsx', '.js', '.jsx']
+        fileExtensions: INDEXED_FILE_EXTENSIONS
       });
       
       // Parse the codebase
-      const chunks = parser.parseCodebase();
-      console.log(`📊 Extracted ${chunks.length} code chunks`);
+      const { files, failedFiles } = parser.parseFiles();
+      throwIfCancelled(job.jobId, signal);
+      let previousHashes = await this.vectorStore.getFileHashes(job.userId, job.projectId);
       
-      // Chunk large code pieces if needed
-      const chunkedChunks = this.chunker.chunkCodeChunks(chunks);
-      console.log(`📦 Processed into ${chunkedChunks.length} chunks after chunking`);
-      
-      // Clear existing project data
-      await this.vectorStore.clearProject(job.userId, job.projectId);
+      // Projects indexed before hashes were tracked have no per-file data, start fresh
+      if (Object.keys(previousHashes).length === 0) {
+        await this.vectorStore.clearProject(job.userId, job.projectId);
+        previousHashes = {};
+      }
       
-      // Generate embeddings in batches
-      const batchSize = 20;
-      let processedCount = 0;
+      // Diff current files against the previous run
+      const summary: IndexSummary = { added: 0, updated: 0, unchanged: 0, deleted: 0 };
+      const changedFiles: ParsedFile[] = [];
+      // Files that failed to parse (e.g. mid-edit syntax errors) keep their previous chunks and hash
+      const currentPaths = new Set<string>(failedFiles);
       
-      for (let i = 0; i < chunkedChunks.length; i += batchSize) {
-        const batch = chunkedChunks.slice(i, i + batchSize);
-        
-        // Send progress update
-        await this.publishProgress(job.jobId, {
-          current: processedCount,
-          total: chunkedChunks.length,
-          message: 'Generating embeddings',
-          percentage: Math.round((processedCount / chunkedChunks.length) * 100)
-        });
+      for (const file of files) {
+        currentPaths.add(file.filePath);
+        const previousHash = previousHashes[file.filePath];
         
-        // Generate embeddings for this batch
-        const embeddings = await this.embeddingGen.generateEmbeddingsForChunks(batch);
-        
-        // Add embeddings to chunks
-        for (let j = 0; j < batch.length; j++) {
-          batch[j].embedding = embeddings[j];
+        if (previousHash === this.getIndexedHash(file)) {
+          summary.unchanged++;
+          continue;
         }
         
-        // Store chunks in vector database
-        await this.vectorStore.storeChunks(job.userId, job.projectId, batch);
-        
-        processedCount += batch.length;
-        console.log(`📈 Processed ${processedCount}/${chunkedChunks.length} chunks`);
+        if (previousHash === undefined) {
+          summary.added++;
+        } else {
+          summary.updated++;
+          await this.vectorStore.deleteFile(job.userId, job.projectId, file.filePath);
+        }
+        changedFiles.push(file);
       }
       
+      for (const filePath of Object.keys(previousHashes)) {
+        if (!currentPaths.has(filePath)) {
+          summary.deleted++;
+          await this.vectorStore.deleteFile(job.userId, job.projectId, filePath);
+        }
+      }
+      
+      console.log(`📊 Files: ${summary.added} added, ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.deleted} deleted`);
+      if (failedFiles.length > 0) {
+        console.warn(`⚠️  Kept the previous index of ${failedFiles.length} files that failed to parse`);
+      }
+      
+      // Chunk large code pieces if needed
+      const chunkedChunks = this.chunker.chunkCodeChunks(changedFiles.flatMap(file => file.chunks));
+      console.log(`📦 Processed into ${chunkedChunks.length} chunks after chunking`);
+      
+      // Generate embeddings and store them
+      const cache = await this.embedAndStoreChunks(job, chunkedChunks, signal);
+      const cacheLookups = cache.hits + cache.misses;
+      const hitRate = cacheLookups > 0 ? cache.hits / cacheLookups : 0;
+      
+      // Record hashes only once all chunks are stored, so a failed run is retried
+      await this.vectorStore.setFileHashes(
+        job.userId,
+        job.projectId,
+        Object.fromEntries(changedFiles.map(file => [file.filePath, this.getIndexedHash(file)]))
+      );
+      
       // Get final statistics
       const stats = await this.vectorStore.getStats(job.userId, job.projectId);
       
@@ -234,11 +466,18 @@ class CodePlannerWorker {
       await this.publishResult(job.jobId, {
         type: 'complete',
         data: {
-          message: `Successfully indexed ${stats.totalChunks} code chunks`,
+          message: `Indexed ${files.length} files (${summary.added} added, ${summary.updated} updated, ` +
+            `${summary.unchanged} unchanged, ${summary.deleted} deleted); ${stats.totalChunks} code chunks stored` +
+            (failedFiles.length > 0 ? `; ${failedFiles.length} files failed to parse and kept their previous index` : '') +
+            (cacheLookups > 0
+              ? `; embedding cache hit rate ${Math.round(hitRate * 100)}% (${cache.hits}/${cacheLookups})`
+              : ''),
           stats: {
             totalChunks: stats.totalChunks,
             totalSize: stats.totalSize,
-            chunkTypes: stats.chunkTypes
+            chunkTypes: stats.chunkTypes,
+            files: summary,
+            embeddingCache: { ...cache, hitRate }
           }
         }
       });
@@ -251,32 +490,301 @@ class CodePlannerWorker {
     }
   }
 
+  /**
+   * Handles incremental update jobs sent by `codeplanner watch`
+   * Re-chunks only the touched files and replaces their chunks in the vector store
+   * @param job - Update job
+   * @param signal - Aborted when the job is cancelled
+   */
+  private async handleUpdate(job: JobMessage, signal: AbortSignal): Promise<void> {
+    const projectRoot = path.resolve(job.data.projectPath);
+    const requestedFiles: string[] = Array.isArray(job.data.files) ? job.data.files : [];
+    console.log(`🔄 Updating ${requestedFiles.length} changed files in: ${projectRoot}`);
+    
+    try {
+      // Resolve paths against the project root and ignore anything outside it
+      const requestedPaths = requestedFiles
+        .map(file => path.resolve(projectRoot, file))
+        .filter(filePath => filePath.startsWith(projectRoot + path.sep))
+        .filter(filePath => !filePath.includes('node_modules'));
+      const isIndexed = (filePath: string) => INDEXED_FILE_EXTENSIONS.some(ext => filePath.endsWith(ext));
+      
+      // Removed or renamed directories arrive as a single event for the directory itself
+      const directories = requestedPaths.filter(filePath => this.isDirectory(filePath));
+      const removedDirectories = requestedPaths.filter(filePath => !isIndexed(filePath) && !fs.existsSync(filePath));
+      const filePaths = [
+        ...new Set([
+          ...requestedPaths.filter(filePath => isIndexed(filePath) && !this.isDirectory(filePath)),
+          ...directories.flatMap(directory => this.listIndexedFiles(directory))
+        ])
+      ];
+      
+      const existingFiles = filePaths.filter(filePath => fs.existsSync(filePath));
+      const removedFiles = filePaths.filter(filePath => !fs.existsSync(filePath));
+      
+      // Parse only the touched files
+      const parser = new ASTParser({
+        projectPath: job.data.projectPath,
+        includeNodeModules: false,
+        fileExtensions: INDEXED_FILE_EXTENSIONS,
+        files: existingFiles
+      });
+      // Files that fail to parse are left as they were indexed
+      const { files } = parser.parseFiles();
+      const previousHashes = await this.vectorStore.getFileHashes(job.userId, job.projectId);
+      
+      // Every stored file under a removed directory is gone too
+      for (const filePath of Object.keys(previousHashes)) {
+        const inRemovedDirectory = removedDirectories.some(directory => filePath.startsWith(directory + path.sep));
+        if (inRemovedDirectory && !removedFiles.includes(filePath)) {
+          removedFiles.push(filePath);
+        }
+      }
+      
+      const summary: IndexSummary = { added: 0, updated: 0, unchanged: 0, deleted: 0 };
+      const changedFiles: ParsedFile[] = [];
+      
+      for (const file of files) {
+        const previousHash = previousHashes[file.filePath];
+        
+        if (previousHash === this.getIndexedHash(file)) {
+          summary.unchanged++;
+          continue;
+        }
+        
+        if (previousHash === undefined) {
+          summary.added++;
+        } else {
+          summary.updated++;
+        }
+        // Always clear old chunks, a file may have been stored before its hash was recorded
+        await this.vectorStore.deleteFile(job.userId, job.projectId, file.filePath);
+        changedFiles.push(file);
+      }
+      
+      for (const filePath of removedFiles) {
+        if (previousHashes[filePath] !== undefined) {
+          summary.deleted++;
+        }
+        await this.vectorStore.deleteFile(job.userId, job.projectId, filePath);
+      }
+      
+      const chunkedChunks = this.chunker.chunkCodeChunks(changedFiles.flatMap(file => file.chunks));
+      await this.embedAndStoreChunks(job, chunkedChunks, signal);
+      
+      await this.vectorStore.setFileHashes(
+        job.userId,
+        job.projectId,
+        Object.fromEntries(changedFiles.map(file => [file.filePath, this.getIndexedHash(file)]))
+      );
+      
+      await this.publishResult(job.jobId, {
+        type: 'complete',
+        data: {
+          message: `Updated index: ${summary.added} added, ${summary.updated} updated, ` +
+            `${summary.unchanged} unchanged, ${summary.deleted} deleted (${chunkedChunks.length} chunks re-embedded)`,
+          stats: { files: summary, chunks: chunkedChunks.length }
+        }
+      });
+      
+      console.log(`✅ Update completed: ${chunkedChunks.length} chunks re-embedded`);
+      
+    } catch (error) {
+      console.error('❌ Update failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Checks whether a path is an existing directory
+   * @param filePath - Path to check
+   * @returns true if the path is a directory
+   */
+  private isDirectory(filePath: string): boolean {
+    try {
+      return fs.statSync(filePath).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Lists the indexed source files under a directory (e.g. one moved into the project)
+   * @param directory - Absolute directory path
+   * @returns Absolute paths of files with indexed extensions, outside node_modules
+   */
+  private listIndexedFiles(directory: string): string[] {
+    return fs.readdirSync(directory, { recursive: true })
+      .map(entry => path.join(directory, entry.toString()))
+      .filter(filePath => !filePath.includes('node_modules'))
+      .filter(filePath => INDEXED_FILE_EXTENSIONS.some(ext => filePath.endsWith(ext)))
+      .filter(filePath => !this.isDirectory(filePath));
+  }
+
+  /**
+   * Creates the vector store selected by VECTOR_STORE
+   * @returns Redis or SQLite vector store
+   */
+  private createVectorStore(): VectorStore {
+    const VECTOR_STORE = process.env.VECTOR_STORE || 'redis';
+    if (VECTOR_STORE === 'sqlite') {
+      return new SqliteVectorStore({
+        path: process.env.VECTOR_STORE_PATH || path.join(os.homedir(), '.codeplanner', 'vectors.db')
+      });
+    }
+    if (VECTOR_STORE === 'redis') {
+      return new RedisVectorStore({
+        redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+        searchIndex: process.env.VECTOR_SEARCH_INDEX !== 'false'
+      });
+    }
+    throw new Error(`Unknown VECTOR_STORE "${VECTOR_STORE}". Use redis or sqlite`);
+  }
+
+  /**
+   * Resolves chat provider settings from the environment
+   * Each setting is read from the scoped variables in order (e.g. DEBUG_MODEL, then
+   * PLANNING_MODEL), then from the shared ones (LLM_PROVIDER, LLM_BASE_URL, provider API keys)
+   * @param scopes - Environment variable prefixes, most specific first
+   * @returns Chat provider configuration
+   */
+  private resolveChatConfig(scopes: string[]): ChatProviderConfig {
+    const scoped = (name: string) =>
+      scopes.map(scope => process.env[`${scope}_${name}`]).find(Boolean);
+    
+    const provider = (scoped('PROVIDER') || process.env.LLM_PROVIDER || 'openai') as ChatProviderName;
+    if (!['openai', 'anthropic', 'ollama', 'mock'].includes(provider)) {
+      throw new Error(`Unknown LLM provider "${provider}". Use openai, anthropic, ollama or mock`);
+    }
+    
+    const keyVars = [
+      ...scopes.map(scope => `${scope}_API_KEY`),
+      ...(provider === 'anthropic' ? ['ANTHROPIC_API_KEY'] : ['OPENAI_API_KEY', 'OPENROUTER_API_KEY'])
+    ];
+    const apiKey = keyVars.map(name => process.env[name]).find(Boolean);
+    if (!apiKey && (provider === 'openai' || provider === 'anthropic')) {
+      throw new Error(`Missing ${scopes[0].toLowerCase()} API key for ${provider}. Set ${keyVars.join(' or ')}`);
+    }
+    
+    return {
+      provider,
+      apiKey,
+      baseUrl:
+        scoped('BASE_URL') ||
+        process.env.LLM_BASE_URL ||
+        (provider === 'openai' ? process.env.OPENAI_BASE_URL : undefined),
+      model: scoped('MODEL'),
+      fixturesPath: process.env.MOCK_LLM_FIXTURES
+    };
+  }
+
+  /**
+   * Gets the hash recorded for an indexed file
+   * Scoped by embedding model, so switching model or provider re-embeds every file
+   * instead of mixing vectors from different models
+   * @param file - Parsed file
+   * @returns Hash of the file's content and the embedding model
+   */
+  private getIndexedHash(file: ParsedFile): string {
+    return hashContent(`${this.embeddingGen.getStats().model}:${file.contentHash}`);
+  }
+
+  /**
+   * Generates embeddings for chunks in batches and stores them, publishing progress
+   * Stops between batches once the job is cancelled
+   * @param job - Job the chunks belong to
+   * @param chunks - Chunks to embed and store
+   * @param signal - Aborted when the job is cancelled
+   * @returns Embedding cache hits and misses
+   */
+  private async embedAndStoreChunks(
+    job: JobMessage,
+    chunks: CodeChunk[],
+    signal: AbortSignal
+  ): Promise<EmbeddingCacheStats> {
+    const batchSize = 20;
+    let processedCount = 0;
+    const cacheStats: EmbeddingCacheStats = { hits: 0, misses: 0 };
+    
+    for (let i = 0; i < chunks.length; i += batchSize) {
+      throwIfCancelled(job.jobId, signal);
+      const batch = chunks.slice(i, i + batchSize);
+      
+      // Send progress update
+      await this.publishProgress(job.jobId, {
+        current: processedCount,
+        total: chunks.length,
+        message: 'Generating embeddings',
+        percentage: Math.round((processedCount / chunks.length) * 100)
+      });
+      
+      // Generate embeddings for this batch
+      const embeddings = await this.embeddingGen.generateEmbeddingsForChunks(batch, signal, cacheStats);
+      
+      // Add embeddings to chunks
+      for (let j = 0; j < batch.length; j++) {
+        batch[j].embedding = embeddings[j];
+      }
+      
+      // Store chunks in vector database
+      await this.vectorStore.storeChunks(job.userId, job.projectId, batch);
+      
+      processedCount += batch.length;
+      console.log(`📈 Processed ${processedCount}/${chunks.length} chunks`);
+    }
+    
+    return cacheStats;
+  }
+
   /**
    * Handles plan generation jobs
    * @param job - Planning job
+   * @param signal - Aborted when the job is cancelled
    */
-  private async handlePlan(job: JobMessage): Promise<void> {
+  private async handlePlan(job: JobMessage, signal: AbortSignal): Promise<void> {
+    if (job.data.sessionId) {
+      await this.handlePlanSession(job, signal);
+      return;
+    }
+    
     console.log(`🧠 Generating plan for query: "${job.data.query}"`);
     
     try {
       // Generate query embedding
-      const queryEmbedding = await this.embeddingGen.generateEmbedding(job.data.query);
+      const queryEmbedding = await this.embeddingGen.generateEmbedding(job.data.query, signal);
       
       // Search for relevant code
       const relevantCode = await this.vectorStore.searchSimilar(
         job.userId,
         job.projectId,
         queryEmbedding,
-        15
+        15,
+        job.data.query
       );
       
       console.log(`🔍 Found ${relevantCode.length} relevant code chunks`);
       
+      // Model and context are reported with the result so saved plans can be traced back
+      const { model, maxContextChunks } = this.planGen.getStats();
+      const context = this.describeContext(relevantCode.slice(0, maxContextChunks));
+      
+      // Structured plans are validated as a whole, so they are sent in the completion message
+      if (job.data.format === 'json') {
+        const plan = await this.planGen.generateStructuredPlan(job.data.query, relevantCode, signal);
+        await this.publishResult(job.jobId, {
+          type: 'complete',
+          data: { type: 'complete', plan, model, context }
+        });
+        console.log(`✅ Structured plan generation completed`);
+        return;
+      }
+      
       // Generate plan using streaming
-      const stream = await this.planGen.generatePlan(job.data.query, relevantCode);
+      const stream = await this.planGen.generatePlan(job.data.query, relevantCode, signal);
       
       // Stream the plan content
       for await (const chunk of stream) {
+        throwIfCancelled(job.jobId, signal);
         await this.publishResult(job.jobId, {
           type: 'stream',
           data: { chunk }
@@ -286,7 +794,7 @@ class CodePlannerWorker {
       // Send completion message
       await this.publishResult(job.jobId, {
         type: 'complete',
-        data: { type: 'complete' }
+        data: { type: 'complete', model, context }
       });
       
       console.log(`✅ Plan generation completed`);
@@ -297,35 +805,146 @@ class CodePlannerWorker {
     }
   }
 
+  /**
+   * Handles one turn of an interactive planning session
+   * The first turn generates a plan; later turns revise it with the follow-up in the query,
+   * adding relevant code the model hasn't seen yet
+   * @param job - Planning job with a session ID
+   * @param signal - Aborted when the job is cancelled
+   */
+  private async handlePlanSession(job: JobMessage, signal: AbortSignal): Promise<void> {
+    const sessionId: string = job.data.sessionId;
+    console.log(`💬 Continuing session ${sessionId}: "${job.data.query}"`);
+    
+    try {
+      if (job.data.format === 'json') {
+        throw new Error('Interactive sessions only support text plans');
+      }
+      
+      const existing = await this.sessionStore.get(sessionId);
+      if (existing && (existing.userId !== job.userId || existing.projectId !== job.projectId)) {
+        throw new Error(`Session ${sessionId} belongs to another user or project`);
+      }
+      
+      const session: PlanSession = existing || {
+        sessionId,
+        userId: job.userId,
+        projectId: job.projectId,
+        query: job.data.query,
+        messages: [],
+        contextChunkIds: [],
+        createdAt: Date.now(),
+        updatedAt: Date.now()
+      };
+      
+      // Retrieve code for this turn's query, whether it starts the session or follows up
+      const queryEmbedding = await this.embeddingGen.generateEmbedding(job.data.query, signal);
+      const relevantCode = await this.vectorStore.searchSimilar(
+        job.userId,
+        job.projectId,
+        queryEmbedding,
+        15,
+        job.data.query
+      );
+      
+      const { model, maxContextChunks } = this.planGen.getStats();
+      const isFirstTurn = session.messages.length === 0;
+      const newCode = isFirstTurn
+        ? relevantCode.slice(0, maxContextChunks)
+        : relevantCode.filter(chunk => !session.contextChunkIds.includes(chunk.id)).slice(0, SESSION_FOLLOW_UP_CHUNKS);
+      const prompt = isFirstTurn
+        ? this.planGen.createPlanMessage(job.data.query, newCode)
+        : this.planGen.createFollowUpMessage(job.data.query, newCode);
+      
+      const messages = [...session.messages, prompt];
+      const stream = await this.planGen.refinePlan(messages, signal);
+      
+      // Stream the revised plan, keeping it for the conversation
+      let plan = '';
+      for await (const chunk of stream) {
+        throwIfCancelled(job.jobId, signal);
+        plan += chunk;
+        await this.publishResult(job.jobId, {
+          type: 'stream',
+          data: { chunk }
+        });
+      }
+      
+      // Cancelled turns are never saved, so the session stays at the previous plan
+      session.messages = [...messages, { role: 'assistant', content: plan }];
+      session.contextChunkIds.push(...newCode.map(chunk => chunk.id));
+      session.updatedAt = Date.now();
+      await this.sessionStore.save(session);
+      
+      await this.publishResult(job.jobId, {
+        type: 'complete',
+        data: {
+          type: 'complete',
+          model,
+          context: this.describeContext(newCode),
+          sessionId,
+          turn: session.messages.length / 2
+        }
+      });
+      
+      console.log(`✅ Session ${sessionId} turn ${session.messages.length / 2} completed`);
+      
+    } catch (error) {
+      console.error('❌ Plan session failed:', error);
+      throw error;
+    }
+  }
+
   /**
    * Handles error analysis jobs
    * @param job - Error analysis job
+   * @param signal - Aborted when the job is cancelled
    */
-  private async handleErrorAnalysis(job: JobMessage): Promise<void> {
-    console.log(`🐛 Analyzing error: ${job.data.errorType}`);
+  private async handleErrorAnalysis(job: JobMessage, signal: AbortSignal): Promise<void> {
+    console.log(`🐛 Analyzing error: ${job.data.errorType || 'auto'}`);
     
     try {
-      // Parse the error
-      let parsedError;
-      if (job.data.errorType === 'compiler') {
-        const errors = this.errorParser.parseTypeScriptError(job.data.errorInput);
-        parsedError = errors[0]; // Take the first error
-      } else if (job.data.errorType === 'linter') {
-        const errors = this.errorParser.parseLinterError(job.data.errorInput);
-        parsedError = errors[0]; // Take the first error
-      } else {
-        parsedError = this.errorParser.parseRuntimeError(job.data.errorInput);
+      // Detect the input format (within the requested error type, if any) and parse the errors
+      const detection = this.errorParser.detectErrorType(job.data.errorInput, job.data.errorType);
+      const parsedErrors = this.errorParser.parseDetected(job.data.errorInput, detection);
+      console.log(`🔎 Parsing as ${detection.type} (${detection.parser}, confidence ${detection.confidence})`);
+      
+      if (parsedErrors.length === 0) {
+        throw new Error(`Failed to parse error input as ${detection.parser} output`);
       }
       
-      if (!parsedError) {
-        throw new Error('Failed to parse error input');
+      await this.publishResult(job.jobId, {
+        type: 'stream',
+        data: { detection }
+      });
+      
+      // Map frames in compiled output (dist/*.js, bundles) back to the original sources
+      const sourceMaps = new SourceMapResolver({ projectPath: job.data.projectPath });
+      const resolvedErrors = parsedErrors.map(error => sourceMaps.resolveError(error));
+      const mappedFrames = resolvedErrors
+        .flatMap(error => error.stackTrace || [])
+        .filter(frame => frame.generated).length;
+      if (mappedFrames > 0) {
+        console.log(`🗺️  Resolved ${mappedFrames} stack frames through source maps`);
       }
       
-      console.log(`📋 Parsed error: ${parsedError.type} - ${parsedError.message}`);
+      // Merge repeated and cascading errors, upstream errors first
+      const rootCauses = this.errorParser.deduplicateErrors(resolvedErrors);
+      const analyzedErrors = rootCauses.slice(0, MAX_ANALYZED_ERRORS);
+      const omitted = rootCauses.length - analyzedErrors.length;
+      
+      console.log(
+        `📋 Parsed ${parsedErrors.length} ${parsedErrors[0].type} errors into ${rootCauses.length} root causes` +
+        (omitted > 0 ? ` (analyzing the first ${analyzedErrors.length})` : '')
+      );
       
       // Generate error embedding for semantic search
       const errorEmbedding = await this.embeddingGen.generateEmbedding(
-        parsedError.message + ' ' + (parsedError.filePath || '')
+        analyzedErrors
+          .slice(0, 5)
+          .map(({ error }) => error.message + ' ' + (error.filePath || ''))
+          .join('\n'),
+        signal
       );
       
       // Search for relevant code
@@ -333,7 +952,8 @@ class CodePlannerWorker {
         job.userId,
         job.projectId,
         errorEmbedding,
-        10
+        10,
+        job.data.errorInput
       );
       
       console.log(`🔍 Found ${relevantCode.length} relevant code chunks for error analysis`);
@@ -344,29 +964,42 @@ class CodePlannerWorker {
       });
       
       const errorDebugger = new Debugger({
-        apiKey:
-          process.env.DEBUG_API_KEY ||
-          process.env.PLANNING_API_KEY ||
-          process.env.OPENAI_API_KEY ||
-          process.env.OPENROUTER_API_KEY!,
-        baseUrl:
-          process.env.DEBUG_BASE_URL ||
-          process.env.PLANNING_BASE_URL ||
-          process.env.LLM_BASE_URL ||
-          process.env.OPENAI_BASE_URL ||
-          undefined,
-        model:
-          process.env.DEBUG_MODEL ||
-          process.env.PLANNING_MODEL ||
-          'gpt-4-turbo-preview',
+        ...this.debugChatConfig,
         temperature: process.env.TEMPERATURE ? Number(process.env.TEMPERATURE) : 0.2
       }, parser);
       
+      const { model } = errorDebugger.getStats();
+      const context = this.describeContext(relevantCode);
+      const errors = analyzedErrors.length > 1 ? this.describeErrors(analyzedErrors) : undefined;
+      
+      // Structured plans are validated as a whole, so they are sent in the completion message
+      if (job.data.format === 'json') {
+        const plan = await errorDebugger.analyzeErrorStructured(analyzedErrors, relevantCode, signal);
+        if (errors) {
+          plan.errors = errors;
+        }
+        await this.publishResult(job.jobId, {
+          type: 'complete',
+          data: { type: 'complete', plan, model, context, detection }
+        });
+        console.log(`✅ Structured error analysis completed`);
+        return;
+      }
+      
       // Generate debugging plan using streaming
-      const stream = await errorDebugger.analyzeError(parsedError, relevantCode);
+      const stream = await errorDebugger.analyzeError(analyzedErrors, relevantCode, signal);
+      
+      // List the analyzed errors first, so the plan's "Resolves: E1" lines can be read
+      if (errors) {
+        await this.publishResult(job.jobId, {
+          type: 'stream',
+          data: { chunk: this.formatErrorList(errors, omitted) }
+        });
+      }
       
       // Stream the debugging plan content
       for await (const chunk of stream) {
+        throwIfCancelled(job.jobId, signal);
         await this.publishResult(job.jobId, {
           type: 'stream',
           data: { chunk }
@@ -376,7 +1009,7 @@ class CodePlannerWorker {
       // Send completion message
       await this.publishResult(job.jobId, {
         type: 'complete',
-        data: { type: 'complete' }
+        data: { type: 'complete', model, context, errors, detection }
       });
       
       console.log(`✅ Error analysis completed`);
@@ -388,23 +1021,99 @@ class CodePlannerWorker {
   }
 
   /**
-   * Publishes a result message to Redis
+   * Summarizes the analyzed errors that debugging steps refer to
+   * @param groups - Root cause groups in fix order
+   * @returns Error references
+   */
+  private describeErrors(groups: RootCauseGroup[]): ErrorReference[] {
+    return groups.map(({ id, error, related }) => ({
+      id,
+      type: error.type,
+      message: error.message,
+      filePath: error.filePath,
+      lineNumber: error.lineNumber,
+      columnNumber: error.columnNumber,
+      code: error.errorCode || error.rule,
+      related: related.map(other =>
+        `${other.filePath || 'unknown'}:${other.lineNumber || '?'}${other.errorCode || other.rule ? ` ${other.errorCode || other.rule}` : ''}`
+      )
+    }));
+  }
+
+  /**
+   * Formats the analyzed errors as the Markdown list that starts a streamed debugging plan
+   * @param errors - Error references in fix order
+   * @param omitted - Root causes left out of the analysis
+   * @returns Markdown section
+   */
+  private formatErrorList(errors: ErrorReference[], omitted: number): string {
+    const lines = errors.map(error => {
+      const location = error.filePath ? ` \`${error.filePath}:${error.lineNumber || '?'}\`` : '';
+      const code = error.code ? ` ${error.code}` : '';
+      const related = error.related.length > 0 ? ` (+${error.related.length} related)` : '';
+      return `- **${error.id}**${location}${code}: ${error.message}${related}`;
+    });
+    if (omitted > 0) {
+      lines.push(`- ${omitted} more errors not analyzed; re-run after fixing these`);
+    }
+    return `## Errors\n\n${lines.join('\n')}\n\n`;
+  }
+
+  /**
+   * Summarizes the code chunks given to the model as context
+   * @param chunks - Chunks from search
+   * @returns Chunk references with their similarity and keyword scores
+   */
+  private describeContext(chunks: ScoredChunk[]): ContextReference[] {
+    return chunks.map(chunk => ({
+      id: chunk.id,
+      filePath: chunk.filePath,
+      name: chunk.name,
+      similarity: Number(chunk.similarity.toFixed(4)),
+      lexicalScore: Number(chunk.lexicalScore.toFixed(4))
+    }));
+  }
+
+  /**
+   * Hands a result message to the result sink
    * @param jobId - Job ID
    * @param result - Result data
    */
-  private async publishResult(jobId: string, result: Omit<JobResult, 'jobId' | 'timestamp'>): Promise<void> {
+  private async publishResult(jobId: string, result: Omit<JobResult, 'jobId' | 'timestamp' | 'seq'>): Promise<void> {
+    await this.resultSink({
+      jobId,
+      type: result.type,
+      data: result.data,
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * Publishes a result message to Redis and records it on the job record
+   * The result is appended to the job's result stream first, so it can be replayed
+   * @param jobResult - Result to publish
+   */
+  private async publishToRedis(jobResult: JobResult): Promise<void> {
+    const { jobId, type, data } = jobResult;
     try {
-      const message = JSON.stringify({
-        jobId,
-        type: result.type,
-        data: result.data,
-        timestamp: Date.now()
-      });
+      const seq = await this.jobStore.appendResult(jobResult);
       
-      await this.redis.publish(`results:${jobId}`, message);
+      await this.redis.publish(`results:${jobId}`, JSON.stringify({ ...jobResult, seq }));
     } catch (error) {
       console.error('❌ Failed to publish result:', error);
     }
+    
+    if (type === 'complete') {
+      await this.jobStore.complete(jobId, data);
+    } else if (type === 'error' && data?.cancelled) {
+      await this.jobStore.markCancelled(jobId);
+    } else if (type === 'error') {
+      await this.jobStore.fail(jobId, data?.message || 'Unknown error occurred');
+    } else if (data?.progress) {
+      await this.jobStore.updateProgress(jobId, data.progress);
+    } else if (typeof data?.chunk === 'string') {
+      await this.jobStore.appendOutput(jobId, data.chunk);
+    }
   }
 
   /**
@@ -434,6 +1143,20 @@ class CodePlannerWorker {
     });
   }
 
+  /**
+   * Publishes the cancellation of a job as its final result
+   * @param jobId - Job ID
+   */
+  private async publishCancelled(jobId: string): Promise<void> {
+    await this.publishResult(jobId, {
+      type: 'error',
+      data: {
+        message: 'Job cancelled',
+        cancelled: true
+      }
+    });
+  }
+
   /**
    * Gracefully shuts down the worker
    */
@@ -445,7 +1168,8 @@ class CodePlannerWorker {
     try {
       await this.vectorStore.disconnect();
       await this.redis.quit();
-      await this.subscriber.quit(); // Also quit the subscriber
+      await this.subscriber.quit();
+      await this.queue.disconnect(); // May be blocked waiting for jobs
       console.log('✅ Worker shutdown complete');
     } catch (error) {
       console.error('❌ Error during worker shutdown:', error);
@@ -464,42 +1188,44 @@ class CodePlannerWorker {
     return {
       isRunning: this.isRunning,
       redisConnected: this.redis.isReady,
-      vectorStoreConnected: this.vectorStore.isRedisConnected()
+      vectorStoreConnected: this.vectorStore.isConnected()
     };
   }
 }
 
-// Create and start the worker
-const worker = new CodePlannerWorker();
-
-// Handle graceful shutdown
-process.on('SIGINT', async () => {
-  console.log('\n🛑 Received SIGINT, shutting down gracefully...');
-  await worker.shutdown();
-  process.exit(0);
-});
-
-process.on('SIGTERM', async () => {
-  console.log('\n🛑 Received SIGTERM, shutting down gracefully...');
-  await worker.shutdown();
-  process.exit(0);
-});
-
-// Handle uncaught exceptions
-process.on('uncaughtException', async (error) => {
-  console.error('❌ Uncaught exception:', error);
-  await worker.shutdown();
-  process.exit(1);
-});
-
-process.on('unhandledRejection', async (reason) => {
-  console.error('❌ Unhandled rejection:', reason);
-  await worker.shutdown();
-  process.exit(1);
-});
-
-// Start the worker
-worker.start().catch((error) => {
-  console.error('❌ Failed to start worker:', error);
-  process.exit(1);
-});
+// Create and start the worker when run directly (tests import the class)
+if (import.meta.main) {
+  const worker = new CodePlannerWorker();
+
+  // Handle graceful shutdown
+  process.on('SIGINT', async () => {
+    console.log('\n🛑 Received SIGINT, shutting down gracefully...');
+    await worker.shutdown();
+    process.exit(0);
+  });
+
+  process.on('SIGTERM', async () => {
+    console.log('\n🛑 Received SIGTERM, shutting down gracefully...');
+    await worker.shutdown();
+    process.exit(0);
+  });
+
+  // Handle uncaught exceptions
+  process.on('uncaughtException', async (error) => {
+    console.error('❌ Uncaught exception:', error);
+    await worker.shutdown();
+    process.exit(1);
+  });
+
+  process.on('unhandledRejection', async (reason) => {
+    console.error('❌ Unhandled rejection:', reason);
+    await worker.shutdown();
+    process.exit(1);
+  });
+
+  // Start the worker
+  worker.start().catch((error) => {
+    console.error('❌ Failed to start worker:', error);
+    process.exit(1);
+  });
+}
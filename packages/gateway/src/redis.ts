@@ -2,11 +2,32 @@
  * Redis client configuration and utilities for the gateway
  * 
  * This module handles Redis connection management and provides
- * utilities for pub/sub operations between gateway and worker processes.
+ * utilities for queueing jobs and receiving results between gateway
+ * and worker processes.
  */
 
 import { createClient, RedisClientType } from 'redis';
+import { createHash, randomBytes } from 'crypto';
 import type { JobMessage, ResultMessage } from './types';
+import type { JobRecord } from '@codeplanner/shared';
+
+/** Redis Stream that holds pending jobs for the worker consumer group */
+const JOB_STREAM = 'jobs:stream';
+
+/** Approximate number of entries kept in the job stream */
+const JOB_STREAM_MAX_LENGTH = 10000;
+
+/** Key prefix for job records (layout shared with packages/engine/src/jobs/job-store.ts) */
+const JOB_KEY_PREFIX = 'codeplanner:jobs';
+
+/** How long job records are kept */
+const JOB_RECORD_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** Pub/sub channel carrying the IDs of jobs to cancel (see packages/engine/src/jobs/cancellation.ts) */
+const JOB_CANCEL_CHANNEL = 'jobs:cancel';
+
+/** Key prefix for API token records (keyed by token hash) */
+const TOKEN_KEY_PREFIX = 'codeplanner:tokens';
 
 /**
  * Redis client wrapper for the gateway
@@ -51,6 +72,7 @@ export class GatewayRedisClient {
 
   /**
    * Publishes a job message to the worker queue
+   * Jobs are appended to a Redis Stream, so they wait until a worker claims them
    * @param job - Job message to publish
    */
   async publishJob(job: JobMessage): Promise<void> {
@@ -59,7 +81,9 @@ export class GatewayRedisClient {
     }
     
     try {
-      await this.redis.publish('jobs:pending', JSON.stringify(job));
+      await this.redis.xAdd(JOB_STREAM, '*', { job: JSON.stringify(job) }, {
+        TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: JOB_STREAM_MAX_LENGTH }
+      });
       console.log(`📤 Published job ${job.jobId} to worker queue`);
     } catch (error) {
       console.error('❌ Failed to publish job:', error);
@@ -67,45 +91,250 @@ export class GatewayRedisClient {
     }
   }
 
+  /**
+   * Creates the job record for a newly queued job
+   * The record is indexed per user and per project for listing
+   * @param job - Job message being queued
+   */
+  async createJobRecord(job: JobMessage): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error('Redis client is not connected');
+    }
+    
+    const now = Date.now();
+    const recordKey = `${JOB_KEY_PREFIX}:${job.jobId}`;
+    const indexKeys = [
+      `${JOB_KEY_PREFIX}:user:${job.userId}`,
+      `${JOB_KEY_PREFIX}:project:${job.userId}:${job.projectId}`
+    ];
+    
+    const pipeline = this.redis.multi();
+    pipeline.hSet(recordKey, {
+      jobId: job.jobId,
+      command: job.command,
+      userId: job.userId,
+      projectId: job.projectId,
+      status: 'queued',
+      createdAt: now.toString()
+    });
+    pipeline.expire(recordKey, JOB_RECORD_TTL_SECONDS);
+    
+    for (const indexKey of indexKeys) {
+      pipeline.zAdd(indexKey, { score: now, value: job.jobId });
+      // Drop index entries whose records have expired
+      pipeline.zRemRangeByScore(indexKey, 0, now - JOB_RECORD_TTL_SECONDS * 1000);
+      pipeline.expire(indexKey, JOB_RECORD_TTL_SECONDS);
+    }
+    
+    await pipeline.exec();
+  }
+
+  /**
+   * Gets a job record by ID
+   * @param jobId - Job ID
+   * @returns Job record, or null if unknown or expired
+   */
+  async getJobRecord(jobId: string): Promise<JobRecord | null> {
+    if (!this.isConnected) {
+      throw new Error('Redis client is not connected');
+    }
+    
+    const recordKey = `${JOB_KEY_PREFIX}:${jobId}`;
+    const [data, output] = await Promise.all([
+      this.redis.hGetAll(recordKey),
+      this.redis.get(`${recordKey}:output`)
+    ]);
+    
+    return data.jobId ? this.parseJobRecord(data, output) : null;
+  }
+
+  /**
+   * Lists the most recent jobs of a user, optionally limited to one project
+   * @param userId - User whose jobs to list
+   * @param projectId - Project to filter by (all projects if omitted)
+   * @param limit - Maximum number of jobs to return
+   * @returns Job records, newest first (without streamed output)
+   */
+  async listJobRecords(userId: string, projectId: string | undefined, limit: number): Promise<JobRecord[]> {
+    if (!this.isConnected) {
+      throw new Error('Redis client is not connected');
+    }
+    
+    const indexKey = projectId
+      ? `${JOB_KEY_PREFIX}:project:${userId}:${projectId}`
+      : `${JOB_KEY_PREFIX}:user:${userId}`;
+    const jobIds = await this.redis.zRange(indexKey, 0, limit - 1, { REV: true });
+    
+    const records: JobRecord[] = [];
+    for (const jobId of jobIds) {
+      const data = await this.redis.hGetAll(`${JOB_KEY_PREFIX}:${jobId}`);
+      if (data.jobId) {
+        records.push(this.parseJobRecord(data, null));
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Requests cancellation of a job
+   * Queued jobs are flagged so the worker skips them; running jobs are
+   * aborted by the worker that picks up the broadcast
+   * @param jobId - Job ID
+   * @returns true if the job was still queued and has been cancelled outright
+   */
+  async cancelJob(jobId: string): Promise<boolean> {
+    if (!this.isConnected) {
+      throw new Error('Redis client is not connected');
+    }
+    
+    const recordKey = `${JOB_KEY_PREFIX}:${jobId}`;
+    await this.redis.set(`${recordKey}:cancelled`, '1', { EX: JOB_RECORD_TTL_SECONDS });
+    await this.redis.publish(JOB_CANCEL_CHANNEL, jobId);
+    
+    const status = await this.redis.hGet(recordKey, 'status');
+    if (status !== 'queued') {
+      return false;
+    }
+    
+    await this.redis.hSet(recordKey, {
+      status: 'cancelled',
+      finishedAt: Date.now().toString()
+    });
+    return true;
+  }
+
+  /**
+   * Converts a raw job record hash into a JobRecord
+   * @param data - Hash fields from Redis
+   * @param output - Streamed output, if loaded
+   * @returns Parsed job record
+   */
+  private parseJobRecord(data: Record<string, string>, output: string | null): JobRecord {
+    return {
+      jobId: data.jobId,
+      command: data.command,
+      userId: data.userId,
+      projectId: data.projectId,
+      status: data.status as JobRecord['status'],
+      createdAt: Number(data.createdAt),
+      startedAt: data.startedAt ? Number(data.startedAt) : undefined,
+      finishedAt: data.finishedAt ? Number(data.finishedAt) : undefined,
+      workerId: data.workerId || undefined,
+      progress: data.progress ? JSON.parse(data.progress) : undefined,
+      result: data.result ? JSON.parse(data.result) : undefined,
+      output: output ?? undefined,
+      error: data.error || undefined
+    };
+  }
+
   /**
    * Subscribes to result messages for a specific job
+   * Several connections may follow the same job (e.g. after a client reconnects)
    * @param jobId - Job ID to subscribe to results for
    * @param callback - Callback function to handle result messages
+   * @returns Function that removes this subscription only
    */
-  async subscribeToResults(jobId: string, callback: (result: ResultMessage) => void): Promise<void> {
+  async subscribeToResults(jobId: string, callback: (result: ResultMessage) => void): Promise<() => Promise<void>> {
     if (!this.isConnected) {
       throw new Error('Redis subscriber is not connected');
     }
     
+    const channel = `results:${jobId}`;
+    const listener = (message: string) => {
+      try {
+        const result: ResultMessage = JSON.parse(message);
+        callback(result);
+      } catch (error) {
+        console.error('❌ Failed to parse result message:', error);
+      }
+    };
+    
     try {
-      const channel = `results:${jobId}`;
-      await this.subscriber.subscribe(channel, (message) => {
-        try {
-          const result: ResultMessage = JSON.parse(message);
-          callback(result);
-        } catch (error) {
-          console.error('❌ Failed to parse result message:', error);
-        }
-      });
+      await this.subscriber.subscribe(channel, listener);
       console.log(`📥 Subscribed to results for job ${jobId}`);
     } catch (error) {
       console.error('❌ Failed to subscribe to results:', error);
       throw error;
     }
+    
+    return async () => {
+      try {
+        await this.subscriber.unsubscribe(channel, listener);
+        console.log(`📤 Unsubscribed from results for job ${jobId}`);
+      } catch (error) {
+        console.error('❌ Failed to unsubscribe from results:', error);
+      }
+    };
   }
 
   /**
-   * Unsubscribes from result messages for a specific job
-   * @param jobId - Job ID to unsubscribe from
+   * Gets the results a job has produced so far, in order
+   * @param jobId - Job ID
+   * @returns Result messages with their sequence numbers (empty once expired)
    */
-  async unsubscribeFromResults(jobId: string): Promise<void> {
-    try {
-      const channel = `results:${jobId}`;
-      await this.subscriber.unsubscribe(channel);
-      console.log(`📤 Unsubscribed from results for job ${jobId}`);
-    } catch (error) {
-      console.error('❌ Failed to unsubscribe from results:', error);
+  async getJobResults(jobId: string): Promise<ResultMessage[]> {
+    if (!this.isConnected) {
+      throw new Error('Redis client is not connected');
+    }
+    
+    const entries = await this.redis.xRange(`${JOB_KEY_PREFIX}:${jobId}:results`, '-', '+');
+    return entries.map(entry => JSON.parse(entry.message.result) as ResultMessage);
+  }
+
+  /**
+   * Resolves an API token to the user it was issued for
+   * @param token - Raw API token presented by the client
+   * @returns User ID, or null if the token is unknown
+   */
+  async resolveToken(token: string): Promise<string | null> {
+    if (!this.isConnected) {
+      throw new Error('Redis client is not connected');
+    }
+    
+    const userId = await this.redis.hGet(this.getTokenKey(token), 'userId');
+    return userId || null;
+  }
+
+  /**
+   * Issues a new API token for a user
+   * Only a hash of the token is stored, so the raw value is shown once
+   * @param userId - User the token authenticates as
+   * @returns Raw API token
+   */
+  async createToken(userId: string): Promise<string> {
+    if (!this.isConnected) {
+      throw new Error('Redis client is not connected');
     }
+    
+    const token = `cp_${randomBytes(24).toString('hex')}`;
+    await this.redis.hSet(this.getTokenKey(token), {
+      userId,
+      createdAt: Date.now().toString()
+    });
+    return token;
+  }
+
+  /**
+   * Revokes an API token
+   * @param token - Raw API token to revoke
+   * @returns true if the token existed
+   */
+  async revokeToken(token: string): Promise<boolean> {
+    if (!this.isConnected) {
+      throw new Error('Redis client is not connected');
+    }
+    
+    return (await this.redis.del(this.getTokenKey(token))) > 0;
+  }
+
+  /**
+   * Generates the Redis key for a token record
+   * @param token - Raw API token
+   * @returns Redis key string
+   */
+  private getTokenKey(token: string): string {
+    const tokenHash = createHash('sha256').update(token).digest('hex');
+    return `${TOKEN_KEY_PREFIX}:${tokenHash}`;
   }
 
   /**
@@ -8,7 +8,7 @@
 
 import type { ServerWebSocket } from 'bun';
 import { GatewayRedisClient } from './redis';
-import type { WSData, JobMessage } from './types';
+import type { WSData, JobMessage, ResultMessage } from './types';
 import type { PlanRequest, WSMessage } from '@codeplanner/shared';
 
 /**
@@ -19,6 +19,8 @@ class CodePlannerGateway {
   private redis: GatewayRedisClient;
   private server: any;
   private connections: Map<string, ServerWebSocket<WSData>> = new Map();
+  /** Result subscriptions per connection, keyed by job ID */
+  private subscriptions: Map<string, Map<string, () => Promise<void>>> = new Map();
   private connectionCount: number = 0;
 
   constructor() {
@@ -41,15 +43,8 @@ class CodePlannerGateway {
         websocket: {
           // Handle new client connections
           open: (ws) => {
-            const connectionId = crypto.randomUUID();
-            const userId = 'user1'; // TODO: Implement proper user authentication
-            
-            // Store connection data
-            ws.data = {
-              userId,
-              connectionId,
-              connectedAt: Date.now()
-            };
+            // Connection data was attached during the authenticated upgrade
+            const { connectionId, userId } = ws.data;
             
             // Track the connection
             this.connections.set(connectionId, ws);
@@ -66,8 +61,26 @@ class CodePlannerGateway {
               if (!msg.type && (msg.command || msg.query || msg.errorInput)) {
                 msg = { type: 'request', jobId: crypto.randomUUID(), data: msg };
               }
+              
+              if (msg.type === 'cancel') {
+                await this.handleCancel(ws, msg.jobId);
+                return;
+              }
+              
+              if (msg.type === 'resume') {
+                await this.handleResume(ws, msg.jobId, Number(msg.data?.afterSeq) || 0);
+                return;
+              }
+              
               const jobId = crypto.randomUUID();
               
+              // Every job is scoped to a project so several projects can share one backend
+              const projectId = msg.data?.projectId;
+              if (typeof projectId !== 'string' || !projectId.trim()) {
+                this.sendError(ws, 'Request is missing a projectId');
+                return;
+              }
+              
               console.log(`📨 Received ${msg.type} message from ${ws.data.connectionId}`);
               
               // Create job message for worker
@@ -75,19 +88,28 @@ class CodePlannerGateway {
                 jobId,
                 connectionId: ws.data.connectionId,
                 userId: ws.data.userId,
-                projectId: 'project1', // TODO: Get from request
+                projectId: projectId.trim(),
                 command: msg.data.command || 'unknown',
                 data: msg.data
               };
               
-              // Publish job to worker queue
-              await this.redis.publishJob(job);
-              
-              // Subscribe to results for this job
-              await this.redis.subscribeToResults(jobId, (result: any) => {
+              // Subscribe to results before queueing, so early results are not missed
+              await this.followJob(ws, jobId, (result) => {
                 this.handleJobResult(ws, result);
               });
               
+              // Record and publish job to worker queue
+              await this.redis.createJobRecord(job);
+              await this.redis.publishJob(job);
+              
+              // Tell the client which job ID to track
+              const accepted: WSMessage = {
+                type: 'accepted',
+                jobId,
+                data: { command: job.command }
+              };
+              ws.send(JSON.stringify(accepted));
+              
             } catch (error) {
               console.error('❌ Error processing message:', error);
               this.sendError(ws, 'Invalid message format');
@@ -98,12 +120,18 @@ class CodePlannerGateway {
           close: (ws) => {
             console.log(`🔌 Client disconnected: ${ws.data.connectionId}`);
             this.connections.delete(ws.data.connectionId);
+            
+            // Jobs keep running; a reconnecting client resumes them on a new connection
+            for (const jobId of Array.from(this.subscriptions.get(ws.data.connectionId)?.keys() || [])) {
+              this.unfollowJob(ws.data.connectionId, jobId);
+            }
+            this.subscriptions.delete(ws.data.connectionId);
             this.connectionCount--;
           }
         },
 
         // HTTP fetch handler for WebSocket upgrades and health checks
-        fetch: (req, server) => {
+        fetch: async (req, server) => {
           const url = new URL(req.url);
           
           // Health check endpoint
@@ -118,10 +146,21 @@ class CodePlannerGateway {
             });
           }
           
+          // Job status endpoints
+          if (url.pathname === '/jobs' || url.pathname.startsWith('/jobs/')) {
+            return this.handleJobsRequest(req, url);
+          }
+          
+          // Authenticate before accepting the WebSocket upgrade
+          const userId = await this.authenticate(req, url);
+          if (!userId) {
+            return new Response('Unauthorized', { status: 401 });
+          }
+          
           // WebSocket upgrade
           const upgraded = server.upgrade(req, {
             data: {
-              userId: 'user1',
+              userId,
               connectionId: crypto.randomUUID(),
               connectedAt: Date.now()
             }
@@ -142,26 +181,227 @@ class CodePlannerGateway {
     }
   }
 
+  /**
+   * Handles a request to cancel a job
+   * The job must belong to the user of the connection
+   * @param ws - WebSocket connection that sent the request
+   * @param jobId - Job to cancel
+   */
+  private async handleCancel(ws: ServerWebSocket<WSData>, jobId: string): Promise<void> {
+    const record = typeof jobId === 'string' ? await this.redis.getJobRecord(jobId) : null;
+    if (!record || record.userId !== ws.data.userId) {
+      this.sendError(ws, 'Job not found');
+      return;
+    }
+    
+    if (record.status !== 'queued' && record.status !== 'running') {
+      this.sendError(ws, `Job is already ${record.status}`);
+      return;
+    }
+    
+    const cancelledWhileQueued = await this.redis.cancelJob(jobId);
+    console.log(`🚫 Cancel requested for job ${jobId} by ${ws.data.connectionId}`);
+    
+    const reply: WSMessage = {
+      type: 'cancel',
+      jobId,
+      data: { status: cancelledWhileQueued ? 'cancelled' : 'cancelling' }
+    };
+    ws.send(JSON.stringify(reply));
+  }
+
+  /**
+   * Handles a client resuming a job after reconnecting
+   * Replays the results stored after `afterSeq`, then continues with live results.
+   * Live results arriving during the replay are buffered and de-duplicated by sequence number.
+   * @param ws - WebSocket connection that sent the request
+   * @param jobId - Job to resume
+   * @param afterSeq - Sequence number of the last result the client received
+   */
+  private async handleResume(ws: ServerWebSocket<WSData>, jobId: string, afterSeq: number): Promise<void> {
+    const record = typeof jobId === 'string' ? await this.redis.getJobRecord(jobId) : null;
+    if (!record || record.userId !== ws.data.userId) {
+      this.sendError(ws, 'Job not found');
+      return;
+    }
+    
+    console.log(`⏪ Resuming job ${jobId} after #${afterSeq} for ${ws.data.connectionId}`);
+    
+    let lastSeq = afterSeq;
+    let replaying = true;
+    let finished = false;
+    const buffered: ResultMessage[] = [];
+    
+    const deliver = (result: ResultMessage) => {
+      if (result.seq !== undefined && result.seq <= lastSeq) {
+        return;
+      }
+      lastSeq = result.seq ?? lastSeq;
+      finished = finished || result.type === 'complete' || result.type === 'error';
+      this.handleJobResult(ws, result);
+    };
+    
+    // Subscribe first, so nothing published during the replay is missed
+    await this.followJob(ws, jobId, (result) => {
+      if (replaying) {
+        buffered.push(result);
+      } else {
+        deliver(result);
+      }
+    });
+    
+    for (const result of await this.redis.getJobResults(jobId)) {
+      deliver(result);
+    }
+    replaying = false;
+    for (const result of buffered) {
+      deliver(result);
+    }
+    
+    // The job ended but its results have expired, so the outcome can't be replayed
+    const ended = record.status !== 'queued' && record.status !== 'running';
+    if (ended && !finished) {
+      this.unfollowJob(ws.data.connectionId, jobId);
+      this.sendError(ws, `Job is ${record.status}; its results are no longer available`, jobId);
+    }
+  }
+
+  /**
+   * Subscribes a connection to the results of a job
+   * @param ws - WebSocket connection following the job
+   * @param jobId - Job to follow
+   * @param onResult - Callback for each result
+   */
+  private async followJob(
+    ws: ServerWebSocket<WSData>,
+    jobId: string,
+    onResult: (result: ResultMessage) => void
+  ): Promise<void> {
+    const { connectionId } = ws.data;
+    this.unfollowJob(connectionId, jobId);
+    
+    const unsubscribe = await this.redis.subscribeToResults(jobId, onResult);
+    if (!this.subscriptions.has(connectionId)) {
+      this.subscriptions.set(connectionId, new Map());
+    }
+    this.subscriptions.get(connectionId)!.set(jobId, unsubscribe);
+  }
+
+  /**
+   * Removes a connection's subscription to the results of a job
+   * @param connectionId - Connection following the job
+   * @param jobId - Job to stop following
+   */
+  private unfollowJob(connectionId: string, jobId: string): void {
+    const jobs = this.subscriptions.get(connectionId);
+    const unsubscribe = jobs?.get(jobId);
+    if (unsubscribe) {
+      jobs!.delete(jobId);
+      unsubscribe();
+    }
+  }
+
+  /**
+   * Handles the job status HTTP endpoints
+   * - GET /jobs/:id returns a single job record with its output
+   * - GET /jobs?project=<id>&limit=<n> lists the caller's recent jobs
+   * @param req - Incoming HTTP request
+   * @param url - Parsed request URL
+   * @returns JSON response
+   */
+  private async handleJobsRequest(req: Request, url: URL): Promise<Response> {
+    const userId = await this.authenticate(req, url);
+    if (!userId) {
+      return this.jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+    
+    if (req.method !== 'GET') {
+      return this.jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+    
+    try {
+      const jobId = url.pathname.slice('/jobs/'.length);
+      if (jobId) {
+        const record = await this.redis.getJobRecord(decodeURIComponent(jobId));
+        // Jobs of other users are reported as missing rather than forbidden
+        if (!record || record.userId !== userId) {
+          return this.jsonResponse({ error: 'Job not found' }, 404);
+        }
+        return this.jsonResponse(record);
+      }
+      
+      const projectId = url.searchParams.get('project') || undefined;
+      const limit = Math.min(100, Math.max(1, Number(url.searchParams.get('limit')) || 20));
+      const jobs = await this.redis.listJobRecords(userId, projectId, limit);
+      return this.jsonResponse({ jobs });
+      
+    } catch (error) {
+      console.error('❌ Error handling jobs request:', error);
+      return this.jsonResponse({ error: 'Failed to load jobs' }, 500);
+    }
+  }
+
+  /**
+   * Builds a JSON HTTP response
+   * @param body - Response body
+   * @param status - HTTP status code
+   * @returns Response object
+   */
+  private jsonResponse(body: any, status: number = 200): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  /**
+   * Authenticates a request using its API token
+   * The token is read from an `Authorization: Bearer` header or a `token` query parameter
+   * @param req - Incoming HTTP request (WebSocket upgrade or REST call)
+   * @param url - Parsed request URL
+   * @returns User ID the token belongs to, or null if authentication failed
+   */
+  private async authenticate(req: Request, url: URL): Promise<string | null> {
+    // Single-user local setups can opt out of authentication
+    if (process.env.AUTH_DISABLED === 'true') {
+      return process.env.DEFAULT_USER_ID || 'local';
+    }
+    
+    const header = req.headers.get('authorization');
+    const token = header?.match(/^Bearer\s+(.+)$/i)?.[1] || url.searchParams.get('token');
+    if (!token) {
+      return null;
+    }
+    
+    try {
+      return await this.redis.resolveToken(token.trim());
+    } catch (error) {
+      console.error('❌ Failed to resolve API token:', error);
+      return null;
+    }
+  }
+
   /**
    * Handles job results from worker processes
    * @param ws - WebSocket connection to send result to
    * @param result - Result message from worker
    */
-  private handleJobResult(ws: ServerWebSocket<WSData>, result: any): void {
+  private handleJobResult(ws: ServerWebSocket<WSData>, result: ResultMessage): void {
     try {
       // Create WebSocket message for client
       const wsMessage: WSMessage = {
-        type: result.type === 'complete' ? 'response' : 'stream',
+        type: result.type === 'complete' ? 'response' : result.type === 'error' ? 'error' : 'stream',
         jobId: result.jobId,
-        data: result.data
+        data: result.data,
+        seq: result.seq
       };
       
       // Send result to client
       ws.send(JSON.stringify(wsMessage));
       
-      // If job is complete, unsubscribe from results
-      if (result.type === 'complete') {
-        this.redis.unsubscribeFromResults(result.jobId);
+      // If job is finished, unsubscribe from results
+      if (result.type === 'complete' || result.type === 'error') {
+        this.unfollowJob(ws.data.connectionId, result.jobId);
       }
       
     } catch (error) {
@@ -174,11 +414,12 @@ class CodePlannerGateway {
    * Sends an error message to a client
    * @param ws - WebSocket connection
    * @param message - Error message
+   * @param jobId - Job the error relates to (if known)
    */
-  private sendError(ws: ServerWebSocket<WSData>, message: string): void {
+  private sendError(ws: ServerWebSocket<WSData>, message: string, jobId: string = 'unknown'): void {
     const errorMessage: WSMessage = {
       type: 'error',
-      jobId: 'unknown',
+      jobId,
       data: { message }
     };
     
@@ -0,0 +1,47 @@
+/**
+ * API token management for the CodePlanner gateway
+ *
+ * Small admin script for issuing and revoking the API tokens that
+ * the gateway checks on every WebSocket upgrade.
+ *
+ * Usage:
+ *   bun packages/gateway/src/tokens.ts create <userId>
+ *   bun packages/gateway/src/tokens.ts revoke <token>
+ */
+
+import { GatewayRedisClient } from './redis';
+
+/**
+ * Runs the token command given on the command line
+ */
+async function main(): Promise<void> {
+  const [action, value] = process.argv.slice(2);
+
+  if (!value || (action !== 'create' && action !== 'revoke')) {
+    console.log('Usage:');
+    console.log('  bun packages/gateway/src/tokens.ts create <userId>');
+    console.log('  bun packages/gateway/src/tokens.ts revoke <token>');
+    process.exit(1);
+  }
+
+  const redis = new GatewayRedisClient(process.env.REDIS_URL || 'redis://localhost:6379');
+  await redis.connect();
+
+  try {
+    if (action === 'create') {
+      const token = await redis.createToken(value);
+      console.log(`\n🔑 Token for user "${value}" (shown only once):\n\n${token}\n`);
+      console.log('💡 Use it with: export CODEPLANNER_TOKEN=<token>');
+    } else {
+      const revoked = await redis.revokeToken(value);
+      console.log(revoked ? '✅ Token revoked' : '⚠️  Token not found');
+    }
+  } finally {
+    await redis.disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Token command failed:', error);
+  process.exit(1);
+});
@@ -52,4 +52,6 @@ export interface ResultMessage {
   data: any;
   /** Timestamp when result was generated */
   timestamp: number;
+  /** Position of the result in the job's result stream (used to resume) */
+  seq?: number;
 }
@@ -11,9 +11,9 @@
  */
 export interface PlanRequest {
   /** Type of operation to perform */
-  command: 'plan' | 'analyze-error' | 'index';
-  /** Unique identifier for the user making the request */
-  userId: string;
+  command: 'plan' | 'analyze-error' | 'index' | 'update';
+  /** Unique identifier for the user making the request (set by the gateway from the API token) */
+  userId?: string;
   /** Unique identifier for the project being analyzed */
   projectId: string;
   /** File system path to the project root */
@@ -22,8 +22,14 @@ export interface PlanRequest {
   query?: string;
   /** Error input text (for analyze-error command) */
   errorInput?: string;
-  /** Type of error being analyzed */
-  errorType?: 'compiler' | 'runtime' | 'linter';
+  /** Type of error being analyzed ('auto' or omitted detects it from the input) */
+  errorType?: 'auto' | 'compiler' | 'runtime' | 'linter';
+  /** Project-relative paths of changed files (for update command) */
+  files?: string[];
+  /** Output format: streamed Markdown (default) or a validated JSON document */
+  format?: 'text' | 'json';
+  /** Interactive planning session to continue (for plan command); the query is then a follow-up */
+  sessionId?: string;
 }
 
 /**
@@ -58,6 +64,23 @@ export interface PlanResponse {
   affectedFiles: string[];
 }
 
+/**
+ * Reference to a code chunk that was given to the model as context
+ * Recorded with generated plans so they can be traced back to their inputs
+ */
+export interface ContextReference {
+  /** ID of the code chunk */
+  id: string;
+  /** File the chunk was extracted from */
+  filePath: string;
+  /** Name of the function/class (if applicable) */
+  name?: string;
+  /** Similarity of the chunk to the query (0-1) */
+  similarity: number;
+  /** Keyword (BM25) score of the chunk against the query */
+  lexicalScore?: number;
+}
+
 /**
  * Individual step in an implementation plan
  * Provides specific actions and code changes needed
@@ -80,12 +103,55 @@ export interface PlanStep {
  * Used for streaming responses and status updates
  */
 export interface WSMessage {
-  /** Type of message being sent */
-  type: 'request' | 'response' | 'stream' | 'error';
+  /**
+   * Type of message being sent ('accepted' acknowledges a queued job, 'cancel' stops one,
+   * 'resume' replays a job's results after a reconnect)
+   */
+  type: 'request' | 'accepted' | 'cancel' | 'resume' | 'response' | 'stream' | 'error';
   /** Unique job identifier for tracking requests */
   jobId: string;
   /** Message payload data */
   data: any;
+  /** Sequence number of a job result, increasing per job */
+  seq?: number;
+}
+
+/**
+ * Lifecycle state of a job
+ */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Persistent record of a job, kept in Redis by the gateway and worker
+ * Lets clients check on jobs independently of the WebSocket stream
+ */
+export interface JobRecord {
+  /** Unique job identifier */
+  jobId: string;
+  /** Command being executed */
+  command: string;
+  /** User who submitted the job */
+  userId: string;
+  /** Project the job belongs to */
+  projectId: string;
+  /** Current lifecycle state */
+  status: JobStatus;
+  /** Timestamp when the job was queued */
+  createdAt: number;
+  /** Timestamp when a worker started processing the job */
+  startedAt?: number;
+  /** Timestamp when the job completed, failed or was cancelled */
+  finishedAt?: number;
+  /** Consumer name of the worker processing the job */
+  workerId?: string;
+  /** Latest progress update (for long-running jobs) */
+  progress?: { current: number; total: number; message: string; percentage: number };
+  /** Final result data (for completed jobs) */
+  result?: any;
+  /** Streamed output accumulated so far (for plan and analyze-error jobs) */
+  output?: string;
+  /** Error message (for failed jobs) */
+  error?: string;
 }
 
 /**
@@ -115,6 +181,19 @@ export interface ParsedError {
   rule?: string;
 }
 
+/**
+ * Parser chosen for an error input
+ * Reported back to the client so a wrong detection can be overridden
+ */
+export interface ErrorDetection {
+  /** Detected (or requested) error type */
+  type: ParsedError['type'];
+  /** Format the input was parsed as (e.g. tsc, tsc-pretty, eslint-stylish, vitest, v8-stack, generic) */
+  parser: string;
+  /** How clearly the input matches the format (0-1) */
+  confidence: number;
+}
+
 /**
  * Individual frame in a stack trace
  * Represents a single function call in the call stack
@@ -122,12 +201,14 @@ export interface ParsedError {
 export interface StackFrame {
   /** Name of the function (if available) */
   functionName?: string;
-  /** File path where this frame is located */
+  /** File path where this frame is located (the original source if resolved through a source map) */
   filePath: string;
   /** Line number in the file */
   lineNumber: number;
   /** Column number in the file */
   columnNumber: number;
+  /** Location in the compiled file as reported by the runtime, set when the frame was source-mapped */
+  generated?: Pick<StackFrame, 'filePath' | 'lineNumber' | 'columnNumber'>;
 }
 
 /**
@@ -143,6 +224,31 @@ export interface DebuggingPlan {
   steps: DebuggingStep[];
   /** Files that need to be examined or modified */
   affectedFiles: string[];
+  /** Errors the plan addresses, in fix order (set when several errors were analyzed) */
+  errors?: ErrorReference[];
+}
+
+/**
+ * An analyzed error that debugging steps refer to
+ * Errors sharing its root cause (cascades, repeats) are listed by location
+ */
+export interface ErrorReference {
+  /** Identifier used by steps' `resolves` (E1, E2, ...) */
+  id: string;
+  /** Type of error (compiler, runtime, or linter) */
+  type: ParsedError['type'];
+  /** Error message text */
+  message: string;
+  /** File path where error occurred (if available) */
+  filePath?: string;
+  /** Line number where error occurred (if available) */
+  lineNumber?: number;
+  /** Column number where error occurred (if available) */
+  columnNumber?: number;
+  /** Error code or linting rule (if available) */
+  code?: string;
+  /** Other reported errors with the same root cause, as `file:line code` */
+  related: string[];
 }
 
 /**
@@ -160,4 +266,6 @@ export interface DebuggingStep {
   filePath?: string;
   /** Before and after code changes for fixes (if applicable) */
   codeChange?: { before: string; after: string };
+  /** IDs of the errors this step fixes (see DebuggingPlan.errors) */
+  resolves?: string[];
 }